@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
+import { OrganizationProvider } from "@/hooks/useOrganization";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import BillingModels from "./pages/BillingModels";
@@ -11,6 +12,7 @@ import Billing from "./pages/Billing";
 import Products from "./pages/Products";
 import SavedModels from "./pages/SavedModels";
 import Settings from "./pages/Settings";
+import AuditLog from "./pages/AuditLog";
 import Pricing from "./pages/Pricing";
 import StripePricing from "./pages/StripePricing";
 import PaymentSuccess from "./pages/PaymentSuccess";
@@ -93,6 +95,14 @@ const AppRoutes = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/audit-log"
+        element={
+          <ProtectedRoute>
+            <AuditLog />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/settings"
         element={
@@ -112,7 +122,9 @@ const App = () => {
       <TooltipProvider>
         <BrowserRouter>
           <AuthProvider>
-            <AppRoutes />
+            <OrganizationProvider>
+              <AppRoutes />
+            </OrganizationProvider>
             <Toaster />
             <Sonner />
           </AuthProvider>
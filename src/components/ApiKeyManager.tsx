@@ -0,0 +1,225 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { KeyRound, Plus, Copy, Ban } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { apiKeyService, type ApiKey } from '@/services/apiKeyService';
+
+interface MeterOption {
+  name: string;
+  display_name: string;
+}
+
+const ApiKeyManager = () => {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [meters, setMeters] = useState<MeterOption[]>([]);
+  const [keyName, setKeyName] = useState('');
+  const [selectedMeters, setSelectedMeters] = useState<string[]>([]);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const { toast } = useToast();
+
+  const loadApiKeys = useCallback(async () => {
+    const { data, error } = await apiKeyService.listApiKeys();
+    if (error) {
+      toast({
+        title: "Error",
+        description: error,
+        variant: "destructive",
+      });
+    } else {
+      setApiKeys(data || []);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadApiKeys();
+    supabase
+      .from('usage_meters')
+      .select('name, display_name')
+      .order('name')
+      .then(({ data }) => setMeters(data || []));
+  }, [loadApiKeys]);
+
+  const toggleMeter = (meterName: string, checked: boolean) => {
+    setSelectedMeters(prev => checked ? [...prev, meterName] : prev.filter(name => name !== meterName));
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    const { data, secret, error } = await apiKeyService.createApiKey(keyName.trim(), selectedMeters);
+    setIsCreating(false);
+
+    if (error || !data || !secret) {
+      toast({
+        title: "Failed to Create API Key",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setApiKeys(prev => [data, ...prev]);
+    setNewSecret(secret);
+    setKeyName('');
+    setSelectedMeters([]);
+  };
+
+  const handleCopy = async () => {
+    if (!newSecret) return;
+    await navigator.clipboard.writeText(newSecret);
+    toast({
+      title: "Copied",
+      description: "API key copied to clipboard.",
+    });
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    const { error } = await apiKeyService.revokeApiKey(apiKey.id);
+    if (error) {
+      toast({
+        title: "Failed to Revoke API Key",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "API Key Revoked",
+      description: `${apiKey.name} can no longer report usage.`,
+    });
+    loadApiKeys();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="h-5 w-5" />
+          <span>API Keys</span>
+        </CardTitle>
+        <CardDescription>
+          Let your servers report usage with the <code>x-api-key</code> header. Each key can only record the meters it is scoped to; add <code>customer_id</code> to bill an event to one of your Stripe customers (a customer in your organization's connected Stripe account for organization meters).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {newSecret && (
+          <div className="rounded-md border border-amber-300 bg-amber-50 p-3 space-y-2">
+            <p className="text-sm text-amber-800">
+              Copy this key now. It is stored hashed and will not be shown again.
+            </p>
+            <div className="flex space-x-2">
+              <Input value={newSecret} readOnly className="font-mono text-xs" />
+              <Button variant="outline" onClick={handleCopy}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setNewSecret(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        <div>
+          <Label htmlFor="apiKeyName">Key Name</Label>
+          <Input
+            id="apiKeyName"
+            value={keyName}
+            onChange={(e) => setKeyName(e.target.value)}
+            placeholder="e.g. Production backend"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Meters</Label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {meters.map(meter => (
+              <div key={meter.name} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`api-key-meter-${meter.name}`}
+                  checked={selectedMeters.includes(meter.name)}
+                  onCheckedChange={(checked) => toggleMeter(meter.name, checked === true)}
+                />
+                <Label htmlFor={`api-key-meter-${meter.name}`} className="font-normal">
+                  {meter.display_name}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+        <Button
+          onClick={handleCreate}
+          disabled={isCreating || !keyName.trim() || selectedMeters.length === 0}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          {isCreating ? 'Creating...' : 'Create API Key'}
+        </Button>
+
+        {apiKeys.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              {apiKeys.map(apiKey => (
+                <div key={apiKey.id} className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">{apiKey.name}</span>
+                      <code className="text-xs text-gray-500">{apiKey.key_prefix}…</code>
+                      {apiKey.revoked_at && <Badge variant="destructive">Revoked</Badge>}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {apiKey.meter_names.map(name => (
+                        <Badge key={name} variant="outline">{name}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {apiKey.last_used_at
+                        ? `Last used ${new Date(apiKey.last_used_at).toLocaleString()}`
+                        : 'Never used'}
+                    </p>
+                  </div>
+                  {!apiKey.revoked_at && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" size="sm">
+                          <Ban className="h-4 w-4 mr-2" />
+                          Revoke
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Revoke {apiKey.name}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Servers using this key will immediately stop being able to report usage. This cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => handleRevoke(apiKey)}
+                            className="bg-red-600 hover:bg-red-700"
+                          >
+                            Revoke Key
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ApiKeyManager;
@@ -0,0 +1,297 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollText, Search, ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  auditLogService,
+  AUDIT_PAGE_SIZE,
+  type AuditLogEntry,
+  type AuditLogFilters
+} from '@/services/auditLogService';
+import type { StripeMode } from '@/services/organizationService';
+
+const OBJECT_TYPES = [
+  'product', 'price', 'meter', 'meter_event', 'usage_event', 'credit_grant', 'invoice', 'invoice_item', 'customer', 'subscription'
+];
+
+const ALL = 'all';
+
+const verbStyles: Record<string, string> = {
+  create: 'bg-green-600',
+  update: 'bg-blue-600',
+  change_plan: 'bg-blue-600',
+  finalize: 'bg-blue-600',
+  archive: 'bg-slate-600',
+  deactivate: 'bg-slate-600',
+  cancel: 'bg-red-600',
+  resume: 'bg-green-600',
+  replay: 'bg-blue-600'
+};
+
+const formatJson = (value: unknown) => value == null ? '—' : JSON.stringify(value, null, 2);
+
+const AuditLogViewer = () => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    const { entries: pageEntries, total: count, error } = await auditLogService.listEntries(filters, page);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error,
+        variant: "destructive",
+      });
+    } else {
+      setEntries(pageEntries || []);
+      setTotal(count || 0);
+    }
+    setLoading(false);
+  }, [filters, page, toast]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const applyFilters = (next: Partial<AuditLogFilters>) => {
+    setPage(0);
+    setFilters(current => ({ ...current, ...next }));
+  };
+
+  // Request ids tie together everything one function call changed
+  const showRequest = (requestId: string) => {
+    setSearch(requestId);
+    applyFilters({ search: requestId });
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <ScrollText className="h-5 w-5" />
+              <span>Stripe Audit Log</span>
+            </CardTitle>
+            <CardDescription>
+              Every product, price, meter, credit and subscription change made through this app, with its state before and after
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadEntries} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            applyFilters({ search });
+          }}
+        >
+          <div className="md:col-span-2">
+            <Label htmlFor="audit-search">Search</Label>
+            <div className="relative">
+              <Search className="absolute left-2 top-3 h-4 w-4 text-gray-400" />
+              <Input
+                id="audit-search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Object id, request id, actor or action"
+                className="pl-8"
+              />
+            </div>
+          </div>
+          <div>
+            <Label>Object</Label>
+            <Select
+              value={filters.objectType || ALL}
+              onValueChange={(value) => applyFilters({ objectType: value === ALL ? undefined : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All objects</SelectItem>
+                {OBJECT_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{type.replace('_', ' ')}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Mode</Label>
+            <Select
+              value={filters.mode || ALL}
+              onValueChange={(value) => applyFilters({ mode: value === ALL ? undefined : value as StripeMode })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Test and live</SelectItem>
+                <SelectItem value="test">Test</SelectItem>
+                <SelectItem value="live">Live</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={filters.from?.slice(0, 10) || ''}
+              onChange={(e) => applyFilters({ from: e.target.value ? new Date(e.target.value).toISOString() : undefined })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={filters.to?.slice(0, 10) || ''}
+              onChange={(e) => applyFilters({
+                // Inclusive of the whole selected day
+                to: e.target.value ? new Date(`${e.target.value}T23:59:59.999`).toISOString() : undefined
+              })}
+            />
+          </div>
+        </form>
+
+        {Object.values(filters).some(Boolean) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setSearch('');
+              setPage(0);
+              setFilters({});
+            }}
+          >
+            Clear filters
+          </Button>
+        )}
+
+        {loading && entries.length === 0 ? (
+          <div className="flex items-center justify-center p-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500">No Stripe changes match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>When</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Stripe Object</TableHead>
+                <TableHead>Source</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => {
+                const expanded = expandedId === entry.id;
+                const verb = entry.action.split('.').pop() || '';
+                return (
+                  <React.Fragment key={entry.id}>
+                    <TableRow className="cursor-pointer" onClick={() => setExpandedId(expanded ? null : entry.id)}>
+                      <TableCell>
+                        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-sm">{entry.actor_email || entry.actor_id || 'system'}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <Badge className={verbStyles[verb] || 'bg-gray-500'}>{entry.action}</Badge>
+                          {entry.mode && (
+                            <Badge variant="outline" className={entry.mode === 'live' ? 'border-orange-500 text-orange-700' : ''}>
+                              {entry.mode === 'live' ? 'Live' : 'Test'}
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{entry.stripe_object_id || '—'}</TableCell>
+                      <TableCell className="text-xs">
+                        <div>{entry.function_name}</div>
+                        <button
+                          type="button"
+                          className="font-mono text-gray-500 hover:text-indigo-600 hover:underline"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            showRequest(entry.request_id);
+                          }}
+                          title="Show everything this request changed"
+                        >
+                          {entry.request_id.slice(0, 8)}
+                        </button>
+                      </TableCell>
+                    </TableRow>
+                    {expanded && (
+                      <TableRow>
+                        <TableCell colSpan={6}>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                              <h4 className="font-semibold text-sm mb-1">Before</h4>
+                              <pre className="bg-gray-900 text-gray-100 rounded-lg p-3 text-xs overflow-auto max-h-96">
+                                {formatJson(entry.before)}
+                              </pre>
+                            </div>
+                            <div>
+                              <h4 className="font-semibold text-sm mb-1">After</h4>
+                              <pre className="bg-gray-900 text-gray-100 rounded-lg p-3 text-xs overflow-auto max-h-96">
+                                {formatJson(entry.after)}
+                              </pre>
+                            </div>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {total > AUDIT_PAGE_SIZE && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-500">
+              Page {page + 1} of {pageCount} · {total} entries
+            </span>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || loading}>
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount || loading}>
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuditLogViewer;
@@ -1,12 +1,18 @@
 import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Plus, Save, Download, Eye } from 'lucide-react';
+import { Plus, Save, Download, Eye, RotateCcw, Calculator } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/hooks/useOrganization';
 import { billingModelService } from '@/services/billingModelService';
 import { supabase } from '@/integrations/supabase/client';
 import ModelHeader from './ModelHeader';
 import BillingItemCard from './BillingItemCard';
+import DeploymentPlanDialog from './DeploymentPlanDialog';
+import PricingSimulator from './PricingSimulator';
+import type { BillingModel, DeploymentPlan } from '@/services/stripeService';
+import { deploymentService, type DeploymentRunResult } from '@/services/deploymentService';
+import { errorMessage } from '@/lib/utils';
 
 interface BillingItem {
   id: string;
@@ -51,7 +57,13 @@ const BillingModelGenerator = ({ uploadedData, onModelGenerated }: BillingModelG
   const [isEditing, setIsEditing] = useState(true);
   const [isCreating, setIsCreating] = useState(false);
   const [showApiPreview, setShowApiPreview] = useState(false);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [deploymentPlan, setDeploymentPlan] = useState<DeploymentPlan | null>(null);
+  const [savedModel, setSavedModel] = useState<BillingModel | null>(null);
+  const [lastDeployment, setLastDeployment] = useState<DeploymentRunResult['deployment'] | null>(null);
+  const [simulatedModel, setSimulatedModel] = useState<Pick<BillingModel, 'name' | 'type' | 'items'> | null>(null);
   const { toast } = useToast();
+  const { currentOrganization } = useOrganization();
 
   const updateBillingItem = (id: string, field: keyof BillingItem, value: any) => {
     setBillingItems(prev => 
@@ -98,6 +110,37 @@ const BillingModelGenerator = ({ uploadedData, onModelGenerated }: BillingModelG
     return billingModelService.generateStripeConfiguration(model);
   };
 
+  const buildBillingModel = () => ({
+    name: modelName,
+    description: modelDescription,
+    type: detectModelType().toLowerCase().replace(/\s+/g, '-') as any,
+    items: billingItems
+  });
+
+  // Saves a new model the first time, then records later edits as new versions of it
+  const persistModel = async (): Promise<BillingModel | null> => {
+    const model = buildBillingModel();
+    if (savedModel && !billingModelService.hasModelChanged(savedModel, model)) {
+      return savedModel;
+    }
+
+    const { model: persisted, error } = savedModel
+      ? await billingModelService.updateBillingModel(savedModel.id, model)
+      : await billingModelService.saveBillingModel(model);
+
+    if (error || !persisted) {
+      toast({
+        title: "Error",
+        description: error || 'Failed to save billing model',
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    setSavedModel(persisted);
+    return persisted;
+  };
+
   const saveModel = async () => {
     if (!modelName || billingItems.length === 0) {
       toast({
@@ -108,31 +151,78 @@ const BillingModelGenerator = ({ uploadedData, onModelGenerated }: BillingModelG
       return;
     }
 
-    const model = {
-      name: modelName,
-      description: modelDescription,
-      type: detectModelType().toLowerCase().replace(/\s+/g, '-') as any,
-      items: billingItems
-    };
-    
-    const { model: savedModel, error } = await billingModelService.saveBillingModel(model);
-    
-    if (error) {
-      toast({
-        title: "Error",
-        description: error,
-        variant: "destructive",
-      });
+    const persisted = await persistModel();
+    if (!persisted) {
       return;
     }
 
-    onModelGenerated(savedModel);
+    onModelGenerated(persisted);
     toast({
       title: "Billing Model Saved!",
       description: `${modelName} has been generated and is ready for Stripe configuration.`,
     });
   };
 
+  const previewDeployment = async () => {
+    if (!modelName || billingItems.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Please save the model first before creating Stripe resources.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsPlanning(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('deploy-billing-model', {
+        body: { billingModel: buildBillingModel(), dryRun: true, organizationId: currentOrganization?.id }
+      });
+
+      if (error) {
+        throw new Error(error.message || 'Failed to plan billing model deployment');
+      }
+
+      if (!data?.success) {
+        throw new Error(data?.error || 'Unknown error occurred');
+      }
+
+      setDeploymentPlan(data.plan);
+    } catch (error) {
+      console.error('Error planning deployment:', error);
+      toast({
+        title: "Error Planning Deployment",
+        description: errorMessage(error) || 'Failed to compute deployment plan',
+        variant: "destructive",
+      });
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleDeploymentResult = (data: DeploymentRunResult) => {
+    const { summary, deployment } = data;
+    setLastDeployment(deployment);
+
+    if (deployment.status === 'completed') {
+      toast({
+        title: "Stripe Resources Created!",
+        description: `Successfully created ${summary.products_created} products, ${summary.prices_created} prices, and ${summary.meters_created} meters in Stripe.`,
+      });
+    } else {
+      toast({
+        title: "Deployment Incomplete",
+        description: `${deployment.items_succeeded} of ${deployment.items_total} items deployed. Resume to retry the remaining items.`,
+        variant: "destructive",
+      });
+    }
+
+    if (data.results?.errors?.length > 0) {
+      console.warn('Some warnings occurred:', data.results.errors);
+    }
+  };
+
   const createStripeResources = async () => {
     if (!modelName || billingItems.length === 0) {
       toast({
@@ -146,17 +236,22 @@ const BillingModelGenerator = ({ uploadedData, onModelGenerated }: BillingModelG
     setIsCreating(true);
     
     try {
-      const billingModel = {
-        name: modelName,
-        description: modelDescription,
-        type: detectModelType().toLowerCase().replace(/\s+/g, '-') as any,
-        items: billingItems
-      };
+      // Deployments are tied to a saved model version so idempotency keys stay stable
+      const persisted = await persistModel();
+      if (!persisted) {
+        return;
+      }
+
+      const billingModel = buildBillingModel();
 
       console.log('Deploying billing model to Stripe:', billingModel);
 
       const { data, error } = await supabase.functions.invoke('deploy-billing-model', {
-        body: { billingModel }
+        body: {
+          billingModel,
+          billingModelId: persisted.id,
+          modelVersion: persisted.current_version
+        }
       });
 
       if (error) {
@@ -164,24 +259,17 @@ const BillingModelGenerator = ({ uploadedData, onModelGenerated }: BillingModelG
       }
 
       if (data?.success) {
-        const summary = data.summary;
-        toast({
-          title: "Stripe Resources Created!",
-          description: `Successfully created ${summary.products_created} products, ${summary.prices_created} prices, and ${summary.meters_created} meters in Stripe.`,
-        });
-
-        if (data.results?.errors?.length > 0) {
-          console.warn('Some warnings occurred:', data.results.errors);
-        }
+        setDeploymentPlan(null);
+        handleDeploymentResult(data);
       } else {
         throw new Error(data?.error || 'Unknown error occurred');
       }
       
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error creating Stripe resources:', error);
       toast({
         title: "Error Creating Resources",
-        description: error.message || 'Failed to create Stripe resources',
+        description: errorMessage(error) || 'Failed to create Stripe resources',
         variant: "destructive",
       });
     } finally {
@@ -189,6 +277,24 @@ const BillingModelGenerator = ({ uploadedData, onModelGenerated }: BillingModelG
     }
   };
 
+  const resumeDeployment = async () => {
+    if (!lastDeployment) return;
+
+    setIsCreating(true);
+    const { result, error } = await deploymentService.resumeDeployment(lastDeployment.id);
+
+    if (error) {
+      toast({
+        title: "Error Resuming Deployment",
+        description: error,
+        variant: "destructive",
+      });
+    } else if (result) {
+      handleDeploymentResult(result);
+    }
+    setIsCreating(false);
+  };
+
   const downloadConfiguration = () => {
     const config = generateAPIPreview();
     const blob = new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' });
@@ -315,13 +421,33 @@ const BillingModelGenerator = ({ uploadedData, onModelGenerated }: BillingModelG
         </Button>
         
         <Button
-          onClick={createStripeResources}
-          disabled={!modelName || billingItems.length === 0 || isCreating}
+          onClick={previewDeployment}
+          disabled={!modelName || billingItems.length === 0 || isCreating || isPlanning}
           className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
         >
-          {isCreating ? "Creating..." : "Deploy to Stripe"}
+          {isPlanning ? "Planning..." : isCreating ? "Creating..." : "Deploy to Stripe"}
         </Button>
+
+        {lastDeployment && lastDeployment.status !== 'completed' && (
+          <Button
+            variant="outline"
+            onClick={resumeDeployment}
+            disabled={isCreating}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Resume Deployment ({lastDeployment.items_total - lastDeployment.items_succeeded} remaining)
+          </Button>
+        )}
         
+        <Button
+          variant="outline"
+          onClick={() => setSimulatedModel(buildBillingModel())}
+          disabled={billingItems.length === 0}
+        >
+          <Calculator className="h-4 w-4 mr-2" />
+          Simulate Invoices
+        </Button>
+
         <Button 
           variant="outline" 
           onClick={() => setShowApiPreview(!showApiPreview)}
@@ -335,6 +461,20 @@ const BillingModelGenerator = ({ uploadedData, onModelGenerated }: BillingModelG
           Download Config
         </Button>
       </div>
+
+      <DeploymentPlanDialog
+        plan={deploymentPlan}
+        isOpen={deploymentPlan !== null}
+        isDeploying={isCreating}
+        onClose={() => setDeploymentPlan(null)}
+        onConfirm={createStripeResources}
+      />
+
+      <PricingSimulator
+        model={simulatedModel}
+        isOpen={simulatedModel !== null}
+        onClose={() => setSimulatedModel(null)}
+      />
     </div>
   );
 };
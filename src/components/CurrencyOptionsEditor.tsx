@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+
+const SUPPORTED_CURRENCIES = ['usd', 'eur', 'gbp', 'cad', 'aud'];
+
+interface CurrencyOptionsEditorProps {
+  baseCurrency: string;
+  options: Record<string, number>; // lowercase currency code -> amount in cents
+  onChange: (options: Record<string, number>) => void;
+  lockedCurrencies?: string[]; // Existing Stripe currency options can be changed but not removed
+}
+
+const CurrencyOptionsEditor = ({ baseCurrency, options, onChange, lockedCurrencies = [] }: CurrencyOptionsEditorProps) => {
+  const available = SUPPORTED_CURRENCIES.filter(code => code !== baseCurrency.toLowerCase() && !(code in options));
+  const [newCurrency, setNewCurrency] = useState('');
+  const selectedCurrency = available.includes(newCurrency) ? newCurrency : available[0];
+
+  const addCurrency = () => {
+    const code = selectedCurrency;
+    if (!code) return;
+
+    onChange({ ...options, [code]: 0 });
+    setNewCurrency('');
+  };
+
+  const updateAmount = (code: string, value: string) => {
+    onChange({ ...options, [code]: Math.round((parseFloat(value) || 0) * 100) });
+  };
+
+  const removeCurrency = (code: string) => {
+    const remaining = { ...options };
+    delete remaining[code];
+    onChange(remaining);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Additional Currencies</Label>
+      {Object.entries(options).map(([code, amount]) => (
+        <div key={code} className="flex items-center space-x-2">
+          <span className="w-12 text-sm font-medium">{code.toUpperCase()}</span>
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            value={amount / 100}
+            onChange={(e) => updateAmount(code, e.target.value)}
+            className="flex-1"
+          />
+          {!lockedCurrencies.includes(code) && (
+            <Button variant="outline" size="sm" onClick={() => removeCurrency(code)}>
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      ))}
+      {available.length > 0 && (
+        <div className="flex items-center space-x-2">
+          <Select value={selectedCurrency} onValueChange={setNewCurrency}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map(code => (
+                <SelectItem key={code} value={code}>{code.toUpperCase()}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={addCurrency}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add Currency
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CurrencyOptionsEditor;
@@ -0,0 +1,333 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Rocket, RotateCcw, Undo2, AlertTriangle, ArrowUpCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/hooks/useOrganization';
+import { deploymentService, type BillingModelDeployment } from '@/services/deploymentService';
+import type { BillingModel, DeploymentPlan } from '@/services/stripeService';
+import DeploymentPlanDialog from './DeploymentPlanDialog';
+
+interface DeploymentHistoryProps {
+  model: BillingModel | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const statusStyles: Record<string, string> = {
+  completed: 'bg-green-600',
+  succeeded: 'bg-green-600',
+  partial: 'bg-amber-500',
+  running: 'bg-blue-600',
+  pending: 'bg-gray-500',
+  failed: 'bg-red-600',
+  rolled_back: 'bg-slate-600',
+  partially_rolled_back: 'bg-orange-600'
+};
+
+const DeploymentHistory = ({ model, isOpen, onClose }: DeploymentHistoryProps) => {
+  const [deployments, setDeployments] = useState<BillingModelDeployment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [resumingId, setResumingId] = useState<string | null>(null);
+  const [rollbackTarget, setRollbackTarget] = useState<BillingModelDeployment | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [promotion, setPromotion] = useState<{ deployment: BillingModelDeployment; plan: DeploymentPlan } | null>(null);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+  const { hasRole } = useOrganization();
+  const { toast } = useToast();
+
+  const modelId = model?.id;
+
+  const loadDeployments = useCallback(async () => {
+    if (!modelId) return;
+
+    setLoading(true);
+    const { deployments: modelDeployments, error } = await deploymentService.getDeployments(modelId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error,
+        variant: "destructive",
+      });
+    } else {
+      setDeployments(modelDeployments || []);
+    }
+    setLoading(false);
+  }, [modelId, toast]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadDeployments();
+    }
+  }, [isOpen, loadDeployments]);
+
+  const handleResume = async (deployment: BillingModelDeployment) => {
+    setResumingId(deployment.id);
+    const { result, error } = await deploymentService.resumeDeployment(deployment.id);
+
+    if (error) {
+      toast({
+        title: "Error Resuming Deployment",
+        description: error,
+        variant: "destructive",
+      });
+    } else if (result) {
+      toast({
+        title: result.deployment.status === 'completed' ? "Deployment Completed" : "Deployment Still Incomplete",
+        description: `${result.deployment.items_succeeded} of ${result.deployment.items_total} items deployed.`,
+        variant: result.deployment.status === 'completed' ? undefined : "destructive",
+      });
+    }
+
+    await loadDeployments();
+    setResumingId(null);
+  };
+
+  const handleRollback = async (deployment: BillingModelDeployment) => {
+    setRollbackTarget(null);
+    setRollingBackId(deployment.id);
+    const { result, error } = await deploymentService.rollbackDeployment(deployment.id);
+
+    if (error) {
+      toast({
+        title: "Error Rolling Back Deployment",
+        description: error,
+        variant: "destructive",
+      });
+    } else if (result) {
+      toast({
+        title: result.status === 'rolled_back' ? "Deployment Rolled Back" : "Deployment Partially Rolled Back",
+        description: result.summary.not_undone > 0
+          ? `${result.summary.undone} resources undone, ${result.summary.not_undone} could not be undone.`
+          : `${result.summary.undone} resources archived or deactivated.`,
+        variant: result.status === 'rolled_back' ? undefined : "destructive",
+      });
+    }
+
+    await loadDeployments();
+    setRollingBackId(null);
+  };
+
+  const handlePreviewPromotion = async (deployment: BillingModelDeployment) => {
+    setPromotingId(deployment.id);
+    const { plan, error } = await deploymentService.previewPromotion(deployment.id);
+    setPromotingId(null);
+
+    if (error || !plan) {
+      toast({
+        title: "Error Planning Promotion",
+        description: error || 'No plan was returned',
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPromotion({ deployment, plan });
+  };
+
+  const handlePromote = async () => {
+    if (!promotion) return;
+
+    setPromotingId(promotion.deployment.id);
+    const { result, error } = await deploymentService.promoteDeployment(promotion.deployment.id);
+
+    if (error) {
+      toast({
+        title: "Error Promoting Deployment",
+        description: error,
+        variant: "destructive",
+      });
+    } else if (result) {
+      toast({
+        title: result.deployment.status === 'completed' ? "Promoted to Live" : "Promotion Incomplete",
+        description: `${result.deployment.items_succeeded} of ${result.deployment.items_total} items deployed to your live account.`,
+        variant: result.deployment.status === 'completed' ? undefined : "destructive",
+      });
+    }
+
+    setPromotion(null);
+    await loadDeployments();
+    setPromotingId(null);
+  };
+
+  const busy = resumingId !== null || rollingBackId !== null || promotingId !== null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Rocket className="h-5 w-5" />
+            <span>Deployments: {model?.name}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Each deployment tracks its items individually. Resuming only retries items that are pending or failed; rolling back only undoes what the deployment created.
+            Deployments go to your test account; promoting a completed one replays it against your live account.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : deployments.length === 0 ? (
+          <p className="text-sm text-gray-500">This model has not been deployed yet.</p>
+        ) : (
+          <div className="space-y-6">
+            {deployments.map((deployment) => (
+              <div key={deployment.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <Badge className={statusStyles[deployment.status]}>{deployment.status}</Badge>
+                      <Badge variant="outline" className={deployment.mode === 'live' ? 'border-orange-500 text-orange-700' : ''}>
+                        {deployment.mode === 'live' ? 'Live' : 'Test'}
+                      </Badge>
+                      {deployment.model_version && (
+                        <span className="text-sm text-gray-600">Version {deployment.model_version}</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {new Date(deployment.created_at).toLocaleString()} · {deployment.attempts} attempt(s)
+                      {deployment.promoted_from_deployment_id && ' · promoted from test'}
+                      {deployments.some(other => other.promoted_from_deployment_id === deployment.id && other.status === 'completed') &&
+                        ' · promoted to live'}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {deploymentService.canResume(deployment) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleResume(deployment)}
+                        disabled={busy}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        {resumingId === deployment.id ? 'Resuming...' : 'Resume'}
+                      </Button>
+                    )}
+                    {deploymentService.canRollback(deployment) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRollbackTarget(deployment)}
+                        disabled={busy || (deployment.mode === 'live' && !hasRole('admin'))}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Undo2 className="h-4 w-4 mr-2" />
+                        {rollingBackId === deployment.id ? 'Rolling back...' : 'Roll Back'}
+                      </Button>
+                    )}
+                    {deploymentService.canPromote(deployment) && hasRole('admin') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handlePreviewPromotion(deployment)}
+                        disabled={busy}
+                        className="text-orange-600 hover:text-orange-700"
+                      >
+                        <ArrowUpCircle className="h-4 w-4 mr-2" />
+                        {promotingId === deployment.id ? 'Planning...' : 'Promote to Live'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {deployment.rollback_report && deployment.rollback_report.not_undone.length > 0 && (
+                  <div className="rounded-lg border border-orange-200 bg-orange-50 p-3 text-sm">
+                    <div className="flex items-center space-x-2 font-medium text-orange-800 mb-1">
+                      <AlertTriangle className="h-4 w-4" />
+                      <span>Could not be undone</span>
+                    </div>
+                    <ul className="space-y-1 text-orange-900">
+                      {deployment.rollback_report.not_undone.map((entry) => (
+                        <li key={`${entry.type}-${entry.id}`}>
+                          {entry.product_name} {entry.type} <span className="font-mono text-xs">{entry.id}</span>: {entry.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Price</TableHead>
+                      <TableHead>Meter</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {deployment.items.map((item) => (
+                      <TableRow key={item.id}>
+                        <TableCell>
+                          <div className="font-medium">{item.product_name}</div>
+                          {item.error && <div className="text-xs text-red-600">{item.error}</div>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={statusStyles[item.status]}>{item.status}</Badge>
+                          {item.rolled_back_at && <div className="text-xs text-gray-500 mt-1">rolled back</div>}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {item.stripe_product_id || '—'}
+                          {item.product_action && <div className="text-gray-500">{item.product_action}</div>}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {item.stripe_price_id || '—'}
+                          {item.price_action && <div className="text-gray-500">{item.price_action}</div>}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {item.stripe_meter_id || '—'}
+                          {item.meter_action && <div className="text-gray-500">{item.meter_action}</div>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <AlertDialog open={rollbackTarget !== null} onOpenChange={(open) => !open && setRollbackTarget(null)}>
+          <AlertDialogContent className="shadow-2xl">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Roll back this deployment?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Products created by this deployment will be archived and its prices and meters deactivated.
+                Anything that already existed in Stripe before the deployment is left untouched, and prices
+                attached to live subscriptions are kept active.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => rollbackTarget && handleRollback(rollbackTarget)}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                Roll Back
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <DeploymentPlanDialog
+          plan={promotion?.plan ?? null}
+          isOpen={promotion !== null}
+          isDeploying={promotingId !== null}
+          mode="live"
+          onClose={() => setPromotion(null)}
+          onConfirm={handlePromote}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeploymentHistory;
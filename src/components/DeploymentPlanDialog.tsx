@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { ClipboardList } from 'lucide-react';
+import type { DeploymentPlan, DeploymentPlanEntry } from '@/services/stripeService';
+import type { StripeMode } from '@/services/organizationService';
+
+interface DeploymentPlanDialogProps {
+  plan: DeploymentPlan | null;
+  isOpen: boolean;
+  isDeploying: boolean;
+  // Live plans come from promoting a test deployment; everything else deploys to test
+  mode?: StripeMode;
+  onClose: () => void;
+  onConfirm: () => void;
+}
+
+const ACTION_SYMBOLS: Record<DeploymentPlanEntry['action'], { symbol: string; className: string }> = {
+  create: { symbol: '+', className: 'text-green-700' },
+  reuse: { symbol: '=', className: 'text-blue-700' },
+  untouched: { symbol: ' ', className: 'text-gray-400' }
+};
+
+const describeEntry = (entry: DeploymentPlanEntry) => {
+  const details = entry.details || {};
+  if (details.billing_scheme === 'tiered' && details.tiers) {
+    return `${details.currency?.toUpperCase()} tiered (${details.tiers.length} tiers)${details.interval ? ` / ${details.interval}` : ''}`;
+  }
+  if (details.currency) {
+    const amount = details.unit_amount != null ? (details.unit_amount / 100).toFixed(2) : '—';
+    const usage = details.usage_type === 'metered' ? ' metered' : '';
+    const extraCurrencies = Object.keys(details.currency_options || {}).map(code => code.toUpperCase());
+    const currencies = extraCurrencies.length > 0 ? ` (+ ${extraCurrencies.join(', ')})` : '';
+    return `${amount} ${details.currency.toUpperCase()}${currencies}${details.interval ? ` / ${details.interval}` : ''}${usage}`;
+  }
+  if (details.event_name) {
+    return `event: ${details.event_name}`;
+  }
+  return '';
+};
+
+const PlanSection = ({ title, entries, showUntouched }: { title: string; entries: DeploymentPlanEntry[]; showUntouched: boolean }) => {
+  const visible = entries.filter(entry => showUntouched || entry.action !== 'untouched');
+  if (visible.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="font-semibold mb-2">{title}</h4>
+      <div className="bg-gray-900 rounded-lg p-3 font-mono text-sm space-y-1">
+        {visible.map((entry, index) => {
+          const { symbol, className } = ACTION_SYMBOLS[entry.action];
+          return (
+            <div key={`${entry.stripe_id || entry.item_id}-${index}`} className={className}>
+              <span className="mr-2">{symbol}</span>
+              <span>{entry.name}</span>
+              {describeEntry(entry) && <span className="opacity-80"> ({describeEntry(entry)})</span>}
+              {entry.stripe_id && <span className="opacity-60"> [{entry.stripe_id}]</span>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const DeploymentPlanDialog = ({ plan, isOpen, isDeploying, mode = 'test', onClose, onConfirm }: DeploymentPlanDialogProps) => {
+  const [showUntouched, setShowUntouched] = useState(false);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ClipboardList className="h-5 w-5" />
+            <span>{mode === 'live' ? 'Review Promotion to Live' : 'Review Deployment Plan'}</span>
+            <Badge variant="outline" className={mode === 'live' ? 'border-orange-500 text-orange-700' : ''}>
+              {mode === 'live' ? 'Live' : 'Test'}
+            </Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {mode === 'live'
+              ? 'Nothing has been written to your live Stripe account yet. This is what replaying the test deployment will change there.'
+              : 'Nothing has been written to Stripe yet. Billing models always deploy to your test account first; promote a completed deployment to live from its deployment history.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {plan && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className="bg-green-600">{plan.summary.to_create} to create</Badge>
+              <Badge className="bg-blue-600">{plan.summary.to_reuse} to reuse</Badge>
+              <Badge variant="secondary">{plan.summary.untouched} untouched</Badge>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch id="show-untouched" checked={showUntouched} onCheckedChange={setShowUntouched} />
+              <Label htmlFor="show-untouched">Show untouched resources</Label>
+            </div>
+
+            <PlanSection title="Products" entries={plan.products} showUntouched={showUntouched} />
+            <PlanSection title="Prices" entries={plan.prices} showUntouched={showUntouched} />
+            <PlanSection title="Meters" entries={plan.meters} showUntouched={showUntouched} />
+
+            <p className="text-xs text-gray-500">
+              <span className="font-mono text-green-700">+</span> create &nbsp;
+              <span className="font-mono text-blue-700">=</span> reuse existing &nbsp;
+              <span className="font-mono text-gray-400">·</span> left untouched
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isDeploying}>
+            Cancel
+          </Button>
+          <Button
+            onClick={onConfirm}
+            disabled={!plan || isDeploying || plan.summary.to_create === 0}
+            className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
+          >
+            {mode === 'live'
+              ? (isDeploying ? "Promoting..." : `Promote to Live (${plan?.summary.to_create ?? 0} changes)`)
+              : (isDeploying ? "Deploying..." : `Apply Plan (${plan?.summary.to_create ?? 0} changes)`)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeploymentPlanDialog;
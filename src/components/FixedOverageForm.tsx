@@ -6,10 +6,15 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import { Plus, Trash2, Save, RefreshCw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/hooks/useOrganization';
 import { billingModelService } from '@/services/billingModelService';
 import { supabase } from '@/integrations/supabase/client';
+import { stripeService, type BillingItem, type BillingTier } from '@/services/stripeService';
+import TierEditor from './TierEditor';
+import CurrencyOptionsEditor from './CurrencyOptionsEditor';
 
 interface BasePlan {
   name: string;
@@ -19,6 +24,7 @@ interface BasePlan {
   description: string;
   includedUsage: number;
   usageUnit: string;
+  currencyOptions?: Record<string, number>;
 }
 
 interface OverageItem {
@@ -28,8 +34,17 @@ interface OverageItem {
   currency: string;
   eventName: string;
   description: string;
+  useTiers?: boolean;
+  tiers?: BillingTier[];
+  tiersMode?: 'graduated' | 'volume';
 }
 
+// Graduated default: the included usage is free, everything beyond it is billed at the overage rate
+const defaultOverageTiers = (includedUsage: number, pricePerUnit: number): BillingTier[] => [
+  ...(includedUsage > 0 ? [{ up_to: includedUsage, unit_amount: 0, flat_amount: 0 }] : []),
+  { up_to: 'inf', unit_amount: Math.round(pricePerUnit * 10000) / 100, flat_amount: 0 }
+];
+
 const FixedOverageForm = () => {
   const [modelName, setModelName] = useState('');
   const [modelDescription, setModelDescription] = useState('');
@@ -45,6 +60,7 @@ const FixedOverageForm = () => {
   const [overageItems, setOverageItems] = useState<OverageItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const { currentOrganization, mode } = useOrganization();
 
   useEffect(() => {
     fetchStripeData();
@@ -56,7 +72,7 @@ const FixedOverageForm = () => {
       console.log('Fetching live Stripe data...');
       
       const { data, error } = await supabase.functions.invoke('fetch-stripe-data', {
-        body: {}
+        body: { organizationId: currentOrganization?.id, mode }
       });
 
       if (error) {
@@ -190,12 +206,13 @@ const FixedOverageForm = () => {
       return;
     }
 
-    const billingItems = [
+    const billingItems: BillingItem[] = [
       {
         id: 'base-plan',
         product: basePlan.name,
         unit_amount: Math.round(basePlan.price * 100),
         currency: basePlan.currency.toLowerCase(),
+        currency_options: basePlan.currencyOptions,
         type: 'recurring' as const,
         interval: basePlan.interval,
         description: basePlan.description,
@@ -216,7 +233,13 @@ const FixedOverageForm = () => {
         type: 'metered' as const,
         eventName: item.eventName,
         description: item.description,
-        billing_scheme: 'per_unit' as const,
+        ...(item.useTiers ? {
+          billing_scheme: 'tiered' as const,
+          tiers: item.tiers || defaultOverageTiers(basePlan.includedUsage, item.pricePerUnit),
+          tiers_mode: item.tiersMode || 'graduated'
+        } : {
+          billing_scheme: 'per_unit' as const
+        }),
         usage_type: 'metered' as const,
         aggregate_usage: 'sum' as const,
         metadata: {
@@ -229,6 +252,24 @@ const FixedOverageForm = () => {
       }))
     ];
 
+    const invalidItem = billingItems
+      .map(item => ({
+        item,
+        errors: item.billing_scheme === 'tiered'
+          ? stripeService.validateTiers(item.tiers)
+          : stripeService.validateCurrencyOptions(item.currency, item.currency_options || {})
+      }))
+      .find(({ errors }) => errors.length > 0);
+
+    if (invalidItem) {
+      toast({
+        title: "Validation Error",
+        description: `${invalidItem.item.product || 'Overage item'}: ${invalidItem.errors.join(', ')}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     const model = {
       name: modelName,
       description: modelDescription,
@@ -371,6 +412,12 @@ const FixedOverageForm = () => {
             </div>
           </div>
           
+          <CurrencyOptionsEditor
+            baseCurrency={basePlan.currency}
+            options={basePlan.currencyOptions || {}}
+            onChange={(options) => setBasePlan({...basePlan, currencyOptions: options})}
+          />
+
           <div>
             <Label>Plan Description</Label>
             <Textarea
@@ -479,10 +526,31 @@ const FixedOverageForm = () => {
                     rows={2}
                   />
                 </div>
+
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id={`tiers-${item.id}`}
+                    checked={!!item.useTiers}
+                    onCheckedChange={(checked) => updateOverageItem(item.id, 'useTiers', checked)}
+                  />
+                  <Label htmlFor={`tiers-${item.id}`}>Use tiered pricing</Label>
+                </div>
+
+                {item.useTiers && (
+                  <TierEditor
+                    tiers={item.tiers || defaultOverageTiers(basePlan.includedUsage, item.pricePerUnit)}
+                    mode={item.tiersMode || 'graduated'}
+                    unitLabel={basePlan.usageUnit || 'units'}
+                    onChange={(tiers) => updateOverageItem(item.id, 'tiers', tiers)}
+                    onModeChange={(mode) => updateOverageItem(item.id, 'tiersMode', mode)}
+                  />
+                )}
                 
                 <div className="flex items-center space-x-2">
                   <Badge variant="outline">
-                    ${item.pricePerUnit} {item.currency} per unit
+                    {item.useTiers
+                      ? `${(item.tiers || defaultOverageTiers(basePlan.includedUsage, item.pricePerUnit)).length} tiers (${item.tiersMode || 'graduated'})`
+                      : `$${item.pricePerUnit} ${item.currency} per unit`}
                   </Badge>
                   <Badge variant="secondary">Metered</Badge>
                 </div>
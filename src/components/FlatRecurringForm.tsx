@@ -10,6 +10,8 @@ import { Badge } from '@/components/ui/badge';
 import { Plus, Trash2, Save } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { billingModelService } from '@/services/billingModelService';
+import { stripeService } from '@/services/stripeService';
+import CurrencyOptionsEditor from './CurrencyOptionsEditor';
 
 interface RecurringPlan {
   id: string;
@@ -18,6 +20,7 @@ interface RecurringPlan {
   currency: string;
   interval: string;
   description: string;
+  currencyOptions?: Record<string, number>;
 }
 
 const FlatRecurringForm = () => {
@@ -74,6 +77,7 @@ const FlatRecurringForm = () => {
       product: plan.name,
       unit_amount: Math.round(plan.price * 100), // Convert to cents for Stripe
       currency: plan.currency.toLowerCase(),
+      currency_options: plan.currencyOptions,
       type: 'recurring' as const,
       interval: plan.interval,
       description: plan.description,
@@ -84,6 +88,19 @@ const FlatRecurringForm = () => {
       }
     }));
 
+    const invalidPlan = plans
+      .map(plan => ({ plan, errors: stripeService.validateCurrencyOptions(plan.currency, plan.currencyOptions || {}) }))
+      .find(({ errors }) => errors.length > 0);
+
+    if (invalidPlan) {
+      toast({
+        title: "Invalid Currencies",
+        description: `${invalidPlan.plan.name || 'Plan'}: ${invalidPlan.errors.join(', ')}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     const model = {
       name: modelName,
       description: modelDescription,
@@ -225,6 +242,12 @@ const FlatRecurringForm = () => {
                   </div>
                 </div>
                 
+                <CurrencyOptionsEditor
+                  baseCurrency={plan.currency}
+                  options={plan.currencyOptions || {}}
+                  onChange={(options) => updatePlan(plan.id, 'currencyOptions', options)}
+                />
+
                 <div>
                   <Label>Description</Label>
                   <Textarea
@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from '@/components/ui/chart';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Scale, AlertTriangle } from 'lucide-react';
+import { pricingSimulatorService, type UsageProfile } from '@/services/pricingSimulatorService';
+import type { BillingModel } from '@/services/stripeService';
+
+interface ModelComparisonProps {
+  models: BillingModel[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CHART_COLORS = ['hsl(var(--chart-1))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))'];
+
+const formatAmount = (cents: number, currency: string) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(cents / 100);
+
+const ModelComparison = ({ models, isOpen, onClose }: ModelComparisonProps) => {
+  const [profiles, setProfiles] = useState<UsageProfile[]>([]);
+
+  useEffect(() => {
+    if (isOpen && models.length > 0) {
+      setProfiles(pricingSimulatorService.defaultProfiles(models));
+    }
+  }, [isOpen, models]);
+
+  const meters = useMemo(() => {
+    const all = new Map<string, string>();
+    models.forEach(model =>
+      pricingSimulatorService.getScenarioMeters(model).forEach(meter => {
+        if (!all.has(meter.eventName)) all.set(meter.eventName, meter.label);
+      })
+    );
+    return [...all.entries()].map(([eventName, label]) => ({ eventName, label }));
+  }, [models]);
+
+  const currencies = useMemo(
+    () => [...new Set(models.flatMap(model => model.items.map(item => (item.currency || 'usd').toLowerCase())))],
+    [models]
+  );
+  const currency = currencies[0] || 'usd';
+
+  const comparison = useMemo(() => pricingSimulatorService.compareModels(models, profiles), [models, profiles]);
+  const breakEvens = useMemo(() => pricingSimulatorService.findBreakEvens(models, profiles), [models, profiles]);
+
+  // Series are keyed by position since model ids are not valid CSS variable names
+  const chartConfig = useMemo<ChartConfig>(() =>
+    Object.fromEntries(
+      models.map((model, index) => [`model${index}`, { label: model.name, color: CHART_COLORS[index % CHART_COLORS.length] }])
+    ), [models]);
+
+  const chartData = useMemo(() =>
+    (profiles.length > 1 ? pricingSimulatorService.costCurve(models, profiles) : []).map(point => ({
+      position: `${Math.round(point.position * 100)}%`,
+      ...Object.fromEntries(models.map((model, index) => [`model${index}`, Math.round(point.monthlyAmounts[model.id]) / 100]))
+    })), [models, profiles]);
+
+  const modelName = (id: string) => models.find(model => model.id === id)?.name || id;
+
+  const updateProfile = (id: string, updates: Partial<UsageProfile>) => {
+    setProfiles(current => current.map(profile => (profile.id === id ? { ...profile, ...updates } : profile)));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Scale className="h-5 w-5" />
+            <span>Compare Models</span>
+          </DialogTitle>
+          <DialogDescription>
+            Monthly invoice per customer profile, averaged over a year. Break-even points are found by moving usage from the first profile to the last.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {currencies.length > 1 && (
+            <div className="flex items-center space-x-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4" />
+              <span>These models use different currencies ({currencies.map(code => code.toUpperCase()).join(', ')}); amounts are compared without conversion.</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="font-medium text-sm">Usage Profiles (per month)</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Profile</TableHead>
+                  <TableHead>Seats</TableHead>
+                  {meters.map(meter => (
+                    <TableHead key={meter.eventName}>{meter.label}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map(profile => (
+                  <TableRow key={profile.id}>
+                    <TableCell className="font-medium">{profile.name}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={profile.seats}
+                        onChange={(e) => updateProfile(profile.id, { seats: parseInt(e.target.value) || 0 })}
+                        className="w-24"
+                      />
+                    </TableCell>
+                    {meters.map(meter => (
+                      <TableCell key={meter.eventName}>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={profile.events[meter.eventName] ?? 0}
+                          onChange={(e) => updateProfile(profile.id, {
+                            events: { ...profile.events, [meter.eventName]: parseInt(e.target.value) || 0 }
+                          })}
+                          className="w-28"
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="font-medium text-sm">Revenue per Customer (monthly)</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Profile</TableHead>
+                  {models.map(model => (
+                    <TableHead key={model.id} className="text-right">
+                      {model.name} <span className="text-xs text-gray-500">({model.type})</span>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {comparison.map(row => (
+                  <TableRow key={row.profile.id}>
+                    <TableCell className="font-medium">{row.profile.name}</TableCell>
+                    {models.map(model => (
+                      <TableCell key={model.id} className="text-right">
+                        <span className={row.cheapestModelId === model.id ? 'font-semibold text-green-700' : ''}>
+                          {formatAmount(row.monthlyAmounts[model.id], currency)}
+                        </span>
+                        {row.cheapestModelId === model.id && (
+                          <Badge variant="outline" className="ml-2 text-green-700 border-green-300">cheapest</Badge>
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {chartData.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-medium text-sm">
+                Monthly Invoice from {profiles[0]?.name} to {profiles[profiles.length - 1]?.name}
+              </h4>
+              <ChartContainer config={chartConfig} className="h-72 w-full">
+                <LineChart data={chartData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="position" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {models.map((model, index) => (
+                    <Line
+                      key={model.id}
+                      dataKey={`model${index}`}
+                      type="monotone"
+                      stroke={`var(--color-model${index})`}
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="font-medium text-sm">Break-even Points</h4>
+            {breakEvens.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No break-even between these profiles: the cheaper model stays the same across the whole range.
+              </p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {breakEvens.map((point, index) => (
+                  <li key={index} className="rounded-lg border p-3">
+                    <div>
+                      <strong>{modelName(point.cheaperAfter)}</strong> becomes cheaper than{' '}
+                      <strong>{modelName(point.cheaperBefore)}</strong> at about{' '}
+                      {formatAmount(point.monthlyAmount, currency)} per month
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {point.seats} seats
+                      {Object.entries(point.events).map(([eventName, units]) => ` · ${units.toLocaleString()} ${eventName}`)}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ModelComparison;
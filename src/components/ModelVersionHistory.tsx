@@ -0,0 +1,240 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History, RotateCcw, User } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { billingModelService, type BillingModelVersion, type DiffedItemField } from '@/services/billingModelService';
+import type { BillingModel, BillingItem } from '@/services/stripeService';
+
+interface ModelVersionHistoryProps {
+  model: BillingModel | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onRestored: (model: BillingModel) => void;
+}
+
+const FIELD_LABELS: Record<DiffedItemField, string> = {
+  unit_amount: 'Amount',
+  currency: 'Currency',
+  interval: 'Interval',
+  eventName: 'Event Name'
+};
+
+const formatField = (item: BillingItem | undefined, field: DiffedItemField) => {
+  if (!item) return '—';
+  if (field === 'unit_amount') return `${(item.unit_amount / 100).toFixed(2)} ${item.currency.toUpperCase()}`;
+  if (field === 'currency') return item.currency.toUpperCase();
+  return item[field] || '—';
+};
+
+const statusStyles: Record<string, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-amber-100 text-amber-800',
+  unchanged: 'bg-gray-100 text-gray-600'
+};
+
+const ModelVersionHistory = ({ model, isOpen, onClose, onRestored }: ModelVersionHistoryProps) => {
+  const [versions, setVersions] = useState<BillingModelVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [fromVersionId, setFromVersionId] = useState<string>('');
+  const [toVersionId, setToVersionId] = useState<string>('');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const modelId = model?.id;
+
+  const loadVersions = useCallback(async () => {
+    if (!modelId) return;
+
+    setLoading(true);
+    const { versions: modelVersions, error } = await billingModelService.getModelVersions(modelId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error,
+        variant: "destructive",
+      });
+    } else {
+      const loaded = modelVersions || [];
+      setVersions(loaded);
+      // Default to comparing the latest version with the one before it
+      setToVersionId(loaded[0]?.id || '');
+      setFromVersionId(loaded[1]?.id || loaded[0]?.id || '');
+    }
+    setLoading(false);
+  }, [modelId, toast]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadVersions();
+    }
+  }, [isOpen, loadVersions]);
+
+  const handleRestore = async (version: BillingModelVersion) => {
+    if (!model) return;
+
+    setRestoringId(version.id);
+    const { model: restored, error } = await billingModelService.restoreVersion(model.id, version);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error,
+        variant: "destructive",
+      });
+    } else if (restored) {
+      toast({
+        title: "Version Restored",
+        description: `Version ${version.version_number} is now the current version of ${restored.name}.`,
+      });
+      onRestored(restored);
+      await loadVersions();
+    }
+    setRestoringId(null);
+  };
+
+  const fromVersion = versions.find(v => v.id === fromVersionId);
+  const toVersion = versions.find(v => v.id === toVersionId);
+  const diffs = fromVersion && toVersion
+    ? billingModelService.diffModelItems(fromVersion.items, toVersion.items)
+    : [];
+  const currentVersion = versions[0]?.version_number;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5" />
+            <span>Version History: {model?.name}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Every save creates a new version. Restoring an old version adds it back as the newest one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              {versions.map((version) => (
+                <div key={version.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">Version {version.version_number}</span>
+                      {version.version_number === currentVersion && (
+                        <Badge variant="secondary">Current</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600">{version.change_summary || 'No summary'}</p>
+                    <div className="flex items-center space-x-2 text-xs text-gray-500">
+                      <User className="h-3 w-3" />
+                      <span>{version.created_by_email || 'Unknown user'}</span>
+                      <span>·</span>
+                      <span>{new Date(version.created_at).toLocaleString()}</span>
+                    </div>
+                  </div>
+                  {version.version_number !== currentVersion && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(version)}
+                      disabled={restoringId !== null}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      {restoringId === version.id ? 'Restoring...' : 'Restore'}
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {versions.length > 1 && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Compare from</Label>
+                    <Select value={fromVersionId} onValueChange={setFromVersionId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map(v => (
+                          <SelectItem key={v.id} value={v.id}>Version {v.version_number}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Compare to</Label>
+                    <Select value={toVersionId} onValueChange={setToVersionId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map(v => (
+                          <SelectItem key={v.id} value={v.id}>Version {v.version_number}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Version {fromVersion?.version_number}</TableHead>
+                      <TableHead>Version {toVersion?.version_number}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {diffs.map((diff) => (
+                      <React.Fragment key={diff.itemId}>
+                        {(Object.keys(FIELD_LABELS) as DiffedItemField[]).map((field, index) => {
+                          const changed = diff.status !== 'unchanged' &&
+                            (diff.status !== 'changed' || diff.changedFields.includes(field));
+                          return (
+                            <TableRow key={`${diff.itemId}-${field}`}>
+                              {index === 0 && (
+                                <TableCell rowSpan={4} className="align-top">
+                                  <div className="font-medium">{diff.product}</div>
+                                  <span className={`inline-block mt-1 px-2 py-0.5 rounded text-xs ${statusStyles[diff.status]}`}>
+                                    {diff.status}
+                                  </span>
+                                </TableCell>
+                              )}
+                              <TableCell className="text-gray-500">{FIELD_LABELS[field]}</TableCell>
+                              <TableCell className={changed && diff.before ? 'bg-red-50 line-through text-red-700' : ''}>
+                                {formatField(diff.before, field)}
+                              </TableCell>
+                              <TableCell className={changed && diff.after ? 'bg-green-50 text-green-700 font-medium' : ''}>
+                                {formatField(diff.after, field)}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </React.Fragment>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ModelVersionHistory;
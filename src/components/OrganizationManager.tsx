@@ -0,0 +1,338 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Building2, UserPlus, Plus, Trash2, Check, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useOrganization } from '@/hooks/useOrganization';
+import { ROLE_LABELS, ROLE_ORDER } from '@/hooks/useUserRole';
+import {
+  organizationService,
+  type OrganizationInvitation,
+  type OrganizationMember,
+  type OrganizationRole
+} from '@/services/organizationService';
+
+const OrganizationManager = () => {
+  const { user } = useAuth();
+  const { currentOrganization, isOwner, switchOrganization, refreshOrganizations } = useOrganization();
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [sentInvitations, setSentInvitations] = useState<OrganizationInvitation[]>([]);
+  const [myInvitations, setMyInvitations] = useState<OrganizationInvitation[]>([]);
+  const [name, setName] = useState(currentOrganization?.name || '');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>('billing_editor');
+  const [newOrganizationName, setNewOrganizationName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const showResult = (error: string | undefined, title: string, description: string) => {
+    if (error) {
+      toast({
+        title: `${title} Failed`,
+        description: error,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    toast({ title, description });
+    return true;
+  };
+
+  const currentOrganizationId = currentOrganization?.id;
+
+  const loadData = useCallback(async () => {
+    const { data: received } = await organizationService.listInvitations();
+    setMyInvitations(received || []);
+
+    if (!currentOrganizationId) return;
+
+    const { data: memberList, error } = await organizationService.listMembers(currentOrganizationId);
+    if (error) {
+      toast({
+        title: "Error",
+        description: error,
+        variant: "destructive",
+      });
+    }
+    setMembers(memberList || []);
+
+    if (isOwner) {
+      const { data: sent } = await organizationService.listInvitations(currentOrganizationId);
+      setSentInvitations(sent || []);
+    }
+  }, [currentOrganizationId, isOwner, toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleSaveDetails = async () => {
+    if (!currentOrganization) return;
+
+    setIsSaving(true);
+    const { error } = await organizationService.updateOrganization(currentOrganization.id, {
+      name: name.trim()
+    });
+    setIsSaving(false);
+
+    if (showResult(error, "Organization Updated", "Organization details have been saved.")) {
+      refreshOrganizations();
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!currentOrganization) return;
+
+    setIsSaving(true);
+    const { error } = await organizationService.inviteMember(currentOrganization.id, inviteEmail, inviteRole);
+    setIsSaving(false);
+
+    if (showResult(error, "Invitation Sent", `${inviteEmail} can accept it from their Settings page after signing in.`)) {
+      setInviteEmail('');
+      loadData();
+    }
+  };
+
+  const handleRemoveMember = async (member: OrganizationMember) => {
+    const leaving = member.user_id === user?.id;
+    const { error } = await organizationService.removeMember(member.id);
+
+    if (showResult(error, leaving ? "Left Organization" : "Member Removed", leaving
+      ? `You are no longer a member of ${currentOrganization?.name}.`
+      : `${member.email || 'The member'} was removed.`)) {
+      if (leaving) {
+        refreshOrganizations();
+      } else {
+        loadData();
+      }
+    }
+  };
+
+  const handleMemberRole = async (member: OrganizationMember, role: OrganizationRole) => {
+    const { error } = await organizationService.setMemberRole(member.id, role);
+    if (showResult(error, "Role Updated", `${member.email || 'The member'} is now ${ROLE_LABELS[role]}.`)) {
+      loadData();
+    }
+  };
+
+  const handleRevokeInvitation = async (invitation: OrganizationInvitation) => {
+    const { error } = await organizationService.deleteInvitation(invitation.id);
+    if (showResult(error, "Invitation Revoked", `The invitation for ${invitation.email} was revoked.`)) {
+      loadData();
+    }
+  };
+
+  const handleAcceptInvitation = async (invitation: OrganizationInvitation) => {
+    const { organizationId, error } = await organizationService.acceptInvitation(invitation.id);
+    if (showResult(error, "Invitation Accepted", `You joined ${invitation.organization_name || 'the organization'}.`) && organizationId) {
+      await refreshOrganizations();
+      switchOrganization(organizationId);
+    }
+  };
+
+  const handleDeclineInvitation = async (invitation: OrganizationInvitation) => {
+    const { error } = await organizationService.deleteInvitation(invitation.id);
+    if (showResult(error, "Invitation Declined", `You declined the invitation to ${invitation.organization_name || 'the organization'}.`)) {
+      loadData();
+    }
+  };
+
+  const handleCreateOrganization = async () => {
+    setIsSaving(true);
+    const { data, error } = await organizationService.createOrganization(newOrganizationName);
+    setIsSaving(false);
+
+    if (showResult(error, "Organization Created", `${newOrganizationName} is ready.`) && data) {
+      setNewOrganizationName('');
+      await refreshOrganizations();
+      switchOrganization(data.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Building2 className="h-5 w-5" />
+          <span>Organization</span>
+          {currentOrganization && (
+            <Badge variant="outline">{ROLE_LABELS[currentOrganization.role]}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Billing models, deployments and the Stripe account are shared by everyone in the organization
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {myInvitations.length > 0 && (
+          <div className="space-y-2">
+            {myInvitations.map(invitation => (
+              <div key={invitation.id} className="flex items-center justify-between rounded-md border bg-blue-50 p-3">
+                <span className="text-sm">
+                  You're invited to join <strong>{invitation.organization_name || 'an organization'}</strong>
+                </span>
+                <div className="flex space-x-2">
+                  <Button size="sm" onClick={() => handleAcceptInvitation(invitation)}>
+                    <Check className="h-4 w-4 mr-1" />
+                    Accept
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleDeclineInvitation(invitation)}>
+                    <X className="h-4 w-4 mr-1" />
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Separator />
+          </div>
+        )}
+
+        {currentOrganization && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="organizationName">Name</Label>
+                <Input
+                  id="organizationName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={!isOwner}
+                />
+              </div>
+              <div>
+                <Label htmlFor="stripeAccountId">Stripe Account ID</Label>
+                {/* Set when a key is connected on the Billing page */}
+                <Input
+                  id="stripeAccountId"
+                  value={currentOrganization.stripe_account_id || ''}
+                  placeholder="Not connected"
+                  disabled
+                />
+              </div>
+            </div>
+            {isOwner && (
+              <Button onClick={handleSaveDetails} disabled={isSaving || !name.trim()}>
+                Save Organization
+              </Button>
+            )}
+
+            <Separator />
+
+            <div className="space-y-2">
+              <h4 className="font-medium">Members</h4>
+              {members.map(member => (
+                <div key={member.id} className="flex items-center justify-between">
+                  <span className="text-sm">
+                    {member.email || member.user_id}
+                    {member.user_id === user?.id && <span className="text-gray-500"> (you)</span>}
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    {isOwner ? (
+                      <Select value={member.role} onValueChange={(value) => handleMemberRole(member, value as OrganizationRole)}>
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[...ROLE_ORDER].reverse().map(role => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary">{ROLE_LABELS[member.role]}</Badge>
+                    )}
+                    {(isOwner || member.user_id === user?.id) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemoveMember(member)}
+                        title={member.user_id === user?.id ? 'Leave organization' : 'Remove member'}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {isOwner && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+                  <div className="md:col-span-2">
+                    <Label htmlFor="inviteEmail">Invite by Email</Label>
+                    <Input
+                      id="inviteEmail"
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      placeholder="teammate@company.com"
+                    />
+                  </div>
+                  <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as OrganizationRole)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[...ROLE_ORDER].reverse().map(role => (
+                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={handleInvite} disabled={isSaving || !inviteEmail.trim()}>
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Send Invitation
+                </Button>
+
+                {sentInvitations.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="font-medium">Pending Invitations</h4>
+                    {sentInvitations.map(invitation => (
+                      <div key={invitation.id} className="flex items-center justify-between">
+                        <span className="text-sm">
+                          {invitation.email}
+                          <span className="text-gray-500"> · expires {new Date(invitation.expires_at).toLocaleDateString()}</span>
+                        </span>
+                        <Button variant="ghost" size="sm" onClick={() => handleRevokeInvitation(invitation)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+
+            <Separator />
+          </>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+          <div className="md:col-span-2">
+            <Label htmlFor="newOrganizationName">New Organization</Label>
+            <Input
+              id="newOrganizationName"
+              value={newOrganizationName}
+              onChange={(e) => setNewOrganizationName(e.target.value)}
+              placeholder="Acme Inc."
+            />
+          </div>
+          <Button variant="outline" onClick={handleCreateOrganization} disabled={isSaving || !newOrganizationName.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrganizationManager;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Building2 } from 'lucide-react';
+import { useOrganization } from '@/hooks/useOrganization';
+
+const OrganizationSwitcher = () => {
+  const { organizations, currentOrganization, switchOrganization } = useOrganization();
+
+  if (organizations.length === 0) {
+    return null;
+  }
+
+  return (
+    <Select value={currentOrganization?.id} onValueChange={switchOrganization}>
+      <SelectTrigger className="w-48 bg-purple-600/40 border-purple-400/40 text-white">
+        <div className="flex items-center space-x-2 truncate">
+          <Building2 className="h-4 w-4 text-purple-200 shrink-0" />
+          <SelectValue placeholder="Select organization" />
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        {organizations.map(organization => (
+          <SelectItem key={organization.id} value={organization.id}>
+            {organization.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default OrganizationSwitcher;
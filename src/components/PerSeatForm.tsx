@@ -11,6 +11,9 @@ import { Switch } from '@/components/ui/switch';
 import { Plus, Trash2, Save } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { billingModelService } from '@/services/billingModelService';
+import { stripeService, type BillingItem, type BillingTier } from '@/services/stripeService';
+import TierEditor from './TierEditor';
+import CurrencyOptionsEditor from './CurrencyOptionsEditor';
 
 interface SeatTier {
   id: string;
@@ -22,8 +25,17 @@ interface SeatTier {
   maxSeats?: number;
   description: string;
   features: string[];
+  tiers?: BillingTier[];
+  tiersMode?: 'graduated' | 'volume';
+  currencyOptions?: Record<string, number>;
 }
 
+// Volume discount starting point: the list price for the first 10 seats, 20% off beyond that
+const defaultSeatTiers = (pricePerSeat: number): BillingTier[] => [
+  { up_to: 10, unit_amount: Math.round(pricePerSeat * 100), flat_amount: 0 },
+  { up_to: 'inf', unit_amount: Math.round(pricePerSeat * 80), flat_amount: 0 }
+];
+
 const PerSeatForm = () => {
   const [modelName, setModelName] = useState('');
   const [modelDescription, setModelDescription] = useState('');
@@ -118,7 +130,7 @@ const PerSeatForm = () => {
       return;
     }
 
-    const billingItems = seatTiers.map(tier => ({
+    const billingItems: BillingItem[] = seatTiers.map(tier => ({
       id: tier.id,
       product: tier.name,
       unit_amount: Math.round(tier.pricePerSeat * 100), // Convert to cents
@@ -127,7 +139,14 @@ const PerSeatForm = () => {
       interval: tier.interval,
       description: tier.description,
       eventName: `seat_${tier.name.toLowerCase().replace(/\s+/g, '_')}`,
-      billing_scheme: 'per_unit' as const,
+      ...(enableTieredPricing ? {
+        billing_scheme: 'tiered' as const,
+        tiers: tier.tiers || defaultSeatTiers(tier.pricePerSeat),
+        tiers_mode: tier.tiersMode || 'volume'
+      } : {
+        billing_scheme: 'per_unit' as const,
+        currency_options: tier.currencyOptions
+      }),
       metadata: {
         seat_type: 'per_seat',
         min_seats: tier.minSeats.toString(),
@@ -136,6 +155,24 @@ const PerSeatForm = () => {
       }
     }));
 
+    const invalidItem = billingItems
+      .map(item => ({
+        item,
+        errors: item.billing_scheme === 'tiered'
+          ? stripeService.validateTiers(item.tiers)
+          : stripeService.validateCurrencyOptions(item.currency, item.currency_options || {})
+      }))
+      .find(({ errors }) => errors.length > 0);
+
+    if (invalidItem) {
+      toast({
+        title: "Validation Error",
+        description: `${invalidItem.item.product || 'Seat tier'}: ${invalidItem.errors.join(', ')}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     const model = {
       name: modelName,
       description: modelDescription,
@@ -308,6 +345,27 @@ const PerSeatForm = () => {
                     </div>
                   </div>
                 )}
+
+                {!enableTieredPricing && (
+                  <CurrencyOptionsEditor
+                    baseCurrency={tier.currency}
+                    options={tier.currencyOptions || {}}
+                    onChange={(options) => updateSeatTier(tier.id, 'currencyOptions', options)}
+                  />
+                )}
+
+                {enableTieredPricing && (
+                  <div>
+                    <Label>Seat Price Tiers</Label>
+                    <TierEditor
+                      tiers={tier.tiers || defaultSeatTiers(tier.pricePerSeat)}
+                      mode={tier.tiersMode || 'volume'}
+                      unitLabel="seats"
+                      onChange={(tiers) => updateSeatTier(tier.id, 'tiers', tiers)}
+                      onModeChange={(mode) => updateSeatTier(tier.id, 'tiersMode', mode)}
+                    />
+                  </div>
+                )}
                 
                 <div>
                   <Label>Description</Label>
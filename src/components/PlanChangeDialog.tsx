@@ -0,0 +1,95 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowUpDown } from 'lucide-react';
+import type { PlanChangePreview } from '@/services/subscriptionService';
+
+interface PlanChangeDialogProps {
+  tierName: string;
+  preview: PlanChangePreview | null;
+  isOpen: boolean;
+  isLoading: boolean;
+  isApplying: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+}
+
+const formatAmount = (cents: number, currency: string) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(cents / 100);
+
+const formatDate = (seconds: number | null) =>
+  seconds ? new Date(seconds * 1000).toLocaleDateString() : 'the next billing date';
+
+const PlanChangeDialog = ({ tierName, preview, isOpen, isLoading, isApplying, onClose, onConfirm }: PlanChangeDialogProps) => {
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ArrowUpDown className="h-5 w-5" />
+            <span>Switch to {tierName}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Review the prorated charges before changing your plan. Nothing changes until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <p className="text-sm text-gray-500">Calculating proration...</p>}
+
+        {preview && !isLoading && (
+          <div className="space-y-4 text-sm">
+            <div className="flex items-center justify-between">
+              <span>
+                {formatAmount(preview.current_amount, preview.currency)} → {formatAmount(preview.target_amount, preview.currency)} per period
+              </span>
+              <Badge variant={preview.direction === 'upgrade' ? 'default' : 'secondary'}>{preview.direction}</Badge>
+            </div>
+
+            {preview.lines.length > 0 && (
+              <div className="rounded-lg border p-3 space-y-1">
+                {preview.lines.map((line, index) => (
+                  <div key={index} className="flex justify-between text-xs">
+                    <span className="text-gray-600 mr-4">{line.description}</span>
+                    <span className="font-mono">{formatAmount(line.amount, preview.currency)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="rounded-lg border p-3 space-y-1">
+              <div className="flex justify-between">
+                <span>Charged now</span>
+                <span className="font-semibold">{formatAmount(preview.amount_due_now, preview.currency)}</span>
+              </div>
+              <div className="flex justify-between text-gray-600">
+                <span>Next invoice ({formatDate(preview.next_invoice_date)})</span>
+                <span>{formatAmount(preview.next_invoice_total, preview.currency)}</span>
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              {preview.proration_behavior === 'always_invoice'
+                ? 'The prorated difference is invoiced immediately. If the payment fails, you stay on your current plan.'
+                : 'Unused time on your current plan is credited against your next invoice.'}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isApplying}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={!preview || isLoading || isApplying}>
+            {isApplying ? "Switching..." : "Confirm Plan Change"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PlanChangeDialog;
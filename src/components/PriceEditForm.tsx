@@ -12,6 +12,15 @@ import { Separator } from '@/components/ui/separator';
 import { Save, X, Plus, DollarSign, Calendar } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { stripeService, StripePrice } from '@/services/stripeService';
+import CurrencyOptionsEditor from './CurrencyOptionsEditor';
+
+// Stripe lists the default currency inside currency_options too; only the extra ones are editable here
+const extraCurrencyOptions = (price: StripePrice): Record<string, number> =>
+  Object.fromEntries(
+    Object.entries(price.currency_options || {})
+      .filter(([code, option]) => code !== price.currency && option.unit_amount != null)
+      .map(([code, option]) => [code, option.unit_amount as number])
+  );
 
 interface PriceEditFormProps {
   price: StripePrice;
@@ -30,19 +39,32 @@ export const PriceEditForm: React.FC<PriceEditFormProps> = ({
     nickname: price.nickname || '',
     active: price.active,
     tax_behavior: price.tax_behavior,
-    metadata: price.metadata || {}
+    metadata: price.metadata || {},
+    currency_options: extraCurrencyOptions(price)
   });
+  const existingCurrencies = Object.keys(extraCurrencyOptions(price));
   const [newMetadataKey, setNewMetadataKey] = useState('');
   const [newMetadataValue, setNewMetadataValue] = useState('');
 
   const handleSubmit = async () => {
+    const currencyErrors = stripeService.validateCurrencyOptions(price.currency, formData.currency_options);
+    if (currencyErrors.length > 0) {
+      toast({
+        title: "Invalid Currencies",
+        description: currencyErrors.join(', '),
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsLoading(true);
     try {
       const updates = {
         nickname: formData.nickname || null,
         active: formData.active,
         tax_behavior: formData.tax_behavior,
-        metadata: formData.metadata
+        metadata: formData.metadata,
+        ...(Object.keys(formData.currency_options).length > 0 ? { currency_options: formData.currency_options } : {})
       };
 
       const { price: updatedPrice, error } = await stripeService.updatePrice(price.id, updates);
@@ -214,6 +236,15 @@ export const PriceEditForm: React.FC<PriceEditFormProps> = ({
               </SelectContent>
             </Select>
           </div>
+
+          {price.billing_scheme === 'per_unit' && (
+            <CurrencyOptionsEditor
+              baseCurrency={price.currency}
+              options={formData.currency_options}
+              lockedCurrencies={existingCurrencies}
+              onChange={(options) => setFormData({ ...formData, currency_options: options })}
+            />
+          )}
         </div>
 
         <Separator />
@@ -0,0 +1,229 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Calculator, AlertTriangle } from 'lucide-react';
+import { pricingSimulatorService, type UsageScenario } from '@/services/pricingSimulatorService';
+import type { BillingModel } from '@/services/stripeService';
+
+interface PricingSimulatorProps {
+  model: Pick<BillingModel, 'name' | 'type' | 'items'> | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CHART_COLORS = ['hsl(var(--chart-1))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))'];
+
+const formatAmount = (cents: number, currency: string) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(cents / 100);
+
+const PricingSimulator = ({ model, isOpen, onClose }: PricingSimulatorProps) => {
+  const [scenario, setScenario] = useState<UsageScenario | null>(null);
+
+  useEffect(() => {
+    if (isOpen && model) {
+      setScenario(pricingSimulatorService.defaultScenario(model));
+    }
+  }, [isOpen, model]);
+
+  const meters = useMemo(() => (model ? pricingSimulatorService.getScenarioMeters(model) : []), [model]);
+  const result = useMemo(
+    () => (model && scenario ? pricingSimulatorService.simulate(model, scenario) : null),
+    [model, scenario]
+  );
+
+  // Chart series are keyed by position since item ids are not valid CSS variable names
+  const series = useMemo(() => {
+    const lines = new Map<string, { key: string; label: string }>();
+    result?.periods.forEach(period =>
+      period.lines.forEach(line => {
+        if (!lines.has(line.itemId)) {
+          lines.set(line.itemId, { key: `line${lines.size}`, label: line.product });
+        }
+      })
+    );
+    return lines;
+  }, [result]);
+
+  const chartConfig = useMemo<ChartConfig>(() =>
+    Object.fromEntries(
+      [...series.values()].map((entry, index) => [
+        entry.key,
+        { label: entry.label, color: CHART_COLORS[index % CHART_COLORS.length] }
+      ])
+    ), [series]);
+
+  const chartData = useMemo(() =>
+    (result?.periods || []).map(period => ({
+      label: period.label,
+      ...Object.fromEntries(
+        period.lines.map(line => [series.get(line.itemId)!.key, Math.round(line.amount) / 100])
+      )
+    })), [result, series]);
+
+  const updateScenario = (updates: Partial<UsageScenario>) => {
+    setScenario(current => (current ? { ...current, ...updates } : current));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Calculator className="h-5 w-5" />
+            <span>Pricing Simulator: {model?.name || 'Untitled model'}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Project what a customer would be invoiced each month for a given number of seats and usage volume.
+          </DialogDescription>
+        </DialogHeader>
+
+        {scenario && result && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="sim-seats">Seats</Label>
+                <Input
+                  id="sim-seats"
+                  type="number"
+                  min="0"
+                  value={scenario.seats}
+                  onChange={(e) => updateScenario({ seats: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="sim-months">Months</Label>
+                <Input
+                  id="sim-months"
+                  type="number"
+                  min="1"
+                  max="36"
+                  value={scenario.months}
+                  onChange={(e) => updateScenario({ months: Math.min(36, Math.max(1, parseInt(e.target.value) || 1)) })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="sim-growth">Monthly Growth (%)</Label>
+                <Input
+                  id="sim-growth"
+                  type="number"
+                  step="0.5"
+                  value={scenario.monthlyGrowth}
+                  onChange={(e) => updateScenario({ monthlyGrowth: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+
+            {meters.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-medium text-sm">Usage per Month</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {meters.map(meter => (
+                    <div key={meter.eventName}>
+                      <Label>
+                        {meter.label} <span className="text-xs text-gray-500 font-mono">{meter.eventName}</span>
+                      </Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={scenario.events[meter.eventName] ?? 0}
+                        onChange={(e) => updateScenario({
+                          events: { ...scenario.events, [meter.eventName]: parseInt(e.target.value) || 0 }
+                        })}
+                      />
+                      {meter.includedUsage !== undefined && (
+                        <p className="text-xs text-gray-500 mt-1">{meter.includedUsage.toLocaleString()} included</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {result.mixedCurrencies && (
+              <div className="flex items-center space-x-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                <AlertTriangle className="h-4 w-4" />
+                <span>This model mixes currencies; totals are shown in {result.currency.toUpperCase()} without conversion.</span>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-gray-500">Total over {result.periods.length} months</p>
+                <p className="text-xl font-semibold">{formatAmount(result.total, result.currency)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-gray-500">Average per month</p>
+                <p className="text-xl font-semibold">{formatAmount(result.averagePerPeriod, result.currency)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-gray-500">Last month</p>
+                <p className="text-xl font-semibold">
+                  {formatAmount(result.periods[result.periods.length - 1]?.total || 0, result.currency)}
+                </p>
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-72 w-full">
+              <BarChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {[...series.values()].map(entry => (
+                  <Bar key={entry.key} dataKey={entry.key} stackId="invoice" fill={`var(--color-${entry.key})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Seats</TableHead>
+                  <TableHead>Line Items</TableHead>
+                  <TableHead className="text-right">Invoice Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.periods.map(period => (
+                  <TableRow key={period.period}>
+                    <TableCell>{period.label}</TableCell>
+                    <TableCell>{period.seats}</TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        {period.lines.map(line => (
+                          <div key={line.itemId} className="flex items-center space-x-2 text-xs">
+                            <Badge variant="outline">{line.kind}</Badge>
+                            <span>{line.product}</span>
+                            {line.kind !== 'recurring' && line.kind !== 'one_time' && (
+                              <span className="text-gray-500">
+                                {line.billableQuantity.toLocaleString()} of {line.quantity.toLocaleString()} billable
+                              </span>
+                            )}
+                            <span className="font-medium">{formatAmount(line.amount, result.currency)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{formatAmount(period.total, result.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PricingSimulator;
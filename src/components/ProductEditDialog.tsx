@@ -12,6 +12,7 @@ import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Trash2, Plus, Save, X, Edit2, DollarSign, Calendar } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/hooks/useOrganization';
 import { supabase } from '@/integrations/supabase/client';
 import { StripeProduct, StripePrice, stripeService } from '@/services/stripeService';
 import { PriceEditForm } from './PriceEditForm';
@@ -30,6 +31,7 @@ export const ProductEditDialog: React.FC<ProductEditDialogProps> = ({
   onProductUpdated
 }) => {
   const { toast } = useToast();
+  const { currentOrganization, mode } = useOrganization();
   const [isLoading, setIsLoading] = useState(false);
   const [productData, setProductData] = useState({
     name: '',
@@ -188,7 +190,9 @@ export const ProductEditDialog: React.FC<ProductEditDialogProps> = ({
           name: productData.name,
           description: productData.description,
           active: productData.active,
-          metadata: updatedMetadata
+          metadata: updatedMetadata,
+          organizationId: currentOrganization?.id,
+          mode
         }
       });
 
@@ -219,6 +223,8 @@ export const ProductEditDialog: React.FC<ProductEditDialogProps> = ({
     try {
       const priceData: any = {
         product: product.id,
+        organizationId: currentOrganization?.id,
+        mode,
         currency: newPrice.currency,
         unit_amount: Math.round(newPrice.unit_amount * 100),
         billing_scheme: newPrice.billing_scheme,
@@ -276,7 +282,7 @@ export const ProductEditDialog: React.FC<ProductEditDialogProps> = ({
     setIsLoading(true);
     try {
       const { data, error } = await supabase.functions.invoke('deactivate-stripe-price', {
-        body: { price_id: priceId }
+        body: { price_id: priceId, organizationId: currentOrganization?.id, mode }
       });
 
       if (error) throw error;
@@ -7,6 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Search, Loader2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/hooks/useOrganization';
 
 interface StripeProduct {
   id: string;
@@ -34,12 +35,15 @@ const ProductSetup = ({
   const [isLoading, setIsLoading] = useState(false);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const { toast } = useToast();
+  const { currentOrganization, mode } = useOrganization();
 
   const fetchStripeProducts = async () => {
     setIsLoading(true);
     try {
       console.log('Fetching Stripe products...');
-      const { data, error } = await supabase.functions.invoke('fetch-stripe-data');
+      const { data, error } = await supabase.functions.invoke('fetch-stripe-data', {
+        body: { organizationId: currentOrganization?.id, mode }
+      });
       
       if (error) {
         console.error('Error invoking function:', error);
@@ -3,15 +3,25 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Trash2, Eye, Download, Calendar, Package } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Trash2, Eye, Download, Calendar, Package, History, Rocket, Calculator, Scale } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { billingModelService } from '@/services/billingModelService';
 import type { BillingModel } from '@/services/stripeService';
+import ModelVersionHistory from './ModelVersionHistory';
+import DeploymentHistory from './DeploymentHistory';
+import PricingSimulator from './PricingSimulator';
+import ModelComparison from './ModelComparison';
 
 const SavedModelsList = () => {
   const [models, setModels] = useState<BillingModel[]>([]);
   const [loading, setLoading] = useState(true);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [historyModel, setHistoryModel] = useState<BillingModel | null>(null);
+  const [deploymentsModel, setDeploymentsModel] = useState<BillingModel | null>(null);
+  const [simulatedModel, setSimulatedModel] = useState<BillingModel | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [comparedModels, setComparedModels] = useState<BillingModel[]>([]);
   const { toast } = useToast();
 
   const loadModels = async () => {
@@ -50,6 +60,7 @@ const SavedModelsList = () => {
         title: "Model Deleted",
         description: "Billing model has been removed.",
       });
+      setSelectedIds(ids => ids.filter(id => id !== modelId));
       // Reload models to reflect changes
       await loadModels();
     }
@@ -104,9 +115,19 @@ const SavedModelsList = () => {
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold">Saved Billing Models ({models.length})</h3>
-        <Button variant="outline" onClick={loadModels}>
-          Refresh
-        </Button>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => setComparedModels(models.filter(model => selectedIds.includes(model.id)))}
+            disabled={selectedIds.length < 2}
+          >
+            <Scale className="h-4 w-4 mr-2" />
+            Compare Selected ({selectedIds.length})
+          </Button>
+          <Button variant="outline" onClick={loadModels}>
+            Refresh
+          </Button>
+        </div>
       </div>
       
       <div className="grid gap-4">
@@ -114,14 +135,44 @@ const SavedModelsList = () => {
           <Card key={model.id} className="hover:shadow-md transition-shadow">
             <CardHeader>
               <div className="flex items-start justify-between">
-                <div>
-                  <CardTitle className="text-lg">{model.name}</CardTitle>
-                  <CardDescription className="mt-1">
-                    {model.description || 'No description provided'}
-                  </CardDescription>
+                <div className="flex items-start space-x-3">
+                  <Checkbox
+                    className="mt-1"
+                    checked={selectedIds.includes(model.id)}
+                    onCheckedChange={(checked) => setSelectedIds(ids =>
+                      checked ? [...ids, model.id] : ids.filter(id => id !== model.id)
+                    )}
+                  />
+                  <div>
+                    <CardTitle className="text-lg">{model.name}</CardTitle>
+                    <CardDescription className="mt-1">
+                      {model.description || 'No description provided'}
+                    </CardDescription>
+                  </div>
                 </div>
                 <div className="flex items-center space-x-2">
                   <Badge variant="secondary">{model.type}</Badge>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setHistoryModel(model)}
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDeploymentsModel(model)}
+                  >
+                    <Rocket className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSimulatedModel(model)}
+                  >
+                    <Calculator className="h-4 w-4" />
+                  </Button>
                   <Button
                     variant="outline"
                     size="sm"
@@ -154,6 +205,9 @@ const SavedModelsList = () => {
                 <div className="flex items-center space-x-2">
                   <Calendar className="h-4 w-4 text-gray-500" />
                   <span>{new Date(model.created_at).toLocaleDateString()}</span>
+                  {model.current_version && (
+                    <span className="text-gray-500">· v{model.current_version}</span>
+                  )}
                 </div>
                 <div className="flex items-center space-x-2">
                   <span className="text-gray-500">Recurring:</span>
@@ -168,6 +222,34 @@ const SavedModelsList = () => {
           </Card>
         ))}
       </div>
+
+      <ModelVersionHistory
+        model={historyModel}
+        isOpen={historyModel !== null}
+        onClose={() => setHistoryModel(null)}
+        onRestored={(restored) => {
+          setHistoryModel(restored);
+          loadModels();
+        }}
+      />
+
+      <DeploymentHistory
+        model={deploymentsModel}
+        isOpen={deploymentsModel !== null}
+        onClose={() => setDeploymentsModel(null)}
+      />
+
+      <PricingSimulator
+        model={simulatedModel}
+        isOpen={simulatedModel !== null}
+        onClose={() => setSimulatedModel(null)}
+      />
+
+      <ModelComparison
+        models={comparedModels}
+        isOpen={comparedModels.length > 0}
+        onClose={() => setComparedModels([])}
+      />
     </div>
   );
 };
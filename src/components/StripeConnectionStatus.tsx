@@ -5,18 +5,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle, AlertCircle, ExternalLink, RefreshCw, Settings, Eye, EyeOff } from 'lucide-react';
+import { CheckCircle, AlertCircle, ExternalLink, RefreshCw, Settings, Eye, EyeOff, KeyRound } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-
-interface StripeConnectionData {
-  connected: boolean;
-  account_id?: string;
-  business_profile?: string;
-  error?: string;
-}
+import { useOrganization } from '@/hooks/useOrganization';
+import { stripeCredentialsService, type StripeConnection } from '@/services/stripeCredentialsService';
 
 const StripeConnectionStatus = () => {
-  const [connectionData, setConnectionData] = useState<StripeConnectionData>({ connected: false });
+  const { currentOrganization, isOwner, mode, refreshOrganizations } = useOrganization();
+  const [connectionData, setConnectionData] = useState<StripeConnection>({ connected: false });
   const [isChecking, setIsChecking] = useState(false);
   const [showApiKeyInput, setShowApiKeyInput] = useState(false);
   const [apiKey, setApiKey] = useState('');
@@ -24,58 +20,34 @@ const StripeConnectionStatus = () => {
   const [isConnecting, setIsConnecting] = useState(false);
   const { toast } = useToast();
 
-  // Load API key from localStorage on component mount
   useEffect(() => {
-    const savedApiKey = localStorage.getItem('stripe_api_key');
-    if (savedApiKey) {
-      setApiKey(savedApiKey);
-      checkStripeConnection(savedApiKey);
-    }
-  }, []);
+    // Keys used to live in the browser; make sure no copy is left behind
+    localStorage.removeItem('stripe_api_key');
+    checkStripeConnection();
+  }, [currentOrganization?.id, mode]);
 
-  const checkStripeConnection = async (keyToUse?: string) => {
-    const keyForCheck = keyToUse || apiKey;
-    if (!keyForCheck) {
-      setConnectionData({ connected: false, error: 'No API key provided' });
-      return;
-    }
+  const checkStripeConnection = async () => {
+    if (!currentOrganization) return;
 
     setIsChecking(true);
-    try {
-      console.log('Checking Stripe connection with provided API key...');
-      
-      // For demo purposes, we'll simulate a connection check
-      // In a real implementation, you'd want to validate the key with Stripe
-      if (keyForCheck.startsWith('sk_test_') || keyForCheck.startsWith('sk_live_')) {
-        // Simulate API validation
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        setConnectionData({
-          connected: true,
-          account_id: 'acct_demo_account',
-          business_profile: 'Demo Business'
-        });
-        
-        toast({
-          title: "Stripe Connected!",
-          description: "Your Stripe API key has been validated and saved locally.",
-        });
-      } else {
-        throw new Error('Invalid Stripe API key format');
-      }
-    } catch (err: any) {
-      console.error('Connection check error:', err);
-      setConnectionData({ connected: false, error: err.message });
+    const { connection, error } = await stripeCredentialsService.getStatus(currentOrganization.id, mode);
+    setIsChecking(false);
+
+    if (error) {
       toast({
         title: "Connection Error",
-        description: "Invalid Stripe API key. Please check your key and try again.",
+        description: error,
         variant: "destructive",
       });
+      return;
     }
-    setIsChecking(false);
+
+    setConnectionData(connection || { connected: false });
   };
 
   const handleConnectStripe = async () => {
+    if (!currentOrganization) return;
+
     if (!apiKey.trim()) {
       toast({
         title: "API Key Required",
@@ -85,30 +57,59 @@ const StripeConnectionStatus = () => {
       return;
     }
 
+    const rotating = connectionData.connected;
     setIsConnecting(true);
-    
-    // Save API key to localStorage
-    localStorage.setItem('stripe_api_key', apiKey);
-    
-    // Check connection with the new key
-    await checkStripeConnection(apiKey);
+    const { connection, error } = rotating
+      ? await stripeCredentialsService.rotate(currentOrganization.id, mode, apiKey)
+      : await stripeCredentialsService.connect(currentOrganization.id, mode, apiKey);
     setIsConnecting(false);
+
+    if (error || !connection) {
+      toast({
+        title: rotating ? "Key Rotation Failed" : "Connection Error",
+        description: error || 'Stripe did not accept the key',
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setApiKey('');
+    setShowApiKey(false);
     setShowApiKeyInput(false);
+    setConnectionData(connection);
+    refreshOrganizations();
+
+    toast({
+      title: rotating ? "Stripe Key Rotated" : "Stripe Connected!",
+      description: `The ${mode} key ending in ${connection.key_last4} is stored encrypted for ${currentOrganization.name}.`,
+    });
   };
 
-  const handleDisconnect = () => {
-    localStorage.removeItem('stripe_api_key');
+  const handleDisconnect = async () => {
+    if (!currentOrganization) return;
+
+    const { error } = await stripeCredentialsService.revoke(currentOrganization.id, mode);
+    if (error) {
+      toast({
+        title: "Disconnect Failed",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setApiKey('');
     setConnectionData({ connected: false });
     setShowApiKeyInput(false);
+    refreshOrganizations();
     toast({
       title: "Stripe Disconnected",
-      description: "Your Stripe API key has been removed.",
+      description: `The organization's ${mode} mode Stripe API key has been deleted.`,
     });
   };
 
   const openStripeSettings = () => {
-    window.open('https://dashboard.stripe.com/settings', '_blank');
+    window.open('https://dashboard.stripe.com/apikeys', '_blank');
   };
 
   return (
@@ -123,12 +124,12 @@ const StripeConnectionStatus = () => {
             )}
             <div>
               <CardTitle className="text-lg">
-                Stripe Connection {connectionData.connected ? 'Active' : 'Required'}
+                Stripe {mode === 'live' ? 'Live' : 'Test'} Connection {connectionData.connected ? 'Active' : 'Required'}
               </CardTitle>
               <CardDescription>
-                {connectionData.connected 
-                  ? `Connected to: ${connectionData.business_profile || connectionData.account_id}`
-                  : 'Enter your Stripe API key to enable billing features'
+                {connectionData.connected
+                  ? `Connected to: ${connectionData.account_name || connectionData.account_id}`
+                  : `Connect a Stripe ${mode} mode key to ${currentOrganization?.name || 'your organization'} to enable billing features in ${mode} mode`
                 }
               </CardDescription>
             </div>
@@ -137,34 +138,36 @@ const StripeConnectionStatus = () => {
             <Badge variant={connectionData.connected ? "default" : "secondary"}>
               {connectionData.connected ? 'Connected' : 'Not Connected'}
             </Badge>
-            {connectionData.connected && (
-              <Button 
-                variant="outline" 
-                size="sm"
-                onClick={() => checkStripeConnection()}
-                disabled={isChecking}
-              >
-                <RefreshCw className={`h-4 w-4 ${isChecking ? 'animate-spin' : ''}`} />
-              </Button>
-            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => checkStripeConnection()}
+              disabled={isChecking}
+            >
+              <RefreshCw className={`h-4 w-4 ${isChecking ? 'animate-spin' : ''}`} />
+            </Button>
           </div>
         </div>
       </CardHeader>
-      
+
       <CardContent>
         {!connectionData.connected && !showApiKeyInput && (
           <div className="space-y-3">
             <p className="text-sm text-orange-800">
-              To create and manage billing models, please provide your Stripe API key. Your key will be stored locally in your browser and never sent to our servers.
+              {isOwner
+                ? `To create and manage billing models in ${mode} mode, connect your Stripe ${mode} secret key. It is encrypted on our servers and never sent back to the browser.`
+                : `Ask an owner of this organization to connect its Stripe ${mode} mode key.`}
             </p>
             <div className="flex flex-wrap gap-3">
-              <Button 
-                className="bg-orange-600 hover:bg-orange-700"
-                onClick={() => setShowApiKeyInput(true)}
-              >
-                <Settings className="h-4 w-4 mr-2" />
-                Enter API Key
-              </Button>
+              {isOwner && (
+                <Button
+                  className="bg-orange-600 hover:bg-orange-700"
+                  onClick={() => setShowApiKeyInput(true)}
+                >
+                  <Settings className="h-4 w-4 mr-2" />
+                  Enter API Key
+                </Button>
+              )}
               <Button variant="outline" onClick={openStripeSettings}>
                 <ExternalLink className="h-4 w-4 mr-2" />
                 Get API Key
@@ -173,17 +176,20 @@ const StripeConnectionStatus = () => {
           </div>
         )}
 
-        {showApiKeyInput && (
+        {showApiKeyInput && isOwner && (
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="stripe-api-key">Stripe Secret Key</Label>
+              <Label htmlFor="stripe-api-key">
+                {connectionData.connected ? `New Stripe ${mode === 'live' ? 'Live' : 'Test'} Secret Key` : `Stripe ${mode === 'live' ? 'Live' : 'Test'} Secret Key`}
+              </Label>
               <div className="relative">
                 <Input
                   id="stripe-api-key"
                   type={showApiKey ? "text" : "password"}
                   value={apiKey}
                   onChange={(e) => setApiKey(e.target.value)}
-                  placeholder="sk_test_... or sk_live_..."
+                  placeholder={`sk_${mode}_...`}
+                  autoComplete="off"
                   className="pr-10"
                 />
                 <Button
@@ -201,19 +207,26 @@ const StripeConnectionStatus = () => {
                 </Button>
               </div>
               <p className="text-xs text-gray-600">
-                Your API key is stored locally and never transmitted to our servers
+                {connectionData.connected
+                  ? `The new key must belong to ${connectionData.account_id}; the old key stops being used immediately`
+                  : 'The key is validated with Stripe, then stored encrypted for this organization'}
               </p>
             </div>
             <div className="flex gap-3">
-              <Button 
+              <Button
                 onClick={handleConnectStripe}
                 disabled={isConnecting || !apiKey.trim()}
               >
-                {isConnecting ? "Connecting..." : "Connect Stripe"}
+                {isConnecting
+                  ? (connectionData.connected ? "Rotating..." : "Connecting...")
+                  : (connectionData.connected ? "Rotate Key" : "Connect Stripe")}
               </Button>
-              <Button 
-                variant="outline" 
-                onClick={() => setShowApiKeyInput(false)}
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setApiKey('');
+                  setShowApiKeyInput(false);
+                }}
               >
                 Cancel
               </Button>
@@ -221,19 +234,25 @@ const StripeConnectionStatus = () => {
           </div>
         )}
 
-        {connectionData.connected && (
+        {connectionData.connected && !showApiKeyInput && (
           <div className="space-y-3">
             <p className="text-sm text-green-800">
-              ✓ Stripe API key validated and ready to use
+              ✓ Key ending in {connectionData.key_last4} connected
+              {connectionData.connected_at && ` on ${new Date(connectionData.connected_at).toLocaleDateString()}`}
+              {connectionData.rotated_at && `, last rotated ${new Date(connectionData.rotated_at).toLocaleDateString()}`}
             </p>
             <div className="flex gap-3">
-              <Button variant="outline" onClick={() => setShowApiKeyInput(true)}>
-                <Settings className="h-4 w-4 mr-2" />
-                Update API Key
-              </Button>
-              <Button variant="outline" onClick={handleDisconnect}>
-                Disconnect
-              </Button>
+              {isOwner && (
+                <>
+                  <Button variant="outline" onClick={() => setShowApiKeyInput(true)}>
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    Rotate API Key
+                  </Button>
+                  <Button variant="outline" onClick={handleDisconnect}>
+                    Disconnect
+                  </Button>
+                </>
+              )}
               <Button variant="outline" onClick={openStripeSettings}>
                 <ExternalLink className="h-4 w-4 mr-2" />
                 Stripe Dashboard
@@ -2,90 +2,32 @@
 import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
-import { Trash2, RefreshCw, Shield, Lock, Eye, EyeOff, Key } from 'lucide-react';
+import { Trash2, RefreshCw, Shield, Lock } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useUserRole, ROLE_LABELS } from '@/hooks/useUserRole';
+import { supabase } from '@/integrations/supabase/client';
 
 const StripeManagement = () => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [password, setPassword] = useState('');
-  const [showResetDialog, setShowResetDialog] = useState(false);
-  const [newPassword, setNewPassword] = useState('');
-  const [confirmPassword, setConfirmPassword] = useState('');
-  const [showNewPassword, setShowNewPassword] = useState(false);
-  const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const { role, isLoading: isRoleLoading, hasRole } = useUserRole();
   const { toast } = useToast();
 
-  // Simple password for demo - in production this should be more secure
-  const [ADMIN_PASSWORD, setADMIN_PASSWORD] = useState('stripe-admin-2024');
-
-  const handlePasswordSubmit = () => {
-    if (password === ADMIN_PASSWORD) {
-      setIsAuthenticated(true);
-      setPassword('');
-      toast({
-        title: "Access Granted",
-        description: "You now have access to Stripe management functions.",
-      });
-    } else {
-      toast({
-        title: "Access Denied",
-        description: "Incorrect password. Please try again.",
-        variant: "destructive",
-      });
-    }
-  };
-
-  const handlePasswordReset = () => {
-    if (newPassword !== confirmPassword) {
-      toast({
-        title: "Password Mismatch",
-        description: "The passwords do not match. Please try again.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    if (newPassword.length < 8) {
-      toast({
-        title: "Password Too Short",
-        description: "Password must be at least 8 characters long.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    setADMIN_PASSWORD(newPassword);
-    setNewPassword('');
-    setConfirmPassword('');
-    setShowResetDialog(false);
-    toast({
-      title: "Password Updated",
-      description: "Admin password has been successfully changed.",
-    });
-  };
-
   const handleCleanupStripeData = async () => {
     setIsLoading(true);
     try {
-      const response = await fetch('/api/cleanup-stripe-products', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+      const { data, error } = await supabase.functions.invoke('cleanup-stripe-products');
 
-      if (response.ok) {
+      if (error) {
+        throw error;
+      }
+
+      if (data?.success) {
         toast({
           title: "Cleanup Completed",
           description: "All Stripe products and prices have been removed.",
         });
-      } else {
-        throw new Error('Cleanup failed');
       }
     } catch (error) {
       console.error('Cleanup error:', error);
@@ -102,20 +44,17 @@ const StripeManagement = () => {
   const handleReseedStripeData = async () => {
     setIsLoading(true);
     try {
-      const response = await fetch('/api/seed-stripe-products', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+      const { data, error } = await supabase.functions.invoke('reseed-stripe-products');
+
+      if (error) {
+        throw error;
+      }
 
-      if (response.ok) {
+      if (data?.success) {
         toast({
           title: "Reseed Completed",
           description: "Sample Stripe products and prices have been created.",
         });
-      } else {
-        throw new Error('Reseed failed');
       }
     } catch (error) {
       console.error('Reseed error:', error);
@@ -129,7 +68,11 @@ const StripeManagement = () => {
     }
   };
 
-  if (!isAuthenticated) {
+  if (isRoleLoading) {
+    return null;
+  }
+
+  if (!hasRole('admin')) {
     return (
       <Card className="shadow-2xl hover:shadow-3xl transition-all duration-300 hover:scale-105 transform z-10 relative">
         <CardHeader>
@@ -139,129 +82,9 @@ const StripeManagement = () => {
             <Badge variant="destructive" className="shadow-lg">Protected</Badge>
           </CardTitle>
           <CardDescription>
-            Enter the admin password to access Stripe management functions
+            Stripe management functions require the Admin role. Ask an account owner to grant it.
           </CardDescription>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <div>
-            <Label htmlFor="admin-password">Admin Password</Label>
-            <Input
-              id="admin-password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder="Enter admin password"
-              onKeyPress={(e) => e.key === 'Enter' && handlePasswordSubmit()}
-              className="shadow-inner hover:shadow-lg transition-shadow duration-300"
-            />
-          </div>
-          <div className="flex space-x-2">
-            <Button 
-              onClick={handlePasswordSubmit}
-              disabled={!password.trim()}
-              className="flex-1 shadow-lg hover:shadow-2xl transition-all duration-300 hover:scale-105 hover:-translate-y-1 transform"
-            >
-              <Shield className="h-4 w-4 mr-2" />
-              Authenticate
-            </Button>
-            <Button 
-              variant="outline"
-              onClick={() => setShowResetDialog(true)}
-              className="shadow-lg hover:shadow-2xl transition-all duration-300 hover:scale-105 hover:-translate-y-1 transform"
-            >
-              <Key className="h-4 w-4 mr-2" />
-              Reset Password
-            </Button>
-          </div>
-        </CardContent>
-
-        {/* Password Reset Dialog */}
-        <AlertDialog open={showResetDialog} onOpenChange={setShowResetDialog}>
-          <AlertDialogContent className="shadow-2xl">
-            <AlertDialogHeader>
-              <AlertDialogTitle>Reset Admin Password</AlertDialogTitle>
-              <AlertDialogDescription>
-                Create a new admin password. Make sure it's at least 8 characters long.
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <div className="space-y-4 my-4">
-              <div>
-                <Label htmlFor="new-password">New Password</Label>
-                <div className="relative">
-                  <Input
-                    id="new-password"
-                    type={showNewPassword ? "text" : "password"}
-                    value={newPassword}
-                    onChange={(e) => setNewPassword(e.target.value)}
-                    placeholder="Enter new password"
-                    className="pr-10"
-                  />
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                    onClick={() => setShowNewPassword(!showNewPassword)}
-                  >
-                    {showNewPassword ? (
-                      <EyeOff className="h-4 w-4" />
-                    ) : (
-                      <Eye className="h-4 w-4" />
-                    )}
-                  </Button>
-                </div>
-              </div>
-              <div>
-                <Label htmlFor="confirm-password">Confirm Password</Label>
-                <div className="relative">
-                  <Input
-                    id="confirm-password"
-                    type={showConfirmPassword ? "text" : "password"}
-                    value={confirmPassword}
-                    onChange={(e) => setConfirmPassword(e.target.value)}
-                    placeholder="Confirm new password"
-                    className="pr-10"
-                  />
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                    onClick={() => setShowConfirmPassword(!showConfirmPassword)}
-                  >
-                    {showConfirmPassword ? (
-                      <EyeOff className="h-4 w-4" />
-                    ) : (
-                      <Eye className="h-4 w-4" />
-                    )}
-                  </Button>
-                </div>
-              </div>
-              {newPassword && confirmPassword && newPassword !== confirmPassword && (
-                <p className="text-sm text-red-600">Passwords do not match</p>
-              )}
-              {newPassword && newPassword.length < 8 && (
-                <p className="text-sm text-red-600">Password must be at least 8 characters long</p>
-              )}
-            </div>
-            <AlertDialogFooter>
-              <AlertDialogCancel onClick={() => {
-                setNewPassword('');
-                setConfirmPassword('');
-                setShowNewPassword(false);
-                setShowConfirmPassword(false);
-              }}>
-                Cancel
-              </AlertDialogCancel>
-              <AlertDialogAction 
-                onClick={handlePasswordReset}
-                disabled={!newPassword || !confirmPassword || newPassword !== confirmPassword || newPassword.length < 8}
-              >
-                Update Password
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
       </Card>
     );
   }
@@ -272,7 +95,9 @@ const StripeManagement = () => {
         <CardTitle className="flex items-center space-x-2">
           <Shield className="h-5 w-5" />
           <span>Stripe Management</span>
-          <Badge variant="outline" className="text-green-600 border-green-600 shadow-lg">Authenticated</Badge>
+          {role && (
+            <Badge variant="outline" className="text-green-600 border-green-600 shadow-lg">{ROLE_LABELS[role]}</Badge>
+          )}
         </CardTitle>
         <CardDescription>
           Manage your Stripe products, prices, and test data
@@ -346,113 +171,7 @@ const StripeManagement = () => {
             </AlertDialogContent>
           </AlertDialog>
         </div>
-
-        <div className="flex space-x-2">
-          <Button 
-            variant="ghost" 
-            onClick={() => setIsAuthenticated(false)}
-            className="flex-1 text-gray-600 hover:text-gray-800 shadow-lg hover:shadow-xl transition-all duration-300"
-          >
-            Lock Management Panel
-          </Button>
-          <Button 
-            variant="outline"
-            onClick={() => setShowResetDialog(true)}
-            className="shadow-lg hover:shadow-xl transition-all duration-300"
-          >
-            <Key className="h-4 w-4 mr-2" />
-            Change Password
-          </Button>
-        </div>
       </CardContent>
-
-      {/* Password Reset Dialog for authenticated users */}
-      <AlertDialog open={showResetDialog} onOpenChange={setShowResetDialog}>
-        <AlertDialogContent className="shadow-2xl">
-          <AlertDialogHeader>
-            <AlertDialogTitle>Change Admin Password</AlertDialogTitle>
-            <AlertDialogDescription>
-              Create a new admin password. Make sure it's at least 8 characters long.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <div className="space-y-4 my-4">
-            <div>
-              <Label htmlFor="new-password-auth">New Password</Label>
-              <div className="relative">
-                <Input
-                  id="new-password-auth"
-                  type={showNewPassword ? "text" : "password"}
-                  value={newPassword}
-                  onChange={(e) => setNewPassword(e.target.value)}
-                  placeholder="Enter new password"
-                  className="pr-10"
-                />
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="sm"
-                  className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                  onClick={() => setShowNewPassword(!showNewPassword)}
-                >
-                  {showNewPassword ? (
-                    <EyeOff className="h-4 w-4" />
-                  ) : (
-                    <Eye className="h-4 w-4" />
-                  )}
-                </Button>
-              </div>
-            </div>
-            <div>
-              <Label htmlFor="confirm-password-auth">Confirm Password</Label>
-              <div className="relative">
-                <Input
-                  id="confirm-password-auth"
-                  type={showConfirmPassword ? "text" : "password"}
-                  value={confirmPassword}
-                  onChange={(e) => setConfirmPassword(e.target.value)}
-                  placeholder="Confirm new password"
-                  className="pr-10"
-                />
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="sm"
-                  className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                  onClick={() => setShowConfirmPassword(!showConfirmPassword)}
-                >
-                  {showConfirmPassword ? (
-                    <EyeOff className="h-4 w-4" />
-                  ) : (
-                    <Eye className="h-4 w-4" />
-                  )}
-                </Button>
-              </div>
-            </div>
-            {newPassword && confirmPassword && newPassword !== confirmPassword && (
-              <p className="text-sm text-red-600">Passwords do not match</p>
-            )}
-            {newPassword && newPassword.length < 8 && (
-              <p className="text-sm text-red-600">Password must be at least 8 characters long</p>
-            )}
-          </div>
-          <AlertDialogFooter>
-            <AlertDialogCancel onClick={() => {
-              setNewPassword('');
-              setConfirmPassword('');
-              setShowNewPassword(false);
-              setShowConfirmPassword(false);
-            }}>
-              Cancel
-            </AlertDialogCancel>
-            <AlertDialogAction 
-              onClick={handlePasswordReset}
-              disabled={!newPassword || !confirmPassword || newPassword !== confirmPassword || newPassword.length < 8}
-            >
-              Update Password
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
     </Card>
   );
 };
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { useOrganization } from '@/hooks/useOrganization';
+
+const StripeModeSwitch = () => {
+  const { currentOrganization, mode, switchMode } = useOrganization();
+
+  if (!currentOrganization) {
+    return null;
+  }
+
+  const live = mode === 'live';
+
+  return (
+    <div
+      className={`flex items-center space-x-2 rounded-md px-3 py-2 ${live ? 'bg-orange-500/80' : 'bg-purple-600/40'}`}
+      title={live ? 'Changes go to your live Stripe account' : 'Changes go to your Stripe test account'}
+    >
+      <Label htmlFor="stripe-mode" className="text-sm font-medium text-white cursor-pointer">
+        {live ? 'Live' : 'Test'}
+      </Label>
+      <Switch
+        id="stripe-mode"
+        checked={live}
+        onCheckedChange={(checked) => switchMode(checked ? 'live' : 'test')}
+      />
+    </div>
+  );
+};
+
+export default StripeModeSwitch;
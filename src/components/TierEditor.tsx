@@ -0,0 +1,128 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import type { BillingTier } from '@/services/stripeService';
+
+interface TierEditorProps {
+  tiers: BillingTier[];
+  mode: 'graduated' | 'volume';
+  unitLabel?: string;
+  onChange: (tiers: BillingTier[]) => void;
+  onModeChange: (mode: 'graduated' | 'volume') => void;
+}
+
+// Tier amounts are stored in cents like the rest of BillingItem; the inputs work in dollars
+const toDollars = (cents?: number) => ((cents ?? 0) / 100).toString();
+const toCents = (dollars: string) => Math.round((parseFloat(dollars) || 0) * 10000) / 100;
+
+const TierEditor = ({ tiers, mode, unitLabel = 'units', onChange, onModeChange }: TierEditorProps) => {
+  const updateTier = (index: number, field: keyof BillingTier, value: BillingTier[keyof BillingTier]) => {
+    onChange(tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)));
+  };
+
+  const addTier = () => {
+    const bounded = tiers.slice(0, -1);
+    const lastBound = bounded.length > 0 ? (bounded[bounded.length - 1].up_to as number) : 0;
+    const last = tiers[tiers.length - 1];
+
+    // The new tier is inserted before the open-ended one so the last tier always stays unbounded
+    onChange([
+      ...bounded,
+      { up_to: lastBound * 2 || 10, unit_amount: last?.unit_amount ?? 0, flat_amount: 0 },
+      { ...(last || { unit_amount: 0, flat_amount: 0 }), up_to: 'inf' }
+    ]);
+  };
+
+  const removeTier = (index: number) => {
+    if (tiers.length <= 1) return;
+
+    const remaining = tiers.filter((_, i) => i !== index);
+    remaining[remaining.length - 1] = { ...remaining[remaining.length - 1], up_to: 'inf' };
+    onChange(remaining);
+  };
+
+  return (
+    <div className="space-y-3 p-3 border rounded-lg bg-gray-50">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Label>Tier Mode</Label>
+          <Select value={mode} onValueChange={(value) => onModeChange(value as 'graduated' | 'volume')}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="graduated">Graduated</SelectItem>
+              <SelectItem value="volume">Volume</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" size="sm" onClick={addTier}>
+          <Plus className="h-3 w-3 mr-1" />
+          Add Tier
+        </Button>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {mode === 'graduated'
+          ? 'Graduated: each tier prices only the units that fall within it.'
+          : 'Volume: the tier reached by the total quantity prices every unit.'}
+      </p>
+
+      <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-600">
+        <div className="col-span-4">Up to ({unitLabel})</div>
+        <div className="col-span-3">Per unit ($)</div>
+        <div className="col-span-3">Flat fee ($)</div>
+      </div>
+
+      {tiers.map((tier, index) => {
+        const isLast = index === tiers.length - 1;
+        return (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center">
+            <div className="col-span-4">
+              {isLast ? (
+                <Input value="∞" disabled />
+              ) : (
+                <Input
+                  type="number"
+                  min="1"
+                  value={tier.up_to as number}
+                  onChange={(e) => updateTier(index, 'up_to', parseInt(e.target.value) || 0)}
+                />
+              )}
+            </div>
+            <div className="col-span-3">
+              <Input
+                type="number"
+                step="0.0001"
+                min="0"
+                value={toDollars(tier.unit_amount)}
+                onChange={(e) => updateTier(index, 'unit_amount', toCents(e.target.value))}
+              />
+            </div>
+            <div className="col-span-3">
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={toDollars(tier.flat_amount)}
+                onChange={(e) => updateTier(index, 'flat_amount', Math.round(toCents(e.target.value)))}
+              />
+            </div>
+            <div className="col-span-2">
+              {tiers.length > 1 && (
+                <Button variant="outline" size="sm" onClick={() => removeTier(index)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TierEditor;
@@ -2,8 +2,10 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { Card } from '@/components/ui/card';
-import { Upload, DollarSign, FileSpreadsheet, Settings, CreditCard } from 'lucide-react';
+import { Upload, DollarSign, FileSpreadsheet, Settings, CreditCard, ScrollText } from 'lucide-react';
 import UserMenu from './UserMenu';
+import OrganizationSwitcher from './OrganizationSwitcher';
+import StripeModeSwitch from './StripeModeSwitch';
 
 const TopNavigation = () => {
   const location = useLocation();
@@ -14,6 +16,7 @@ const TopNavigation = () => {
     { href: '/products', icon: FileSpreadsheet, label: 'Products', description: 'Manage products' },
     { href: '/stripe-pricing', icon: CreditCard, label: 'Stripe', description: 'Create pricing models' },
     { href: '/pricing', icon: CreditCard, label: 'Plans', description: 'View pricing plans' },
+    { href: '/audit-log', icon: ScrollText, label: 'Audit', description: 'Stripe change history' },
     { href: '/settings', icon: Settings, label: 'Settings', description: 'API keys and preferences' },
   ];
 
@@ -51,8 +54,10 @@ const TopNavigation = () => {
             ))}
           </div>
 
-          {/* User Menu */}
+          {/* Organization, Stripe Mode and User Menu */}
           <div className="flex items-center space-x-4">
+            <OrganizationSwitcher />
+            <StripeModeSwitch />
             <UserMenu />
           </div>
         </div>
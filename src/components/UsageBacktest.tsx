@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History, Play } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { dataExtractionService } from '@/services/dataExtractionService';
+import { billingModelService } from '@/services/billingModelService';
+import { usageBacktestService, type BacktestResult, type UsageRecord } from '@/services/usageBacktestService';
+import type { BillingModel } from '@/services/stripeService';
+import { errorMessage } from '@/lib/utils';
+
+const formatAmount = (cents: number, currency: string) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(cents / 100);
+
+const formatDelta = (cents: number, percent: number | null, currency: string) =>
+  `${cents >= 0 ? '+' : ''}${formatAmount(cents, currency)}${percent !== null ? ` (${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%)` : ''}`;
+
+const UsageBacktest = () => {
+  const [models, setModels] = useState<BillingModel[]>([]);
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [hasBilledAmounts, setHasBilledAmounts] = useState(false);
+  const [modelId, setModelId] = useState('');
+  const [baselineId, setBaselineId] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    billingModelService.getBillingModels().then(({ models: savedModels, error }) => {
+      if (error) {
+        toast({
+          title: "Error",
+          description: error,
+          variant: "destructive",
+        });
+      } else {
+        setModels(savedModels || []);
+      }
+    });
+  }, [toast]);
+
+  const handleFile = async (file: File) => {
+    setIsImporting(true);
+    setResult(null);
+    try {
+      const extraction = await dataExtractionService.extractFromFile(file);
+      const parsed = usageBacktestService.parseUsageRows(extraction.data);
+
+      if (parsed.records.length === 0) {
+        throw new Error('No usable rows found. Expected customer, meter, timestamp and value columns.');
+      }
+
+      setRecords(parsed.records);
+      setHasBilledAmounts(parsed.hasBilledAmounts);
+      setFileName(file.name);
+
+      toast({
+        title: "Usage Imported",
+        description: `${parsed.records.length} usage records loaded${parsed.skipped > 0 ? `, ${parsed.skipped} rows skipped` : ''}.`,
+      });
+    } catch (error) {
+      console.error('Error importing usage history:', error);
+      toast({
+        title: "Import Failed",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const runBacktest = () => {
+    const model = models.find(m => m.id === modelId);
+    const baseline = models.find(m => m.id === baselineId);
+    if (!model) return;
+
+    try {
+      setResult(usageBacktestService.backtest(model, records, hasBilledAmounts ? undefined : baseline));
+    } catch (error) {
+      toast({
+        title: "Back-test Failed",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deltaClass = (delta: number) => (delta > 0 ? 'text-green-700' : delta < 0 ? 'text-red-600' : 'text-gray-600');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Back-test with Usage History</span>
+        </CardTitle>
+        <CardDescription>
+          Upload a usage export with customer, meter, timestamp and value columns (plus an optional billed_amount) and
+          re-price that history under a saved model. A "seats" meter is read as the monthly seat count.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="usage-file">Usage Export</Label>
+            <Input
+              id="usage-file"
+              type="file"
+              accept=".csv,.xlsx,.xls,.json"
+              disabled={isImporting}
+              onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+            />
+            {fileName && (
+              <p className="text-xs text-gray-500 mt-1">
+                {fileName}: {records.length} records{hasBilledAmounts ? ', with billed amounts' : ''}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <Label>Model to Test</Label>
+            <Select value={modelId} onValueChange={setModelId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a saved model" />
+              </SelectTrigger>
+              <SelectContent>
+                {models.map(model => (
+                  <SelectItem key={model.id} value={model.id}>{model.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!hasBilledAmounts && (
+            <div>
+              <Label>Actually Billed Under</Label>
+              <Select value={baselineId} onValueChange={setBaselineId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose the current model" />
+                </SelectTrigger>
+                <SelectContent>
+                  {models.map(model => (
+                    <SelectItem key={model.id} value={model.id}>{model.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <Button
+          onClick={runBacktest}
+          disabled={records.length === 0 || !modelId || (!hasBilledAmounts && !baselineId)}
+        >
+          <Play className="h-4 w-4 mr-2" />
+          Run Back-test
+        </Button>
+
+        {result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-gray-500">
+                  Actually billed {result.actualSource === 'csv' ? '(from export)' : '(baseline model)'}
+                </p>
+                <p className="text-xl font-semibold">{formatAmount(result.totals.actual, result.currency)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-gray-500">Under {models.find(m => m.id === modelId)?.name}</p>
+                <p className="text-xl font-semibold">{formatAmount(result.totals.projected, result.currency)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-gray-500">Revenue delta</p>
+                <p className={`text-xl font-semibold ${deltaClass(result.totals.delta)}`}>
+                  {formatDelta(result.totals.delta, result.totals.deltaPercent, result.currency)}
+                </p>
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              {result.customers.length} customers over {result.months.length} months ({result.months[0]} to {result.months[result.months.length - 1]})
+            </p>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Months</TableHead>
+                  <TableHead className="text-right">Actual</TableHead>
+                  <TableHead className="text-right">Projected</TableHead>
+                  <TableHead className="text-right">Delta</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.customers.map(customer => (
+                  <TableRow key={customer.customer}>
+                    <TableCell className="font-mono text-xs">{customer.customer}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{customer.months.length}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(customer.actual, result.currency)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(customer.projected, result.currency)}</TableCell>
+                    <TableCell className={`text-right font-medium ${deltaClass(customer.delta)}`}>
+                      {formatDelta(customer.delta, customer.deltaPercent, result.currency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UsageBacktest;
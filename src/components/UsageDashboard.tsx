@@ -1,119 +1,271 @@
 
-import React from 'react';
+import React, { useState, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { Activity, TrendingUp, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Activity, TrendingUp, TrendingDown, AlertTriangle, CalendarDays } from 'lucide-react';
+import type { DateRange } from 'react-day-picker';
 import { useUsageTracking } from '@/hooks/useUsageTracking';
+import UsageSyncPanel from '@/components/UsageSyncPanel';
+import UsageForecastPanel from '@/components/UsageForecastPanel';
+import UsageTimeSeriesChart, { type ChartInterval, type ChartView } from '@/components/UsageTimeSeriesChart';
 
 interface UsageDashboardProps {
   period?: string;
   limits?: Record<string, number>;
 }
 
-const UsageDashboard: React.FC<UsageDashboardProps> = ({ 
+type RangePreset = 'current_month' | 'last_month' | 'current_week' | 'last_30_days' | 'last_90_days' | 'custom';
+
+const RANGE_PRESETS: { value: RangePreset; label: string }[] = [
+  { value: 'current_month', label: 'This Month' },
+  { value: 'last_month', label: 'Last Month' },
+  { value: 'current_week', label: 'This Week' },
+  { value: 'last_30_days', label: 'Last 30 Days' },
+  { value: 'last_90_days', label: 'Last 90 Days' },
+  { value: 'custom', label: 'Custom Range' },
+];
+
+// Ranges are half-open: start of the first day to the start of the day after the last
+const presetRange = (preset: RangePreset): { start: Date; end: Date } => {
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const daysAgo = (days: number) => new Date(today.getFullYear(), today.getMonth(), today.getDate() - days);
+  const tomorrow = daysAgo(-1);
+
+  switch (preset) {
+    case 'last_month':
+      return {
+        start: new Date(now.getFullYear(), now.getMonth() - 1, 1),
+        end: new Date(now.getFullYear(), now.getMonth(), 1)
+      };
+    case 'current_week':
+      return { start: daysAgo(today.getDay()), end: daysAgo(today.getDay() - 7) };
+    case 'last_30_days':
+      return { start: daysAgo(29), end: tomorrow };
+    case 'last_90_days':
+      return { start: daysAgo(89), end: tomorrow };
+    case 'current_month':
+    default:
+      return {
+        start: new Date(now.getFullYear(), now.getMonth(), 1),
+        end: new Date(now.getFullYear(), now.getMonth() + 1, 1)
+      };
+  }
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const percentChange = (current: number, previous: number) =>
+  previous > 0 ? ((current - previous) / previous) * 100 : null;
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({
   period = 'current_month',
-  limits = {} 
+  limits = {}
 }) => {
-  const { usage, isLoading, error } = useUsageTracking(period);
-
-  if (isLoading) {
-    return (
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center space-x-2">
-            <Activity className="h-5 w-5" />
-            <span>Usage Overview</span>
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            {[1, 2, 3].map((i) => (
-              <div key={i} className="animate-pulse">
-                <div className="h-4 bg-slate-300 rounded mb-2"></div>
-                <div className="h-2 bg-slate-200 rounded"></div>
-              </div>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
-    );
-  }
+  const initialPreset = RANGE_PRESETS.some(preset => preset.value === period) ? period as RangePreset : 'current_month';
+  const [preset, setPreset] = useState<RangePreset>(initialPreset);
+  const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const [chartInterval, setChartInterval] = useState<ChartInterval>('day');
+  const [view, setView] = useState<ChartView>('cumulative');
+  const [compare, setCompare] = useState(true);
+
+  const range = useMemo(() => {
+    if (preset === 'custom' && customRange?.from) {
+      const to = customRange.to || customRange.from;
+      return {
+        start: customRange.from,
+        end: new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1)
+      };
+    }
+    return presetRange(preset);
+  }, [preset, customRange]);
+
+  // The comparison period is the same length immediately before the selected one
+  const previousRange = useMemo(() => {
+    const length = range.end.getTime() - range.start.getTime();
+    return { start: new Date(range.start.getTime() - length), end: range.start };
+  }, [range]);
+
+  const { usage, series, isLoading, error } = useUsageTracking(period, {
+    start: range.start.toISOString(),
+    end: range.end.toISOString(),
+    granularity: 'day'
+  });
+  const { usage: previousUsage, series: previousSeries } = useUsageTracking(period, {
+    start: previousRange.start.toISOString(),
+    end: previousRange.end.toISOString(),
+    granularity: 'day'
+  });
+
+  const rangeLabel = preset === 'custom'
+    ? customRange?.from
+      ? `${formatDate(range.start)} – ${formatDate(new Date(range.end.getTime() - 1))}`
+      : 'Pick dates'
+    : RANGE_PRESETS.find(option => option.value === preset)?.label;
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="animate-pulse">
+              <div className="h-4 bg-slate-300 rounded mb-2"></div>
+              <div className="h-2 bg-slate-200 rounded"></div>
+            </div>
+          ))}
+        </div>
+      );
+    }
 
-  if (error) {
-    return (
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center space-x-2">
-            <AlertTriangle className="h-5 w-5 text-red-500" />
-            <span>Usage Overview</span>
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
+    if (error) {
+      return (
+        <div className="flex items-center space-x-2">
+          <AlertTriangle className="h-5 w-5 text-red-500" />
           <p className="text-red-600 text-sm">{error}</p>
-        </CardContent>
-      </Card>
-    );
-  }
+        </div>
+      );
+    }
+
+    if (usage.length === 0) {
+      return <p className="text-slate-500 text-center py-4">No usage data available</p>;
+    }
+
+    return usage.map((item) => {
+      const limit = limits[item.meter_name];
+      const percentage = limit ? Math.min((item.total_usage / limit) * 100, 100) : 0;
+      const isNearLimit = percentage > 80;
+      const isOverLimit = percentage >= 100;
+      const previousTotal = previousUsage.find(previous => previous.meter_name === item.meter_name)?.total_usage || 0;
+      const change = percentChange(item.total_usage, previousTotal);
+
+      return (
+        <div key={item.meter_name} className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div>
+              <h4 className="font-medium text-slate-900">{item.display_name}</h4>
+              <p className="text-sm text-slate-500">
+                {item.total_usage.toLocaleString()} {item.unit_label}
+                {limit && (
+                  <span className="ml-1">/ {limit.toLocaleString()} {item.unit_label}</span>
+                )}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              {compare && change !== null && (
+                <span className={`flex items-center text-xs ${change > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+                  {change > 0 ? <TrendingUp className="h-3 w-3 mr-1" /> : <TrendingDown className="h-3 w-3 mr-1" />}
+                  {change > 0 ? '+' : ''}{change.toFixed(0)}% vs previous
+                </span>
+              )}
+              {isOverLimit && <AlertTriangle className="h-4 w-4 text-red-500" />}
+              {isNearLimit && !isOverLimit && <TrendingUp className="h-4 w-4 text-orange-500" />}
+              <Badge variant={isOverLimit ? "destructive" : isNearLimit ? "secondary" : "outline"}>
+                {item.event_count} events
+              </Badge>
+            </div>
+          </div>
+          {limit && (
+            <Progress
+              value={percentage}
+              className={`h-2 ${
+                isOverLimit ? 'bg-red-100' :
+                isNearLimit ? 'bg-orange-100' :
+                'bg-green-100'
+              }`}
+            />
+          )}
+          <UsageTimeSeriesChart
+            current={series.filter(bucket => bucket.meter_name === item.meter_name)}
+            previous={compare ? previousSeries.filter(bucket => bucket.meter_name === item.meter_name) : undefined}
+            rangeStart={range.start}
+            rangeEnd={range.end}
+            interval={chartInterval}
+            view={view}
+            limit={limit}
+          />
+        </div>
+      );
+    });
+  };
 
   return (
     <Card>
-      <CardHeader>
+      <CardHeader className="space-y-4">
         <CardTitle className="flex items-center space-x-2">
           <Activity className="h-5 w-5" />
           <span>Usage Overview</span>
           <Badge variant="outline" className="ml-auto">
-            {period === 'current_month' ? 'This Month' : 
-             period === 'current_week' ? 'This Week' : 
-             'Last Month'}
+            {rangeLabel}
           </Badge>
         </CardTitle>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={preset} onValueChange={(value) => setPreset(value as RangePreset)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_PRESETS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {preset === 'custom' && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <CalendarDays className="h-4 w-4 mr-2" />
+                  {rangeLabel}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="range"
+                  selected={customRange}
+                  onSelect={setCustomRange}
+                  numberOfMonths={2}
+                  disabled={{ after: new Date() }}
+                />
+              </PopoverContent>
+            </Popover>
+          )}
+          <Select value={chartInterval} onValueChange={(value) => setChartInterval(value as ChartInterval)}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Daily</SelectItem>
+              <SelectItem value="week">Weekly</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={view} onValueChange={(value) => setView(value as ChartView)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="cumulative">Cumulative</SelectItem>
+              <SelectItem value="per_bucket">Per {chartInterval === 'day' ? 'Day' : 'Week'}</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex items-center space-x-2 ml-auto">
+            <Switch id="usage-compare" checked={compare} onCheckedChange={setCompare} />
+            <Label htmlFor="usage-compare" className="text-sm">Compare to previous period</Label>
+          </div>
+        </div>
       </CardHeader>
       <CardContent>
         <div className="space-y-6">
-          {usage.length === 0 ? (
-            <p className="text-slate-500 text-center py-4">No usage data available</p>
-          ) : (
-            usage.map((item) => {
-              const limit = limits[item.meter_name];
-              const percentage = limit ? Math.min((item.total_usage / limit) * 100, 100) : 0;
-              const isNearLimit = percentage > 80;
-              const isOverLimit = percentage >= 100;
-
-              return (
-                <div key={item.meter_name} className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <h4 className="font-medium text-slate-900">{item.display_name}</h4>
-                      <p className="text-sm text-slate-500">
-                        {item.total_usage.toLocaleString()} {item.unit_label}
-                        {limit && (
-                          <span className="ml-1">/ {limit.toLocaleString()} {item.unit_label}</span>
-                        )}
-                      </p>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      {isOverLimit && <AlertTriangle className="h-4 w-4 text-red-500" />}
-                      {isNearLimit && !isOverLimit && <TrendingUp className="h-4 w-4 text-orange-500" />}
-                      <Badge variant={isOverLimit ? "destructive" : isNearLimit ? "secondary" : "outline"}>
-                        {item.event_count} events
-                      </Badge>
-                    </div>
-                  </div>
-                  {limit && (
-                    <Progress 
-                      value={percentage} 
-                      className={`h-2 ${
-                        isOverLimit ? 'bg-red-100' : 
-                        isNearLimit ? 'bg-orange-100' : 
-                        'bg-green-100'
-                      }`}
-                    />
-                  )}
-                </div>
-              );
-            })
-          )}
+          <UsageForecastPanel />
+
+          {renderContent()}
+
+          <UsageSyncPanel />
         </div>
       </CardContent>
     </Card>
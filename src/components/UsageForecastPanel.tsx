@@ -0,0 +1,85 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { LineChart, AlertTriangle } from 'lucide-react';
+import { usageForecastService, type UsageForecast } from '@/services/usageForecastService';
+
+const formatAmount = (cents: number, currency: string) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(cents / 100);
+
+const formatDay = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const UsageForecastPanel = () => {
+  const [forecast, setForecast] = useState<UsageForecast | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    usageForecastService.getForecast().then(({ forecast: result, error: forecastError }) => {
+      setForecast(result || null);
+      setError(forecastError || null);
+    });
+  }, []);
+
+  if (error) {
+    return <p className="text-sm text-slate-500">Forecast unavailable: {error}</p>;
+  }
+
+  if (!forecast || forecast.meters.length === 0) {
+    return null;
+  }
+
+  const overageCost = forecast.projected_bill - forecast.base_amount;
+  // period_end is exclusive, so the last day of the period is the day before it
+  const lastDay = new Date(new Date(forecast.period_end).getTime() - 1).toISOString();
+
+  return (
+    <div className="rounded-md border bg-slate-50 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-slate-900 flex items-center space-x-2">
+          <LineChart className="h-4 w-4" />
+          <span>Forecast to {formatDay(lastDay)}</span>
+        </h4>
+        <div className="text-right">
+          <p className="text-lg font-semibold text-slate-900">{formatAmount(forecast.projected_bill, forecast.currency)}</p>
+          <p className="text-xs text-slate-500">
+            {overageCost > 0
+              ? `${formatAmount(forecast.base_amount, forecast.currency)} plan + ${formatAmount(overageCost, forecast.currency)} projected overage`
+              : 'Projected bill'}
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {forecast.meters.map(meter => {
+          const willExceed = meter.limit !== null && meter.projected > meter.limit;
+
+          return (
+            <div key={meter.meter_name} className="flex items-center justify-between text-sm">
+              <span className="text-slate-700">{meter.display_name}</span>
+              <div className="flex items-center space-x-2">
+                <span className="text-slate-500">
+                  {meter.used.toLocaleString()} → ~{Math.round(meter.projected).toLocaleString()} {meter.unit_label}
+                  {meter.limit !== null && ` of ${meter.limit.toLocaleString()}`}
+                </span>
+                {willExceed && (
+                  <Badge variant="destructive" className="flex items-center">
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    {meter.projected_exceed_at ? `Over limit ~${formatDay(meter.projected_exceed_at)}` : 'Over limit'}
+                  </Badge>
+                )}
+                {meter.confidence === 'low' && (
+                  <Badge variant="outline">Limited history</Badge>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default UsageForecastPanel;
@@ -0,0 +1,87 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { RefreshCw, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { usageSyncService, type UsageSyncCounts } from '@/services/usageSyncService';
+
+const UsageSyncPanel = () => {
+  const [counts, setCounts] = useState<UsageSyncCounts | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const { toast } = useToast();
+
+  const loadCounts = useCallback(async () => {
+    const { counts: syncCounts, error } = await usageSyncService.getSyncCounts();
+    if (error) {
+      toast({
+        title: "Error",
+        description: error,
+        variant: "destructive",
+      });
+    } else {
+      setCounts(syncCounts || null);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadCounts();
+  }, [loadCounts]);
+
+  const handleReplay = async () => {
+    setIsReplaying(true);
+    const { run, error } = await usageSyncService.replayFailed();
+    setIsReplaying(false);
+
+    if (error) {
+      toast({
+        title: "Replay Failed",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Replay Complete",
+      description: `${run?.replayed ?? 0} events requeued, ${run?.synced ?? 0} sent to Stripe${run?.failed ? `, ${run.failed} will retry` : ''}.`,
+    });
+    loadCounts();
+  };
+
+  const stuck = (counts?.failed || 0) + (counts?.dead_letter || 0);
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-slate-900">Stripe Sync</h4>
+        <Button variant="ghost" size="sm" onClick={loadCounts}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {counts && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline">{counts.pending.toLocaleString()} pending</Badge>
+          <Badge variant={counts.failed > 0 ? "secondary" : "outline"}>{counts.failed.toLocaleString()} retrying</Badge>
+          <Badge variant={counts.dead_letter > 0 ? "destructive" : "outline"}>
+            {counts.dead_letter.toLocaleString()} failed permanently
+          </Badge>
+        </div>
+      )}
+
+      {stuck > 0 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-slate-500">
+            Events that could not be delivered are retried with backoff; replay sends them again now.
+          </p>
+          <Button variant="outline" size="sm" onClick={handleReplay} disabled={isReplaying}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            {isReplaying ? 'Replaying...' : `Replay ${stuck.toLocaleString()}`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsageSyncPanel;
@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from '@/components/ui/chart';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import type { UsageBucket } from '@/hooks/useUsageTracking';
+
+export type ChartInterval = 'day' | 'week';
+export type ChartView = 'per_bucket' | 'cumulative';
+
+interface UsageTimeSeriesChartProps {
+  current: UsageBucket[];
+  previous?: UsageBucket[];
+  rangeStart: Date;
+  rangeEnd: Date;
+  interval: ChartInterval;
+  view: ChartView;
+  limit?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const chartConfig: ChartConfig = {
+  current: { label: 'This period', color: 'hsl(var(--chart-1))' },
+  previous: { label: 'Previous period', color: 'hsl(var(--chart-2))' },
+};
+
+// Rollup buckets are UTC days; weeks start on Monday
+const utcDay = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+const bucketFor = (time: number, interval: ChartInterval) =>
+  interval === 'day' ? time : time - ((new Date(time).getUTCDay() + 6) % 7) * DAY_MS;
+
+// Spreads daily rows over every bucket in the range so quiet days plot as zero instead of being skipped
+const toBuckets = (rows: UsageBucket[], start: Date, end: Date, interval: ChartInterval) => {
+  const step = interval === 'day' ? DAY_MS : 7 * DAY_MS;
+  const totals = new Map<number, number>();
+  for (let time = bucketFor(utcDay(start), interval); time < end.getTime(); time += step) {
+    totals.set(time, 0);
+  }
+
+  rows.forEach(row => {
+    const bucket = bucketFor(utcDay(new Date(row.bucket_start)), interval);
+    if (totals.has(bucket)) {
+      totals.set(bucket, totals.get(bucket)! + row.total_usage);
+    }
+  });
+
+  return [...totals.entries()].map(([time, value]) => ({ time, value }));
+};
+
+const runningTotal = (values: number[]) => {
+  let total = 0;
+  return values.map(value => (total += value));
+};
+
+const formatBucket = (time: number, interval: ChartInterval) => {
+  const label = new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  return interval === 'week' ? `Wk ${label}` : label;
+};
+
+const UsageTimeSeriesChart: React.FC<UsageTimeSeriesChartProps> = ({
+  current,
+  previous,
+  rangeStart,
+  rangeEnd,
+  interval,
+  view,
+  limit
+}) => {
+  const chartData = useMemo(() => {
+    const currentBuckets = toBuckets(current, rangeStart, rangeEnd, interval);
+    const currentValues = currentBuckets.map(bucket => bucket.value);
+
+    // The previous period is aligned by position, so day 3 of this range sits over day 3 of the last one
+    const length = rangeEnd.getTime() - rangeStart.getTime();
+    const previousValues = previous
+      ? toBuckets(previous, new Date(rangeStart.getTime() - length), rangeStart, interval).map(bucket => bucket.value)
+      : [];
+
+    const currentSeries = view === 'cumulative' ? runningTotal(currentValues) : currentValues;
+    const previousSeries = view === 'cumulative' ? runningTotal(previousValues) : previousValues;
+
+    // Buckets that have not started yet stay empty rather than plotting as zero
+    const now = Date.now();
+    return currentBuckets.map((bucket, index) => ({
+      label: formatBucket(bucket.time, interval),
+      current: bucket.time > now ? null : currentSeries[index],
+      ...(previous ? { previous: previousSeries[index] ?? null } : {})
+    }));
+  }, [current, previous, rangeStart, rangeEnd, interval, view]);
+
+  // The limit covers the whole billing period, so it is only comparable to the running total
+  const showLimit = view === 'cumulative' && limit !== undefined;
+
+  return (
+    <ChartContainer config={chartConfig} className="h-48 w-full">
+      <LineChart data={chartData}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          width={48}
+          domain={showLimit ? [0, (dataMax: number) => Math.max(dataMax, limit) * 1.05] : [0, 'auto']}
+        />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        {previous && <ChartLegend content={<ChartLegendContent />} />}
+        {showLimit && (
+          <ReferenceLine
+            y={limit}
+            stroke="hsl(var(--destructive))"
+            strokeDasharray="4 4"
+            label={{ value: `Limit ${limit.toLocaleString()}`, position: 'insideTopRight', fontSize: 11 }}
+          />
+        )}
+        <Line dataKey="current" type="monotone" stroke="var(--color-current)" strokeWidth={2} dot={false} />
+        {previous && (
+          <Line
+            dataKey="previous"
+            type="monotone"
+            stroke="var(--color-previous)"
+            strokeWidth={2}
+            strokeDasharray="5 5"
+            dot={false}
+          />
+        )}
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+export default UsageTimeSeriesChart;
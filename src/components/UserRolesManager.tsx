@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Users, UserPlus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { ROLE_LABELS, ROLE_ORDER, type AppRole } from '@/hooks/useUserRole';
+import { userRoleService, type UserRoleEntry } from '@/services/userRoleService';
+
+const ROLE_DESCRIPTIONS: Record<AppRole, string> = {
+  owner: 'Everything, including managing roles',
+  admin: 'Initialize, reseed and clean up Stripe data',
+  billing_editor: 'Create and edit products, prices, meters and credits',
+  viewer: 'Read-only access',
+};
+
+const UserRolesManager = () => {
+  const [users, setUsers] = useState<UserRoleEntry[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<AppRole>('billing_editor');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadUsers = useCallback(async () => {
+    const { data, error } = await userRoleService.listUserRoles();
+    if (error) {
+      toast({
+        title: "Error",
+        description: error,
+        variant: "destructive",
+      });
+    } else {
+      setUsers(data || []);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const updateRole = async (targetEmail: string, targetRole: AppRole) => {
+    setIsSaving(true);
+    const { error } = await userRoleService.setUserRole(targetEmail, targetRole);
+    setIsSaving(false);
+
+    if (error) {
+      toast({
+        title: "Role Update Failed",
+        description: error,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    toast({
+      title: "Role Updated",
+      description: `${targetEmail} is now ${ROLE_LABELS[targetRole]}.`,
+    });
+    loadUsers();
+    return true;
+  };
+
+  const handleAssign = async () => {
+    if (await updateRole(email.trim(), role)) {
+      setEmail('');
+    }
+  };
+
+  // Highest role first in the pickers
+  const roleOptions = [...ROLE_ORDER].reverse();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Users className="h-5 w-5" />
+          <span>Team Roles</span>
+        </CardTitle>
+        <CardDescription>
+          Control who can change products and pricing or run Stripe maintenance actions
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+          <div className="md:col-span-2">
+            <Label htmlFor="roleEmail">User Email</Label>
+            <Input
+              id="roleEmail"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="teammate@company.com"
+            />
+          </div>
+          <Select value={role} onValueChange={(value) => setRole(value as AppRole)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {roleOptions.map(option => (
+                <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-gray-500">{ROLE_DESCRIPTIONS[role]}</p>
+        <Button onClick={handleAssign} disabled={isSaving || !email.trim()}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Assign Role
+        </Button>
+
+        {users.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              {users.map(entry => (
+                <div key={entry.user_id} className="flex items-center justify-between">
+                  <span className="text-sm">{entry.email || entry.user_id}</span>
+                  <Select
+                    value={entry.role}
+                    onValueChange={(value) => entry.email && updateRole(entry.email, value as AppRole)}
+                    disabled={isSaving || !entry.email}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roleOptions.map(option => (
+                        <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UserRolesManager;
@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback, createContext, useContext, ReactNode, Fragment } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { ROLE_ORDER } from '@/hooks/useUserRole';
+import {
+  organizationService,
+  type Organization,
+  type OrganizationRole,
+  type StripeMode
+} from '@/services/organizationService';
+
+interface OrganizationContextType {
+  organizations: Organization[];
+  currentOrganization: Organization | null;
+  // The user's role in the current organization; the edge functions check it again before acting
+  role: OrganizationRole | null;
+  isOwner: boolean;
+  hasRole: (minimum: OrganizationRole) => boolean;
+  loading: boolean;
+  mode: StripeMode;
+  switchOrganization: (organizationId: string) => void;
+  switchMode: (mode: StripeMode) => void;
+  refreshOrganizations: () => Promise<void>;
+}
+
+const OrganizationContext = createContext<OrganizationContextType | undefined>(undefined);
+
+export const OrganizationProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [mode, setMode] = useState<StripeMode>(() => organizationService.getStripeMode());
+  const [loading, setLoading] = useState(true);
+
+  const refreshOrganizations = useCallback(async () => {
+    if (!user) {
+      setOrganizations([]);
+      setCurrentId(null);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await organizationService.listOrganizations();
+    if (error) {
+      console.error('Error loading organizations:', error);
+    }
+
+    const list = data || [];
+    const stored = await organizationService.getActiveOrganizationId();
+    // Fall back to the first organization when the stored one was left or deleted
+    const active = list.find(organization => organization.id === stored) ?? list[0] ?? null;
+
+    organizationService.setActiveOrganizationId(active?.id ?? null);
+    setOrganizations(list);
+    setCurrentId(active?.id ?? null);
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    setLoading(true);
+    refreshOrganizations();
+  }, [refreshOrganizations]);
+
+  const switchOrganization = (organizationId: string) => {
+    organizationService.setActiveOrganizationId(organizationId);
+    setCurrentId(organizationId);
+  };
+
+  const switchMode = (nextMode: StripeMode) => {
+    organizationService.setStripeMode(nextMode);
+    setMode(nextMode);
+  };
+
+  const currentOrganization = organizations.find(organization => organization.id === currentId) ?? null;
+  const role = currentOrganization?.role ?? null;
+
+  const hasRole = useCallback(
+    (minimum: OrganizationRole) => role !== null && ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(minimum),
+    [role]
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <OrganizationContext.Provider value={{
+      organizations,
+      currentOrganization,
+      role,
+      isOwner: role === 'owner',
+      hasRole,
+      loading,
+      mode,
+      switchOrganization,
+      switchMode,
+      refreshOrganizations,
+    }}>
+      {/* Remount the pages on switch so everything reloads for the newly selected organization or mode */}
+      <Fragment key={`${currentId ?? 'none'}:${mode}`}>
+        {children}
+      </Fragment>
+    </OrganizationContext.Provider>
+  );
+};
+
+export const useOrganization = () => {
+  const context = useContext(OrganizationContext);
+  if (context === undefined) {
+    throw new Error('useOrganization must be used within an OrganizationProvider');
+  }
+  return context;
+};
@@ -1,7 +1,8 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import type { Tables } from '@/integrations/supabase/types';
 
 interface SubscriptionStatus {
   subscribed: boolean;
@@ -11,8 +12,46 @@ interface SubscriptionStatus {
   customer_id?: string;
   current_period_end?: number;
   price_amount?: number;
+  cancel_at_period_end?: boolean;
 }
 
+type SubscriptionRow = Tables<'subscriptions'>;
+
+// The stripe-webhook function keeps the mirror current; past this age it is reconciled against Stripe
+const STALE_AFTER_MS = 6 * 60 * 60 * 1000;
+
+const isStale = (row: SubscriptionRow) => {
+  if (Date.now() - new Date(row.synced_at).getTime() > STALE_AFTER_MS) return true;
+  // An active subscription past its period end should have renewed or lapsed by now
+  return row.status === 'active' && !!row.current_period_end && new Date(row.current_period_end).getTime() < Date.now();
+};
+
+const toStatus = (rows: SubscriptionRow[]): SubscriptionStatus => {
+  const active = rows.find(row => row.status === 'active');
+  const latest = active || rows[0];
+
+  if (!latest) {
+    return {
+      subscribed: false,
+      subscription_tier: null,
+      subscription_status: 'no_active_subscription'
+    };
+  }
+
+  return {
+    subscribed: !!active,
+    subscription_tier: latest.tier_id || (active ? 'unknown' : null),
+    subscription_status: latest.status,
+    subscription_id: latest.stripe_subscription_id ?? undefined,
+    customer_id: latest.customer_id ?? undefined,
+    current_period_end: latest.current_period_end
+      ? Math.floor(new Date(latest.current_period_end).getTime() / 1000)
+      : undefined,
+    price_amount: latest.price_amount ?? undefined,
+    cancel_at_period_end: latest.cancel_at_period_end
+  };
+};
+
 export const useSubscription = () => {
   const { user } = useAuth();
   const [subscriptionStatus, setSubscriptionStatus] = useState<SubscriptionStatus>({
@@ -23,7 +62,38 @@ export const useSubscription = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const checkSubscription = async () => {
+  const loadSubscription = useCallback(async () => {
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('subscriptions')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    setSubscriptionStatus(toStatus(data || []));
+    return data || [];
+  }, [user]);
+
+  // Asks Stripe directly; check-subscription writes what it finds back into the mirror
+  const reconcile = useCallback(async () => {
+    const { data, error } = await supabase.functions.invoke('check-subscription');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (data?.error) {
+      throw new Error(data.error);
+    }
+
+    await loadSubscription();
+  }, [loadSubscription]);
+
+  const checkSubscription = useCallback(async (forceReconcile = false) => {
     if (!user) {
       setSubscriptionStatus({
         subscribed: false,
@@ -38,83 +108,56 @@ export const useSubscription = () => {
       setIsLoading(true);
       setError(null);
 
-      console.log('Checking subscription status for user:', user.email);
-
-      const { data, error } = await supabase.functions.invoke('check-subscription');
-
-      if (error) {
-        console.error('Subscription check error:', error);
-        throw new Error(error.message);
+      // Only the row being displayed matters; old cancelled subscriptions are never re-synced by the webhook.
+      // Users without a subscription have a placeholder row, so they only reach Stripe once it goes stale too.
+      const rows = await loadSubscription();
+      const current = rows.find(row => row.status === 'active') || rows[0];
+      if (forceReconcile || !current || isStale(current)) {
+        console.log('Subscription mirror missing or stale, reconciling with Stripe');
+        await reconcile();
       }
-
-      console.log('Raw subscription check result:', data);
-      
-      // Ensure we have a valid response structure
-      const validatedData = {
-        subscribed: Boolean(data?.subscribed),
-        subscription_tier: data?.subscription_tier || null,
-        subscription_status: data?.subscription_status || 'unknown',
-        subscription_id: data?.subscription_id || undefined,
-        customer_id: data?.customer_id || undefined,
-        current_period_end: data?.current_period_end || undefined,
-        price_amount: data?.price_amount || undefined
-      };
-
-      console.log('Validated subscription data:', validatedData);
-      setSubscriptionStatus(validatedData);
-
-      // Store in localStorage for persistence
-      localStorage.setItem('subscription_status', JSON.stringify(validatedData));
-
     } catch (err: any) {
       console.error('Error checking subscription:', err);
       setError(err.message);
-      setSubscriptionStatus({
-        subscribed: false,
-        subscription_tier: null,
-        subscription_status: 'error'
-      });
+      setSubscriptionStatus(current =>
+        current.subscription_status === 'loading'
+          ? { subscribed: false, subscription_tier: null, subscription_status: 'error' }
+          : current
+      );
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [user, loadSubscription, reconcile]);
 
   // Check subscription when user changes
   useEffect(() => {
-    if (user) {
-      // Try to load from localStorage first for immediate display
-      const cached = localStorage.getItem('subscription_status');
-      if (cached) {
-        try {
-          const cachedData = JSON.parse(cached);
-          setSubscriptionStatus(cachedData);
-          setIsLoading(false);
-        } catch (e) {
-          console.warn('Failed to parse cached subscription status');
-        }
-      }
-      
-      // Then fetch fresh data
-      checkSubscription();
-    }
-  }, [user]);
+    checkSubscription();
+  }, [checkSubscription]);
 
-  // Auto-refresh subscription status every 60 seconds when user is present
+  // Webhook-driven changes to the mirror arrive over realtime instead of polling
   useEffect(() => {
     if (!user) return;
 
-    const interval = setInterval(() => {
-      console.log('Auto-refreshing subscription status...');
-      checkSubscription();
-    }, 60000); // 60 seconds
+    const channel = supabase
+      .channel(`subscriptions-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'subscriptions', filter: `user_id=eq.${user.id}` },
+        () => {
+          loadSubscription().catch(err => console.error('Error refreshing subscription:', err));
+        }
+      )
+      .subscribe();
 
-    return () => clearInterval(interval);
-  }, [user]);
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, loadSubscription]);
 
   return {
     subscriptionStatus,
     isLoading,
     error,
-    refetch: checkSubscription
+    refetch: () => checkSubscription(true)
   };
 };
@@ -10,16 +10,51 @@ interface UsageSummary {
   event_count: number;
 }
 
+export type UsageGranularity = 'hour' | 'day' | 'month';
+
+// One meter's usage in one UTC bucket, returned when a granularity is requested
+export interface UsageBucket {
+  bucket_start: string;
+  meter_name: string;
+  total_usage: number;
+  event_count: number;
+}
+
+// An explicit range overrides the named period
+export interface UsageRangeOptions {
+  start?: string;
+  end?: string;
+  granularity?: UsageGranularity;
+}
+
+// Quota state returned by record-usage-event for the caller's tier and the current month
+export interface UsageQuota {
+  tier_id: string | null;
+  meter: string;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  enforcement: 'reject' | 'overage' | 'soft_warning';
+  status: 'unlimited' | 'within_limit' | 'approaching_limit' | 'overage' | 'over_limit_warning' | 'rejected';
+  warning?: string;
+}
+
 interface UseUsageTrackingReturn {
   usage: UsageSummary[];
+  series: UsageBucket[];
   isLoading: boolean;
   error: string | null;
-  recordUsage: (meterName: string, value?: number, metadata?: any) => Promise<void>;
+  recordUsage: (meterName: string, value?: number, metadata?: any) => Promise<UsageQuota | null>;
   refetch: () => void;
 }
 
-export const useUsageTracking = (period: string = 'current_month'): UseUsageTrackingReturn => {
+export const useUsageTracking = (
+  period: string = 'current_month',
+  options: UsageRangeOptions = {}
+): UseUsageTrackingReturn => {
+  const { start, end, granularity } = options;
   const [usage, setUsage] = useState<UsageSummary[]>([]);
+  const [series, setSeries] = useState<UsageBucket[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -29,7 +64,7 @@ export const useUsageTracking = (period: string = 'current_month'): UseUsageTrac
       setError(null);
 
       const { data, error } = await supabase.functions.invoke('get-usage-summary', {
-        body: { period }
+        body: { period, start, end, granularity }
       });
 
       if (error) {
@@ -38,6 +73,7 @@ export const useUsageTracking = (period: string = 'current_month'): UseUsageTrac
 
       if (data?.success) {
         setUsage(data.usage_summary || []);
+        setSeries(data.series || []);
       } else {
         throw new Error(data?.error || 'Failed to fetch usage summary');
       }
@@ -49,7 +85,7 @@ export const useUsageTracking = (period: string = 'current_month'): UseUsageTrac
     }
   };
 
-  const recordUsage = async (meterName: string, value: number = 1, metadata: any = {}) => {
+  const recordUsage = async (meterName: string, value: number = 1, metadata: any = {}): Promise<UsageQuota | null> => {
     try {
       const { data, error } = await supabase.functions.invoke('record-usage-event', {
         body: {
@@ -60,7 +96,9 @@ export const useUsageTracking = (period: string = 'current_month'): UseUsageTrac
       });
 
       if (error) {
-        throw new Error(error.message);
+        // A 429 means the tier's usage limit was reached; the reason is in the response body
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error || error.message);
       }
 
       if (!data?.success) {
@@ -69,6 +107,8 @@ export const useUsageTracking = (period: string = 'current_month'): UseUsageTrac
 
       // Refresh usage data after recording
       fetchUsage();
+
+      return data.quota || null;
     } catch (err: any) {
       console.error('Error recording usage:', err);
       throw err;
@@ -77,10 +117,11 @@ export const useUsageTracking = (period: string = 'current_month'): UseUsageTrac
 
   useEffect(() => {
     fetchUsage();
-  }, [period]);
+  }, [period, start, end, granularity]);
 
   return {
     usage,
+    series,
     isLoading,
     error,
     recordUsage,
@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export type AppRole = 'owner' | 'admin' | 'billing_editor' | 'viewer';
+
+// Lowest to highest; a role includes everything the roles before it can do
+export const ROLE_ORDER: AppRole[] = ['viewer', 'billing_editor', 'admin', 'owner'];
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  billing_editor: 'Billing Editor',
+  viewer: 'Viewer',
+};
+
+interface UseUserRoleReturn {
+  role: AppRole | null;
+  isLoading: boolean;
+  hasRole: (minimum: AppRole) => boolean;
+}
+
+// Only decides what the UI shows; the edge functions check the role again before acting
+export const useUserRole = (): UseUserRoleReturn => {
+  const { user } = useAuth();
+  const [role, setRole] = useState<AppRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setRole(null);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading user role:', error);
+        }
+        setRole((data?.role as AppRole) ?? 'viewer');
+        setIsLoading(false);
+      });
+  }, [user]);
+
+  const hasRole = useCallback(
+    (minimum: AppRole) => role !== null && ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(minimum),
+    [role]
+  );
+
+  return { role, isLoading, hasRole };
+};
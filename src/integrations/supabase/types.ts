@@ -9,6 +9,564 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      api_keys: {
+        Row: {
+          created_at: string
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          meter_names: string[]
+          name: string
+          revoked_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          meter_names: string[]
+          name: string
+          revoked_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          meter_names?: string[]
+          name?: string
+          revoked_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          after: Json | null
+          before: Json | null
+          created_at: string
+          function_name: string
+          id: string
+          mode: string | null
+          object_type: string
+          organization_id: string | null
+          request_id: string
+          stripe_object_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          function_name: string
+          id?: string
+          mode?: string | null
+          object_type: string
+          organization_id?: string | null
+          request_id: string
+          stripe_object_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          function_name?: string
+          id?: string
+          mode?: string | null
+          object_type?: string
+          organization_id?: string | null
+          request_id?: string
+          stripe_object_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      billing_model_deployment_items: {
+        Row: {
+          attempts: number
+          created_at: string
+          deployment_id: string
+          error: string | null
+          id: string
+          item_id: string
+          meter_action: string | null
+          organization_id: string
+          price_action: string | null
+          product_action: string | null
+          product_name: string
+          rollback_error: string | null
+          rolled_back_at: string | null
+          status: string
+          stripe_meter_id: string | null
+          stripe_price_id: string | null
+          stripe_product_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          deployment_id: string
+          error?: string | null
+          id?: string
+          item_id: string
+          meter_action?: string | null
+          organization_id: string
+          price_action?: string | null
+          product_action?: string | null
+          product_name: string
+          rollback_error?: string | null
+          rolled_back_at?: string | null
+          status?: string
+          stripe_meter_id?: string | null
+          stripe_price_id?: string | null
+          stripe_product_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          deployment_id?: string
+          error?: string | null
+          id?: string
+          item_id?: string
+          meter_action?: string | null
+          organization_id?: string
+          price_action?: string | null
+          product_action?: string | null
+          product_name?: string
+          rollback_error?: string | null
+          rolled_back_at?: string | null
+          status?: string
+          stripe_meter_id?: string | null
+          stripe_price_id?: string | null
+          stripe_product_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "billing_model_deployment_items_deployment_id_fkey"
+            columns: ["deployment_id"]
+            isOneToOne: false
+            referencedRelation: "billing_model_deployments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "billing_model_deployment_items_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      billing_model_deployments: {
+        Row: {
+          attempts: number
+          billing_model: Json
+          billing_model_id: string | null
+          completed_at: string | null
+          created_at: string
+          id: string
+          idempotency_scope: string | null
+          mode: string
+          model_version: number | null
+          organization_id: string
+          plan: Json | null
+          promoted_from_deployment_id: string | null
+          rollback_report: Json | null
+          rolled_back_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          billing_model: Json
+          billing_model_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          idempotency_scope?: string | null
+          mode?: string
+          model_version?: number | null
+          organization_id: string
+          plan?: Json | null
+          promoted_from_deployment_id?: string | null
+          rollback_report?: Json | null
+          rolled_back_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          billing_model?: Json
+          billing_model_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          idempotency_scope?: string | null
+          mode?: string
+          model_version?: number | null
+          organization_id?: string
+          plan?: Json | null
+          promoted_from_deployment_id?: string | null
+          rollback_report?: Json | null
+          rolled_back_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "billing_model_deployments_billing_model_id_fkey"
+            columns: ["billing_model_id"]
+            isOneToOne: false
+            referencedRelation: "billing_models"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "billing_model_deployments_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "billing_model_deployments_promoted_from_deployment_id_fkey"
+            columns: ["promoted_from_deployment_id"]
+            isOneToOne: false
+            referencedRelation: "billing_model_deployments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      billing_model_items: {
+        Row: {
+          aggregate_usage: string | null
+          billing_model_id: string
+          billing_scheme: string | null
+          created_at: string
+          currency: string
+          currency_options: Json | null
+          description: string | null
+          event_name: string | null
+          id: string
+          interval: string | null
+          item_key: string
+          metadata: Json | null
+          organization_id: string
+          position: number
+          product: string
+          tiers: Json | null
+          tiers_mode: string | null
+          type: string
+          unit_amount: number
+          usage_type: string | null
+          user_id: string
+        }
+        Insert: {
+          aggregate_usage?: string | null
+          billing_model_id: string
+          billing_scheme?: string | null
+          created_at?: string
+          currency?: string
+          currency_options?: Json | null
+          description?: string | null
+          event_name?: string | null
+          id?: string
+          interval?: string | null
+          item_key: string
+          metadata?: Json | null
+          organization_id: string
+          position?: number
+          product: string
+          tiers?: Json | null
+          tiers_mode?: string | null
+          type: string
+          unit_amount?: number
+          usage_type?: string | null
+          user_id: string
+        }
+        Update: {
+          aggregate_usage?: string | null
+          billing_model_id?: string
+          billing_scheme?: string | null
+          created_at?: string
+          currency?: string
+          currency_options?: Json | null
+          description?: string | null
+          event_name?: string | null
+          id?: string
+          interval?: string | null
+          item_key?: string
+          metadata?: Json | null
+          organization_id?: string
+          position?: number
+          product?: string
+          tiers?: Json | null
+          tiers_mode?: string | null
+          type?: string
+          unit_amount?: number
+          usage_type?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "billing_model_items_billing_model_id_fkey"
+            columns: ["billing_model_id"]
+            isOneToOne: false
+            referencedRelation: "billing_models"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "billing_model_items_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      billing_model_versions: {
+        Row: {
+          billing_model_id: string
+          change_summary: string | null
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          description: string | null
+          id: string
+          items: Json
+          name: string
+          organization_id: string
+          restored_from_version: number | null
+          type: string
+          user_id: string
+          version_number: number
+        }
+        Insert: {
+          billing_model_id: string
+          change_summary?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          description?: string | null
+          id?: string
+          items?: Json
+          name: string
+          organization_id: string
+          restored_from_version?: number | null
+          type: string
+          user_id: string
+          version_number: number
+        }
+        Update: {
+          billing_model_id?: string
+          change_summary?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          description?: string | null
+          id?: string
+          items?: Json
+          name?: string
+          organization_id?: string
+          restored_from_version?: number | null
+          type?: string
+          user_id?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "billing_model_versions_billing_model_id_fkey"
+            columns: ["billing_model_id"]
+            isOneToOne: false
+            referencedRelation: "billing_models"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "billing_model_versions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      billing_models: {
+        Row: {
+          created_at: string
+          current_version: number
+          description: string | null
+          id: string
+          legacy_id: string | null
+          name: string
+          organization_id: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          current_version?: number
+          description?: string | null
+          id?: string
+          legacy_id?: string | null
+          name: string
+          organization_id: string
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          current_version?: number
+          description?: string | null
+          id?: string
+          legacy_id?: string | null
+          name?: string
+          organization_id?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "billing_models_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          role: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          role?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          id: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          organization_id: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          organization_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          stripe_account_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          stripe_account_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          stripe_account_id?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           company_name: string | null
@@ -45,38 +603,254 @@ export type Database = {
         }
         Relationships: []
       }
+      stripe_credentials: {
+        Row: {
+          account_name: string | null
+          connected_by: string | null
+          created_at: string
+          encrypted_key: string
+          id: string
+          key_iv: string
+          key_last4: string
+          mode: string
+          organization_id: string
+          rotated_at: string | null
+          stripe_account_id: string
+          updated_at: string
+        }
+        Insert: {
+          account_name?: string | null
+          connected_by?: string | null
+          created_at?: string
+          encrypted_key: string
+          id?: string
+          key_iv: string
+          key_last4: string
+          mode?: string
+          organization_id: string
+          rotated_at?: string | null
+          stripe_account_id: string
+          updated_at?: string
+        }
+        Update: {
+          account_name?: string | null
+          connected_by?: string | null
+          created_at?: string
+          encrypted_key?: string
+          id?: string
+          key_iv?: string
+          key_last4?: string
+          mode?: string
+          organization_id?: string
+          rotated_at?: string | null
+          stripe_account_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stripe_credentials_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stripe_events: {
+        Row: {
+          api_version: string | null
+          attempts: number
+          claimed_at: string
+          created_at: string
+          error: string | null
+          id: string
+          livemode: boolean
+          payload: Json
+          processed_at: string | null
+          status: string
+          stripe_created_at: string | null
+          type: string
+        }
+        Insert: {
+          api_version?: string | null
+          attempts?: number
+          claimed_at?: string
+          created_at?: string
+          error?: string | null
+          id: string
+          livemode?: boolean
+          payload: Json
+          processed_at?: string | null
+          status?: string
+          stripe_created_at?: string | null
+          type: string
+        }
+        Update: {
+          api_version?: string | null
+          attempts?: number
+          claimed_at?: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          livemode?: boolean
+          payload?: Json
+          processed_at?: string | null
+          status?: string
+          stripe_created_at?: string | null
+          type?: string
+        }
+        Relationships: []
+      }
+      subscriptions: {
+        Row: {
+          cancel_at_period_end: boolean
+          created_at: string
+          current_period_end: string | null
+          customer_id: string | null
+          id: string
+          last_event_id: string | null
+          overage_rate: number | null
+          price_amount: number | null
+          price_id: string | null
+          status: string
+          stripe_subscription_id: string | null
+          synced_at: string
+          tier_id: string | null
+          updated_at: string
+          usage_limits: Json | null
+          user_id: string
+        }
+        Insert: {
+          cancel_at_period_end?: boolean
+          created_at?: string
+          current_period_end?: string | null
+          customer_id?: string | null
+          id?: string
+          last_event_id?: string | null
+          overage_rate?: number | null
+          price_amount?: number | null
+          price_id?: string | null
+          status: string
+          stripe_subscription_id?: string | null
+          synced_at?: string
+          tier_id?: string | null
+          updated_at?: string
+          usage_limits?: Json | null
+          user_id: string
+        }
+        Update: {
+          cancel_at_period_end?: boolean
+          created_at?: string
+          current_period_end?: string | null
+          customer_id?: string | null
+          id?: string
+          last_event_id?: string | null
+          overage_rate?: number | null
+          price_amount?: number | null
+          price_id?: string | null
+          status?: string
+          stripe_subscription_id?: string | null
+          synced_at?: string
+          tier_id?: string | null
+          updated_at?: string
+          usage_limits?: Json | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tier_usage_policies: {
+        Row: {
+          created_at: string
+          enforcement: string
+          tier_id: string
+          updated_at: string
+          warn_at_ratio: number
+        }
+        Insert: {
+          created_at?: string
+          enforcement?: string
+          tier_id: string
+          updated_at?: string
+          warn_at_ratio?: number
+        }
+        Update: {
+          created_at?: string
+          enforcement?: string
+          tier_id?: string
+          updated_at?: string
+          warn_at_ratio?: number
+        }
+        Relationships: []
+      }
       usage_events: {
         Row: {
+          api_key_id: string | null
           created_at: string
           event_name: string
           id: string
+          idempotency_key: string | null
+          last_sync_error: string | null
           metadata: Json | null
           meter_id: string
+          next_sync_at: string
+          occurred_at: string
+          overage: boolean
+          stripe_customer_id: string | null
           stripe_event_id: string | null
+          sync_attempts: number
+          sync_status: string
+          synced_at: string | null
           user_id: string
           value: number
         }
         Insert: {
+          api_key_id?: string | null
           created_at?: string
           event_name: string
           id?: string
+          idempotency_key?: string | null
+          last_sync_error?: string | null
           metadata?: Json | null
           meter_id: string
+          next_sync_at?: string
+          occurred_at?: string
+          overage?: boolean
+          stripe_customer_id?: string | null
           stripe_event_id?: string | null
+          sync_attempts?: number
+          sync_status?: string
+          synced_at?: string | null
           user_id: string
           value?: number
         }
         Update: {
+          api_key_id?: string | null
           created_at?: string
           event_name?: string
           id?: string
+          idempotency_key?: string | null
+          last_sync_error?: string | null
           metadata?: Json | null
           meter_id?: string
+          next_sync_at?: string
+          occurred_at?: string
+          overage?: boolean
+          stripe_customer_id?: string | null
           stripe_event_id?: string | null
+          sync_attempts?: number
+          sync_status?: string
+          synced_at?: string | null
           user_id?: string
           value?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "usage_events_api_key_id_fkey"
+            columns: ["api_key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "usage_events_meter_id_fkey"
             columns: ["meter_id"]
@@ -86,13 +860,48 @@ export type Database = {
           },
         ]
       }
+      usage_forecast_alerts: {
+        Row: {
+          created_at: string
+          id: string
+          meter_name: string
+          period_start: string
+          projected_exceed_at: string | null
+          projected_usage: number
+          usage_limit: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          meter_name: string
+          period_start: string
+          projected_exceed_at?: string | null
+          projected_usage: number
+          usage_limit: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          meter_name?: string
+          period_start?: string
+          projected_exceed_at?: string | null
+          projected_usage?: number
+          usage_limit?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       usage_meters: {
         Row: {
           created_at: string
           display_name: string
           event_name: string
           id: string
+          mode: string
           name: string
+          organization_id: string | null
           stripe_meter_id: string | null
           unit_label: string | null
           updated_at: string
@@ -102,7 +911,9 @@ export type Database = {
           display_name: string
           event_name: string
           id?: string
+          mode?: string
           name: string
+          organization_id?: string | null
           stripe_meter_id?: string | null
           unit_label?: string | null
           updated_at?: string
@@ -112,11 +923,118 @@ export type Database = {
           display_name?: string
           event_name?: string
           id?: string
+          mode?: string
           name?: string
+          organization_id?: string | null
           stripe_meter_id?: string | null
           unit_label?: string | null
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "usage_meters_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      usage_rollups_daily: {
+        Row: {
+          bucket_start: string
+          event_count: number
+          meter_id: string
+          total_usage: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          bucket_start: string
+          event_count?: number
+          meter_id: string
+          total_usage?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          bucket_start?: string
+          event_count?: number
+          meter_id?: string
+          total_usage?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_rollups_daily_meter_id_fkey"
+            columns: ["meter_id"]
+            isOneToOne: false
+            referencedRelation: "usage_meters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      usage_rollups_hourly: {
+        Row: {
+          bucket_start: string
+          event_count: number
+          meter_id: string
+          total_usage: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          bucket_start: string
+          event_count?: number
+          meter_id: string
+          total_usage?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          bucket_start?: string
+          event_count?: number
+          meter_id?: string
+          total_usage?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_rollups_hourly_meter_id_fkey"
+            columns: ["meter_id"]
+            isOneToOne: false
+            referencedRelation: "usage_meters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          id: string
+          role: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          role?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          role?: string
+          updated_at?: string
+          user_id?: string
+        }
         Relationships: []
       }
       user_usage_summary: {
@@ -165,7 +1083,122 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_organization_invitation: {
+        Args: {
+          p_invitation_id: string
+        }
+        Returns: string
+      }
+      caller_has_org_role: {
+        Args: {
+          p_organization_id: string
+          p_role: string
+        }
+        Returns: boolean
+      }
+      caller_has_role: {
+        Args: {
+          p_role: string
+        }
+        Returns: boolean
+      }
+      create_billing_model: {
+        Args: {
+          p_change_summary: string
+          p_created_at?: string
+          p_description: string
+          p_items: Json
+          p_legacy_id?: string
+          p_model_id: string
+          p_name: string
+          p_organization_id: string
+          p_snapshot: Json
+          p_type: string
+        }
+        Returns: string
+      }
+      get_usage_rollup: {
+        Args: {
+          p_end: string
+          p_granularity: string
+          p_start: string
+          p_user_id: string
+        }
+        Returns: {
+          bucket_start: string
+          event_count: number
+          meter_id: string
+          total_usage: number
+        }[]
+      }
+      has_org_role: {
+        Args: {
+          p_organization_id: string
+          p_role: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          p_role: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      invoke_scheduled_function: {
+        Args: {
+          p_body?: Json
+          p_name: string
+        }
+        Returns: number
+      }
+      is_org_member: {
+        Args: {
+          p_organization_id: string
+        }
+        Returns: boolean
+      }
+      is_org_owner: {
+        Args: {
+          p_organization_id: string
+        }
+        Returns: boolean
+      }
+      mark_usage_events_synced: {
+        Args: {
+          p_ids: string[]
+        }
+        Returns: number
+      }
+      reserve_usage: {
+        Args: {
+          p_limit?: number
+          p_meter_id: string
+          p_period_end: string
+          p_period_start: string
+          p_user_id: string
+          p_values: number[]
+        }
+        Returns: {
+          accepted: boolean[]
+          new_total: number
+          previous_total: number
+        }[]
+      }
+      save_billing_model_version: {
+        Args: {
+          p_change_summary: string
+          p_description: string
+          p_items: Json
+          p_model_id: string
+          p_name: string
+          p_restored_from_version?: number
+          p_snapshot: Json
+          p_type: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Caught values are unknown; Supabase and fetch failures are Errors, anything else is shown as-is
+export function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error)
+}
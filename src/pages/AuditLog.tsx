@@ -0,0 +1,16 @@
+import React from 'react';
+import DashboardLayout from '@/components/DashboardLayout';
+import AuditLogViewer from '@/components/AuditLogViewer';
+
+const AuditLog = () => {
+  return (
+    <DashboardLayout
+      title="Audit Log"
+      description="Review every change made to your Stripe account"
+    >
+      <AuditLogViewer />
+    </DashboardLayout>
+  );
+};
+
+export default AuditLog;
@@ -13,6 +13,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Plus, Package, DollarSign, Calendar, ExternalLink, Trash2, RefreshCw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { useOrganization } from '@/hooks/useOrganization';
 
 interface StripeProduct {
   id: string;
@@ -38,6 +39,7 @@ const Billing = () => {
   const [creating, setCreating] = useState(false);
   const [activeTab, setActiveTab] = useState('products');
   const { toast } = useToast();
+  const { currentOrganization, mode } = useOrganization();
 
   // Form states
   const [productName, setProductName] = useState('');
@@ -48,16 +50,6 @@ const Billing = () => {
   const [priceInterval, setPriceInterval] = useState<'month' | 'year'>('month');
 
   const loadStripeData = async () => {
-    const apiKey = localStorage.getItem('stripe_api_key');
-    if (!apiKey) {
-      toast({
-        title: "API Key Required",
-        description: "Please configure your Stripe API key first",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setLoading(true);
     try {
       toast({
@@ -79,23 +71,10 @@ const Billing = () => {
   };
 
   useEffect(() => {
-    const apiKey = localStorage.getItem('stripe_api_key');
-    if (apiKey) {
-      loadStripeData();
-    }
+    loadStripeData();
   }, []);
 
   const createProduct = async () => {
-    const apiKey = localStorage.getItem('stripe_api_key');
-    if (!apiKey) {
-      toast({
-        title: "API Key Required",
-        description: "Please configure your Stripe API key first",
-        variant: "destructive",
-      });
-      return;
-    }
-
     if (!productName || !priceAmount) {
       toast({
         title: "Validation Error",
@@ -113,7 +92,8 @@ const Billing = () => {
           name: productName,
           description: productDescription,
           type: 'service',
-          apiKey
+          organizationId: currentOrganization?.id,
+          mode
         }
       });
 
@@ -126,7 +106,8 @@ const Billing = () => {
         product: productData.product.id,
         unit_amount: Math.round(parseFloat(priceAmount) * 100),
         currency: priceCurrency,
-        apiKey
+        organizationId: currentOrganization?.id,
+        mode
       };
 
       if (priceType === 'recurring') {
@@ -3,13 +3,18 @@ import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Check } from 'lucide-react';
+import { Check, CreditCard, ExternalLink } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
 import DashboardLayout from '@/components/DashboardLayout';
 import useStripePricing from '@/hooks/useStripePricing';
+import { useSubscription } from '@/hooks/useSubscription';
+import PlanChangeDialog from '@/components/PlanChangeDialog';
+import { subscriptionService, type PlanChangePreview, type PortalFlow } from '@/services/subscriptionService';
+
+const LIVE_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due'];
 
 const Pricing = () => {
   const { user } = useAuth();
@@ -17,6 +22,16 @@ const Pricing = () => {
   const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
   const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
+  const [changeTier, setChangeTier] = useState<{ id: string; name: string } | null>(null);
+  const [changePreview, setChangePreview] = useState<PlanChangePreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [isManaging, setIsManaging] = useState(false);
+  const { subscriptionStatus, refetch: refetchSubscription } = useSubscription();
+
+  // Existing subscribers change plans in place instead of starting a second checkout
+  const hasSubscription = !!subscriptionStatus.subscription_id &&
+    LIVE_SUBSCRIPTION_STATUSES.includes(subscriptionStatus.subscription_status);
   
   // Use the hook to get live pricing data
   const { pricingTiers, isLoading: pricingLoading, error: pricingError } = useStripePricing({
@@ -36,6 +51,11 @@ const Pricing = () => {
     }
 
     if (selectedPlan === planId) return;
+
+    if (hasSubscription) {
+      openPlanChange(planId);
+      return;
+    }
     
     setSelectedPlan(planId);
     setIsLoading(true);
@@ -78,6 +98,102 @@ const Pricing = () => {
     }
   };
 
+  const openPlanChange = async (planId: string) => {
+    const tier = pricingTiers.find(t => t.id === planId);
+    setChangeTier({ id: planId, name: tier?.name || planId });
+    setChangePreview(null);
+    setIsPreviewing(true);
+
+    const { preview, error } = await subscriptionService.previewPlanChange(planId);
+    setIsPreviewing(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error,
+        variant: "destructive",
+      });
+      setChangeTier(null);
+      return;
+    }
+
+    setChangePreview(preview || null);
+  };
+
+  const confirmPlanChange = async () => {
+    if (!changeTier || !changePreview) return;
+
+    setIsApplying(true);
+    const { result, error } = await subscriptionService.applyPlanChange(changeTier.id, changePreview.proration_date);
+    setIsApplying(false);
+
+    if (error) {
+      toast({
+        title: "Plan Change Failed",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: result?.pending_update ? "Payment Required" : "Plan Changed",
+      description: result?.pending_update
+        ? `The switch to ${changeTier.name} will complete once the prorated invoice is paid.`
+        : `You are now on the ${changeTier.name} plan.`,
+    });
+    setChangeTier(null);
+    setChangePreview(null);
+    refetchSubscription();
+  };
+
+  const openPortal = async (flow?: PortalFlow) => {
+    setIsManaging(true);
+    const { url, error } = await subscriptionService.createPortalSession(flow);
+
+    if (error || !url) {
+      setIsManaging(false);
+      toast({
+        title: "Error",
+        description: error || "Failed to open billing portal",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    window.location.href = url;
+  };
+
+  const toggleCancellation = async () => {
+    const cancel = !subscriptionStatus.cancel_at_period_end;
+    setIsManaging(true);
+    const { currentPeriodEnd, error } = await subscriptionService.setCancelAtPeriodEnd(cancel);
+    setIsManaging(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: cancel ? "Subscription Cancelled" : "Subscription Resumed",
+      description: cancel
+        ? `Your plan stays active until ${currentPeriodEnd ? new Date(currentPeriodEnd * 1000).toLocaleDateString() : 'the end of the period'}.`
+        : "Your subscription will renew as usual.",
+    });
+    refetchSubscription();
+  };
+
+  const getButtonText = (tier: { id: string; name: string; buttonText: string }): string => {
+    if (!hasSubscription) return tier.buttonText;
+    if (tier.id === subscriptionStatus.subscription_tier) return 'Current Plan';
+    return `Switch to ${tier.name}`;
+  };
+
   const formatPrice = (price: number): string => {
     if (price === 0) return 'Free';
     return `$${price}`;
@@ -111,6 +227,42 @@ const Pricing = () => {
       title="Choose Your Plan" 
       description="Select the perfect pricing model for your business needs"
     >
+      {hasSubscription && (
+        <Card className="bg-gray-800 border-gray-700 max-w-7xl mx-auto mb-8">
+          <CardContent className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 pt-6">
+            <div>
+              <div className="text-white font-medium">
+                Current plan: {subscriptionStatus.subscription_tier || 'Unknown'}{' '}
+                <Badge variant="outline" className="ml-2 text-gray-300 border-gray-500">{subscriptionStatus.subscription_status}</Badge>
+              </div>
+              {subscriptionStatus.current_period_end && (
+                <div className="text-sm text-gray-400 mt-1">
+                  {subscriptionStatus.cancel_at_period_end ? 'Ends' : 'Renews'} on{' '}
+                  {new Date(subscriptionStatus.current_period_end * 1000).toLocaleDateString()}
+                </div>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => openPortal('payment_method_update')} disabled={isManaging}>
+                <CreditCard className="h-4 w-4 mr-2" />
+                Update Payment Method
+              </Button>
+              <Button variant="outline" onClick={() => openPortal()} disabled={isManaging}>
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Billing Portal
+              </Button>
+              <Button
+                variant={subscriptionStatus.cancel_at_period_end ? 'default' : 'destructive'}
+                onClick={toggleCancellation}
+                disabled={isManaging}
+              >
+                {subscriptionStatus.cancel_at_period_end ? 'Resume Subscription' : 'Cancel at Period End'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {pricingLoading && (
         <div className="mb-6 text-center">
           <div className="text-sm text-gray-400">Loading pricing plans...</div>
@@ -186,9 +338,9 @@ const Pricing = () => {
               <Button 
                 className="w-full bg-blue-600 hover:bg-blue-700 text-white transition-all duration-200 hover:shadow-lg hover:scale-105 shadow-md"
                 onClick={() => handleSelectPlan(tier.id)}
-                disabled={isLoading || selectedPlan === tier.id}
+                disabled={isLoading || selectedPlan === tier.id || (hasSubscription && tier.id === subscriptionStatus.subscription_tier)}
               >
-                {isLoading && selectedPlan === tier.id ? 'Processing...' : tier.buttonText}
+                {isLoading && selectedPlan === tier.id ? 'Processing...' : getButtonText(tier)}
               </Button>
             </CardContent>
           </Card>
@@ -201,6 +353,19 @@ const Pricing = () => {
           <p className="text-gray-500 text-sm">Please check your Stripe configuration or contact support.</p>
         </div>
       )}
+
+      <PlanChangeDialog
+        tierName={changeTier?.name || ''}
+        preview={changePreview}
+        isOpen={!!changeTier}
+        isLoading={isPreviewing}
+        isApplying={isApplying}
+        onClose={() => {
+          setChangeTier(null);
+          setChangePreview(null);
+        }}
+        onConfirm={confirmPlanChange}
+      />
     </DashboardLayout>
   );
 };
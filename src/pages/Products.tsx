@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Edit, Plus, RefreshCw, DollarSign, Calendar } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useOrganization } from '@/hooks/useOrganization';
 import { supabase } from '@/integrations/supabase/client';
 import DashboardLayout from '@/components/DashboardLayout';
 import { ProductEditDialog } from '@/components/ProductEditDialog';
@@ -11,6 +12,7 @@ import { StripeProduct, StripePrice } from '@/services/stripeService';
 
 const Products = () => {
   const { toast } = useToast();
+  const { currentOrganization, mode } = useOrganization();
   const [products, setProducts] = useState<StripeProduct[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedProduct, setSelectedProduct] = useState<StripeProduct | null>(null);
@@ -19,7 +21,9 @@ const Products = () => {
   const fetchProducts = async () => {
     try {
       setIsLoading(true);
-      const { data, error } = await supabase.functions.invoke('fetch-stripe-data');
+      const { data, error } = await supabase.functions.invoke('fetch-stripe-data', {
+        body: { organizationId: currentOrganization?.id, mode }
+      });
 
       if (error) {
         throw error;
@@ -2,6 +2,7 @@
 import React from 'react';
 import DashboardLayout from '@/components/DashboardLayout';
 import SavedModelsList from '@/components/SavedModelsList';
+import UsageBacktest from '@/components/UsageBacktest';
 
 const SavedModels = () => {
   return (
@@ -9,7 +10,10 @@ const SavedModels = () => {
       title="Saved Billing Models"
       description="Manage your saved billing model configurations"
     >
-      <SavedModelsList />
+      <div className="space-y-6">
+        <SavedModelsList />
+        <UsageBacktest />
+      </div>
     </DashboardLayout>
   );
 };
@@ -9,25 +9,22 @@ import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Separator } from '@/components/ui/separator';
-import { Save, Mail, RefreshCw, Trash2, Shield, Lock, Key, Eye, EyeOff, TestTube } from 'lucide-react';
+import { Save, Mail, RefreshCw, Trash2, Shield, TestTube } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { useUserRole, ROLE_LABELS } from '@/hooks/useUserRole';
 import { supabase } from '@/integrations/supabase/client';
 import { emailService } from '@/services/emailService';
 import DashboardLayout from '@/components/DashboardLayout';
+import ApiKeyManager from '@/components/ApiKeyManager';
+import UserRolesManager from '@/components/UserRolesManager';
+import OrganizationManager from '@/components/OrganizationManager';
 
 const Settings = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [password, setPassword] = useState('');
-  const [showResetDialog, setShowResetDialog] = useState(false);
-  const [newPassword, setNewPassword] = useState('');
-  const [confirmPassword, setConfirmPassword] = useState('');
-  const [showNewPassword, setShowNewPassword] = useState(false);
-  const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  const [ADMIN_PASSWORD, setADMIN_PASSWORD] = useState('stripe-admin-2024');
+  const { role, hasRole } = useUserRole();
   
   // User settings
   const [userSettings, setUserSettings] = useState({
@@ -62,52 +59,6 @@ const Settings = () => {
     }
   }, [user]);
 
-  const handlePasswordSubmit = () => {
-    if (password === ADMIN_PASSWORD) {
-      setIsAuthenticated(true);
-      setPassword('');
-      toast({
-        title: "Access Granted",
-        description: "You now have access to Stripe management functions.",
-      });
-    } else {
-      toast({
-        title: "Access Denied",
-        description: "Incorrect password. Please try again.",
-        variant: "destructive",
-      });
-    }
-  };
-
-  const handlePasswordReset = () => {
-    if (newPassword !== confirmPassword) {
-      toast({
-        title: "Password Mismatch",
-        description: "The passwords do not match. Please try again.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    if (newPassword.length < 8) {
-      toast({
-        title: "Password Too Short",
-        description: "Password must be at least 8 characters long.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    setADMIN_PASSWORD(newPassword);
-    setNewPassword('');
-    setConfirmPassword('');
-    setShowResetDialog(false);
-    toast({
-      title: "Password Updated",
-      description: "Admin password has been successfully changed.",
-    });
-  };
-
   const handleCleanupStripeData = async () => {
     setIsLoading(true);
     try {
@@ -377,214 +328,77 @@ const Settings = () => {
           </CardContent>
         </Card>
 
-        {/* Stripe Management */}
-        <Card className="shadow-2xl hover:shadow-3xl transition-all duration-300 hover:scale-105 transform z-10 relative">
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <Shield className="h-5 w-5" />
-              <span>Stripe Management</span>
-              {isAuthenticated ? (
-                <Badge variant="outline" className="text-green-600 border-green-600 shadow-lg">Authenticated</Badge>
-              ) : (
-                <Badge variant="destructive" className="shadow-lg">Protected</Badge>
-              )}
-            </CardTitle>
-            <CardDescription>
-              {isAuthenticated 
-                ? "Manage your Stripe products, prices, and test data"
-                : "Enter the admin password to access Stripe management functions"
-              }
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {!isAuthenticated ? (
-              <>
-                <div>
-                  <Label htmlFor="admin-password">Admin Password</Label>
-                  <Input
-                    id="admin-password"
-                    type="password"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    placeholder="Enter admin password"
-                    onKeyPress={(e) => e.key === 'Enter' && handlePasswordSubmit()}
-                    className="shadow-inner hover:shadow-lg transition-shadow duration-300"
-                  />
-                </div>
-                <div className="flex space-x-2">
-                  <Button 
-                    onClick={handlePasswordSubmit}
-                    disabled={!password.trim()}
-                    className="flex-1 shadow-lg hover:shadow-2xl transition-all duration-300 hover:scale-105 hover:-translate-y-1 transform"
-                  >
-                    <Shield className="h-4 w-4 mr-2" />
-                    Authenticate
-                  </Button>
-                  <Button 
-                    variant="outline"
-                    onClick={() => setShowResetDialog(true)}
-                    className="shadow-lg hover:shadow-2xl transition-all duration-300 hover:scale-105 hover:-translate-y-1 transform"
-                  >
-                    <Key className="h-4 w-4 mr-2" />
-                    Reset Password
-                  </Button>
-                </div>
-              </>
-            ) : (
-              <>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <Button 
-                    onClick={handleInitializeBilling}
-                    disabled={isLoading}
-                    className="shadow-lg hover:shadow-2xl transition-all duration-300 hover:scale-105 hover:-translate-y-1 transform"
-                  >
-                    <RefreshCw className="h-4 w-4 mr-2" />
-                    Initialize Billing
-                  </Button>
+        {/* Organization */}
+        <OrganizationManager />
 
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button 
-                        variant="destructive" 
-                        disabled={isLoading}
-                        className="shadow-lg hover:shadow-2xl transition-all duration-300 hover:scale-105 hover:-translate-y-1 transform"
-                      >
-                        <Trash2 className="h-4 w-4 mr-2" />
-                        Cleanup Stripe Data
-                      </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent className="shadow-2xl">
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          This action cannot be undone. This will permanently delete all Stripe products, 
-                          prices, and associated data from your Stripe account.
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel className="shadow-lg hover:shadow-xl transition-all duration-300">
-                          Cancel
-                        </AlertDialogCancel>
-                        <AlertDialogAction 
-                          onClick={handleCleanupStripeData}
-                          className="bg-red-600 hover:bg-red-700 shadow-lg hover:shadow-xl transition-all duration-300"
-                        >
-                          Yes, delete everything
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
-                </div>
+        {/* API Keys */}
+        <ApiKeyManager />
 
-                <div className="flex space-x-2">
-                  <Button 
-                    variant="ghost" 
-                    onClick={() => setIsAuthenticated(false)}
-                    className="flex-1 text-gray-600 hover:text-gray-800 shadow-lg hover:shadow-xl transition-all duration-300"
-                  >
-                    Lock Management Panel
-                  </Button>
-                  <Button 
-                    variant="outline"
-                    onClick={() => setShowResetDialog(true)}
-                    className="shadow-lg hover:shadow-xl transition-all duration-300"
-                  >
-                    <Key className="h-4 w-4 mr-2" />
-                    Change Password
-                  </Button>
-                </div>
-              </>
-            )}
-          </CardContent>
-        </Card>
+        {/* Team Roles */}
+        {hasRole('owner') && <UserRolesManager />}
 
-        {/* Password Reset Dialog */}
-        <AlertDialog open={showResetDialog} onOpenChange={setShowResetDialog}>
-          <AlertDialogContent className="shadow-2xl">
-            <AlertDialogHeader>
-              <AlertDialogTitle>{isAuthenticated ? 'Change' : 'Reset'} Admin Password</AlertDialogTitle>
-              <AlertDialogDescription>
-                Create a new admin password. Make sure it's at least 8 characters long.
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <div className="space-y-4 my-4">
-              <div>
-                <Label htmlFor="new-password">New Password</Label>
-                <div className="relative">
-                  <Input
-                    id="new-password"
-                    type={showNewPassword ? "text" : "password"}
-                    value={newPassword}
-                    onChange={(e) => setNewPassword(e.target.value)}
-                    placeholder="Enter new password"
-                    className="pr-10"
-                  />
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                    onClick={() => setShowNewPassword(!showNewPassword)}
-                  >
-                    {showNewPassword ? (
-                      <EyeOff className="h-4 w-4" />
-                    ) : (
-                      <Eye className="h-4 w-4" />
-                    )}
-                  </Button>
-                </div>
-              </div>
-              <div>
-                <Label htmlFor="confirm-password">Confirm Password</Label>
-                <div className="relative">
-                  <Input
-                    id="confirm-password"
-                    type={showConfirmPassword ? "text" : "password"}
-                    value={confirmPassword}
-                    onChange={(e) => setConfirmPassword(e.target.value)}
-                    placeholder="Confirm new password"
-                    className="pr-10"
-                  />
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                    onClick={() => setShowConfirmPassword(!showConfirmPassword)}
-                  >
-                    {showConfirmPassword ? (
-                      <EyeOff className="h-4 w-4" />
-                    ) : (
-                      <Eye className="h-4 w-4" />
-                    )}
-                  </Button>
-                </div>
+        {/* Stripe Management */}
+        {hasRole('admin') && (
+          <Card className="shadow-2xl hover:shadow-3xl transition-all duration-300 hover:scale-105 transform z-10 relative">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Shield className="h-5 w-5" />
+                <span>Stripe Management</span>
+                {role && (
+                  <Badge variant="outline" className="text-green-600 border-green-600 shadow-lg">{ROLE_LABELS[role]}</Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                Manage your Stripe products, prices, and test data
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Button 
+                  onClick={handleInitializeBilling}
+                  disabled={isLoading}
+                  className="shadow-lg hover:shadow-2xl transition-all duration-300 hover:scale-105 hover:-translate-y-1 transform"
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Initialize Billing
+                </Button>
+
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button 
+                      variant="destructive" 
+                      disabled={isLoading}
+                      className="shadow-lg hover:shadow-2xl transition-all duration-300 hover:scale-105 hover:-translate-y-1 transform"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Cleanup Stripe Data
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent className="shadow-2xl">
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        This action cannot be undone. This will permanently delete all Stripe products, 
+                        prices, and associated data from your Stripe account.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel className="shadow-lg hover:shadow-xl transition-all duration-300">
+                        Cancel
+                      </AlertDialogCancel>
+                      <AlertDialogAction 
+                        onClick={handleCleanupStripeData}
+                        className="bg-red-600 hover:bg-red-700 shadow-lg hover:shadow-xl transition-all duration-300"
+                      >
+                        Yes, delete everything
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
               </div>
-              {newPassword && confirmPassword && newPassword !== confirmPassword && (
-                <p className="text-sm text-red-600">Passwords do not match</p>
-              )}
-              {newPassword && newPassword.length < 8 && (
-                <p className="text-sm text-red-600">Password must be at least 8 characters long</p>
-              )}
-            </div>
-            <AlertDialogFooter>
-              <AlertDialogCancel onClick={() => {
-                setNewPassword('');
-                setConfirmPassword('');
-                setShowNewPassword(false);
-                setShowConfirmPassword(false);
-              }}>
-                Cancel
-              </AlertDialogCancel>
-              <AlertDialogAction 
-                onClick={handlePasswordReset}
-                disabled={!newPassword || !confirmPassword || newPassword !== confirmPassword || newPassword.length < 8}
-              >
-                Update Password
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </DashboardLayout>
   );
@@ -0,0 +1,95 @@
+import { supabase } from '@/integrations/supabase/client';
+import { errorMessage } from '@/lib/utils';
+
+// Must match API_KEY_PREFIX in supabase/functions/_shared/usage.ts
+const API_KEY_PREFIX = 'usk_';
+const DISPLAY_PREFIX_LENGTH = 12;
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  meter_names: string[];
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256Hex = async (value: string) =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))));
+
+class ApiKeyService {
+  async listApiKeys(): Promise<{ data?: ApiKey[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('api_keys')
+        .select('id, name, key_prefix, meter_names, last_used_at, revoked_at, created_at')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return { data: data || [] };
+    } catch (error) {
+      console.error('Error listing API keys:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  // The secret is only returned here; the table keeps its SHA-256 hash, so it cannot be shown again
+  async createApiKey(name: string, meterNames: string[]): Promise<{ data?: ApiKey; secret?: string; error?: string }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const secret = API_KEY_PREFIX + toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+      const { data, error } = await supabase
+        .from('api_keys')
+        .insert({
+          user_id: user.id,
+          name,
+          key_prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+          key_hash: await sha256Hex(secret),
+          meter_names: meterNames
+        })
+        .select('id, name, key_prefix, meter_names, last_used_at, revoked_at, created_at')
+        .single();
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return { data, secret };
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  async revokeApiKey(id: string): Promise<{ error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('api_keys')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return {};
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
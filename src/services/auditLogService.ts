@@ -0,0 +1,76 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { organizationService, type StripeMode } from './organizationService';
+import { errorMessage } from '@/lib/utils';
+
+export type AuditLogEntry = Tables<'audit_log'>;
+
+export interface AuditLogFilters {
+  search?: string;
+  objectType?: string;
+  action?: string;
+  mode?: StripeMode;
+  from?: string;
+  to?: string;
+}
+
+export const AUDIT_PAGE_SIZE = 50;
+
+// Characters that would break out of a PostgREST or() filter
+const sanitizeSearch = (value: string) => value.replace(/[,()*%\\]/g, ' ').trim();
+
+class AuditLogService {
+  // The active organization's entries plus platform-level ones; RLS only returns the latter to admins
+  async listEntries(
+    filters: AuditLogFilters = {},
+    page = 0
+  ): Promise<{ entries?: AuditLogEntry[]; total?: number; error?: string }> {
+    try {
+      const organizationId = await organizationService.requireActiveOrganizationId();
+
+      let query = supabase
+        .from('audit_log')
+        .select('*', { count: 'exact' })
+        .or(`organization_id.eq.${organizationId},organization_id.is.null`)
+        .order('created_at', { ascending: false })
+        .range(page * AUDIT_PAGE_SIZE, (page + 1) * AUDIT_PAGE_SIZE - 1);
+
+      const search = sanitizeSearch(filters.search || '');
+      if (search) {
+        query = query.or(
+          ['stripe_object_id', 'request_id', 'actor_email', 'action', 'function_name']
+            .map(column => `${column}.ilike.*${search}*`)
+            .join(',')
+        );
+      }
+      if (filters.objectType) {
+        query = query.eq('object_type', filters.objectType);
+      }
+      if (filters.action) {
+        query = query.eq('action', filters.action);
+      }
+      if (filters.mode) {
+        query = query.eq('mode', filters.mode);
+      }
+      if (filters.from) {
+        query = query.gte('created_at', filters.from);
+      }
+      if (filters.to) {
+        query = query.lte('created_at', filters.to);
+      }
+
+      const { data, count, error } = await query;
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return { entries: data, total: count ?? data.length };
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+}
+
+export const auditLogService = new AuditLogService();
@@ -1,5 +1,6 @@
 
 import { supabase } from '@/integrations/supabase/client';
+import { organizationService } from './organizationService';
 
 export interface BillingCredit {
   id: string;
@@ -22,19 +23,10 @@ export interface CreditUsage {
 }
 
 class BillingCreditsService {
-  private getApiKey(): string | null {
-    return localStorage.getItem('stripe_api_key');
-  }
-
   async checkCustomerSubscription(customerId: string): Promise<{ isSubscribed: boolean; subscriptionTier?: string }> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      return { isSubscribed: false };
-    }
-
     try {
       const { data, error } = await supabase.functions.invoke('check-subscription', {
-        body: { customerId, apiKey }
+        body: { customerId }
       });
 
       if (error) {
@@ -53,14 +45,12 @@ class BillingCreditsService {
   }
 
   async getCustomerCredits(customerId: string): Promise<{ credits?: BillingCredit[]; error?: string }> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      return { error: 'Stripe API key not configured' };
-    }
-
     try {
+      const organizationId = await organizationService.getActiveOrganizationId();
+      const mode = organizationService.getStripeMode();
+
       const { data, error } = await supabase.functions.invoke('get-customer-credits', {
-        body: { customerId, apiKey }
+        body: { customerId, organizationId, mode }
       });
 
       if (error) {
@@ -80,12 +70,10 @@ class BillingCreditsService {
     creditsUsed: CreditUsage[];
     error?: string 
   }> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      return { appliedAmount: 0, remainingUsage: usageAmount, creditsUsed: [], error: 'Stripe API key not configured' };
-    }
-
     try {
+      const organizationId = await organizationService.getActiveOrganizationId();
+      const mode = organizationService.getStripeMode();
+
       // Check if customer is subscribed
       const { isSubscribed } = await this.checkCustomerSubscription(customerId);
       
@@ -99,7 +87,8 @@ class BillingCreditsService {
           customerId, 
           usageAmount, 
           currency: currency.toLowerCase(),
-          apiKey 
+          organizationId,
+          mode
         }
       });
 
@@ -125,12 +114,10 @@ class BillingCreditsService {
     expiresAt?: string,
     metadata?: Record<string, string>
   ): Promise<{ credit?: BillingCredit; error?: string }> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      return { error: 'Stripe API key not configured' };
-    }
-
     try {
+      const organizationId = await organizationService.getActiveOrganizationId();
+      const mode = organizationService.getStripeMode();
+
       const { data, error } = await supabase.functions.invoke('grant-customer-credits', {
         body: { 
           customerId, 
@@ -138,7 +125,8 @@ class BillingCreditsService {
           currency: currency.toLowerCase(),
           expiresAt,
           metadata,
-          apiKey 
+          organizationId,
+          mode
         }
       });
 
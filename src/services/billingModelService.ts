@@ -1,5 +1,44 @@
 import { supabase } from '@/integrations/supabase/client';
-import { BillingModel, BillingItem } from './stripeService';
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { BillingModel, BillingItem, BillingTier } from './stripeService';
+import { organizationService } from './organizationService';
+import { toStripeTiers, toStripeCurrencyOptions } from '../../supabase/functions/_shared/pricing';
+import { errorMessage } from '@/lib/utils';
+
+type BillingModelRow = Tables<'billing_models'> & {
+  billing_model_items: Tables<'billing_model_items'>[];
+};
+
+const LEGACY_STORAGE_KEY = 'billing_models';
+
+export interface BillingModelVersion {
+  id: string;
+  billing_model_id: string;
+  version_number: number;
+  name: string;
+  description: string;
+  type: BillingModel['type'];
+  items: BillingItem[];
+  change_summary: string | null;
+  restored_from_version: number | null;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_at: string;
+}
+
+// Item fields compared when diffing two versions of a model
+export const DIFFED_ITEM_FIELDS = ['unit_amount', 'currency', 'interval', 'eventName'] as const;
+
+export type DiffedItemField = typeof DIFFED_ITEM_FIELDS[number];
+
+export interface BillingItemDiff {
+  itemId: string;
+  product: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  before?: BillingItem;
+  after?: BillingItem;
+  changedFields: DiffedItemField[];
+}
 
 export class BillingModelService {
   async saveBillingModel(model: Omit<BillingModel, 'id' | 'created_at' | 'user_id'>): Promise<{ model?: BillingModel; error?: string }> {
@@ -9,23 +48,14 @@ export class BillingModelService {
         return { error: 'Not authenticated' };
       }
 
-      const billingModel: BillingModel = {
-        id: `bm_${Date.now()}`,
-        created_at: new Date().toISOString(),
-        user_id: session.user.id,
-        ...model
-      };
-
-      // Store in localStorage for now (in a real app, you'd save to Supabase)
-      const existingModels = this.getStoredModels();
-      const updatedModels = [...existingModels, billingModel];
-      localStorage.setItem('billing_models', JSON.stringify(updatedModels));
+      const organizationId = await organizationService.requireActiveOrganizationId();
+      const billingModel = await this.insertModel(session.user, organizationId, model);
 
       console.log('Saved billing model:', billingModel);
       return { model: billingModel };
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error saving billing model:', error);
-      return { error: error.message };
+      return { error: errorMessage(error) };
     }
   }
 
@@ -36,14 +66,25 @@ export class BillingModelService {
         return { error: 'Not authenticated' };
       }
 
-      const models = this.getStoredModels().filter(
-        model => model.user_id === session.user.id
-      );
+      const organizationId = await organizationService.requireActiveOrganizationId();
+      await this.importLegacyModels(session.user, organizationId);
+
+      const { data, error } = await supabase
+        .from('billing_models')
+        .select('*, billing_model_items(*)')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const models = (data as BillingModelRow[]).map(row => this.fromRow(row));
 
       return { models };
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error getting billing models:', error);
-      return { error: error.message };
+      return { error: errorMessage(error) };
     }
   }
 
@@ -54,28 +95,359 @@ export class BillingModelService {
         return { error: 'Not authenticated' };
       }
 
-      const existingModels = this.getStoredModels();
-      const updatedModels = existingModels.filter(
-        model => model.id !== modelId || model.user_id !== session.user.id
-      );
-      localStorage.setItem('billing_models', JSON.stringify(updatedModels));
+      const organizationId = await organizationService.requireActiveOrganizationId();
+
+      // Items are removed by the ON DELETE CASCADE on billing_model_items
+      const { error } = await supabase
+        .from('billing_models')
+        .delete()
+        .eq('id', modelId)
+        .eq('organization_id', organizationId);
+
+      if (error) {
+        throw new Error(error.message);
+      }
 
       return {};
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error deleting billing model:', error);
-      return { error: error.message };
+      return { error: errorMessage(error) };
+    }
+  }
+
+  async updateBillingModel(
+    modelId: string,
+    model: Omit<BillingModel, 'id' | 'created_at' | 'user_id'>,
+    changeSummary?: string,
+    restoredFromVersion?: number
+  ): Promise<{ model?: BillingModel; error?: string }> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) {
+        return { error: 'Not authenticated' };
+      }
+
+      const organizationId = await organizationService.requireActiveOrganizationId();
+
+      const { data: existing, error: existingError } = await supabase
+        .from('billing_models')
+        .select('*, billing_model_items(*)')
+        .eq('id', modelId)
+        .eq('organization_id', organizationId)
+        .single();
+
+      if (existingError || !existing) {
+        throw new Error(existingError?.message || 'Billing model not found');
+      }
+
+      const previous = this.fromRow(existing as BillingModelRow);
+      const itemRows = model.items.map((item, index) => this.toItemRow(session.user.id, organizationId, modelId, item, index));
+
+      // The version, the replacement items and the version bump are written in one transaction,
+      // so a failed save leaves the model exactly as it was
+      const { error: saveError } = await supabase.rpc('save_billing_model_version', {
+        p_model_id: modelId,
+        p_name: model.name,
+        p_description: model.description || '',
+        p_type: model.type,
+        p_items: itemRows as unknown as Json,
+        p_snapshot: model.items as unknown as Json,
+        p_change_summary: changeSummary || this.summarizeDiff(this.diffModelItems(previous.items, model.items)),
+        p_restored_from_version: restoredFromVersion
+      });
+
+      if (saveError) {
+        throw new Error(saveError.message);
+      }
+
+      const { data: modelRow, error: reloadError } = await supabase
+        .from('billing_models')
+        .select('*, billing_model_items(*)')
+        .eq('id', modelId)
+        .single();
+
+      if (reloadError) {
+        throw new Error(reloadError.message);
+      }
+
+      return { model: this.fromRow(modelRow as BillingModelRow) };
+    } catch (error) {
+      console.error('Error updating billing model:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  async getModelVersions(modelId: string): Promise<{ versions?: BillingModelVersion[]; error?: string }> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) {
+        return { error: 'Not authenticated' };
+      }
+
+      const { data, error } = await supabase
+        .from('billing_model_versions')
+        .select('*')
+        .eq('billing_model_id', modelId)
+        .order('version_number', { ascending: false });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const versions = data.map(row => ({
+        ...row,
+        description: row.description || '',
+        type: row.type as BillingModel['type'],
+        items: (row.items || []) as unknown as BillingItem[]
+      }));
+
+      return { versions };
+    } catch (error) {
+      console.error('Error getting billing model versions:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  // Restoring never rewrites history: the old snapshot becomes a new version on top
+  async restoreVersion(modelId: string, version: BillingModelVersion): Promise<{ model?: BillingModel; error?: string }> {
+    return this.updateBillingModel(
+      modelId,
+      {
+        name: version.name,
+        description: version.description,
+        type: version.type,
+        items: version.items
+      },
+      `Restored version ${version.version_number}`,
+      version.version_number
+    );
+  }
+
+  diffModelItems(before: BillingItem[], after: BillingItem[]): BillingItemDiff[] {
+    const beforeById = new Map(before.map(item => [item.id, item]));
+    const afterIds = new Set(after.map(item => item.id));
+
+    const diffs: BillingItemDiff[] = after.map(item => {
+      const previous = beforeById.get(item.id);
+      if (!previous) {
+        return { itemId: item.id, product: item.product, status: 'added', after: item, changedFields: [] };
+      }
+
+      const changedFields = DIFFED_ITEM_FIELDS.filter(field =>
+        (previous[field] ?? '').toString().toLowerCase() !== (item[field] ?? '').toString().toLowerCase()
+      );
+
+      return {
+        itemId: item.id,
+        product: item.product,
+        status: changedFields.length > 0 ? 'changed' : 'unchanged',
+        before: previous,
+        after: item,
+        changedFields
+      };
+    });
+
+    before
+      .filter(item => !afterIds.has(item.id))
+      .forEach(item => diffs.push({ itemId: item.id, product: item.product, status: 'removed', before: item, changedFields: [] }));
+
+    return diffs;
+  }
+
+  // Field-order independent comparison, since rows come back from Postgres with jsonb keys reordered
+  hasModelChanged(
+    saved: Pick<BillingModel, 'name' | 'description' | 'type' | 'items'>,
+    draft: Pick<BillingModel, 'name' | 'description' | 'type' | 'items'>
+  ): boolean {
+    const canonical = (model: Pick<BillingModel, 'name' | 'description' | 'type' | 'items'>) => JSON.stringify({
+      name: model.name,
+      description: model.description || '',
+      type: model.type,
+      items: model.items.map(item => [
+        item.id,
+        item.product,
+        Math.round(item.unit_amount || 0),
+        (item.currency || 'usd').toLowerCase(),
+        Object.entries(item.currency_options || {}).sort(([a], [b]) => a.localeCompare(b)),
+        item.type,
+        item.interval || null,
+        item.eventName || null,
+        item.description || null,
+        item.billing_scheme || null,
+        item.billing_scheme === 'tiered'
+          ? (item.tiers || []).map(tier => [tier.up_to, tier.unit_amount ?? 0, tier.flat_amount ?? 0])
+          : null,
+        item.billing_scheme === 'tiered' ? item.tiers_mode || 'graduated' : null,
+        item.usage_type || null,
+        item.aggregate_usage || null,
+        Object.entries(item.metadata || {}).sort(([a], [b]) => a.localeCompare(b))
+      ])
+    });
+
+    return canonical(saved) !== canonical(draft);
+  }
+
+  summarizeDiff(diffs: BillingItemDiff[]): string {
+    const count = (status: BillingItemDiff['status']) => diffs.filter(diff => diff.status === status).length;
+    const parts = [
+      count('added') > 0 ? `${count('added')} added` : '',
+      count('removed') > 0 ? `${count('removed')} removed` : '',
+      count('changed') > 0 ? `${count('changed')} changed` : ''
+    ].filter(Boolean);
+
+    return parts.length > 0 ? `Items: ${parts.join(', ')}` : 'Model details updated';
+  }
+
+  // The model, its items and version 1 are written in one transaction (see create_billing_model)
+  private async insertModel(
+    user: { id: string; email?: string },
+    organizationId: string,
+    model: Omit<BillingModel, 'id' | 'created_at' | 'user_id'>,
+    legacyId?: string,
+    createdAt?: string
+  ): Promise<BillingModel> {
+    const modelId = crypto.randomUUID();
+    const itemRows = model.items.map((item, index) => this.toItemRow(user.id, organizationId, modelId, item, index));
+
+    const { error: createError } = await supabase.rpc('create_billing_model', {
+      p_model_id: modelId,
+      p_organization_id: organizationId,
+      p_name: model.name,
+      p_description: model.description || '',
+      p_type: model.type,
+      p_items: itemRows as unknown as Json,
+      p_snapshot: model.items as unknown as Json,
+      p_change_summary: legacyId ? 'Imported from browser storage' : 'Initial version',
+      p_legacy_id: legacyId,
+      p_created_at: createdAt
+    });
+
+    if (createError) {
+      throw new Error(createError.message);
+    }
+
+    const { data: modelRow, error: reloadError } = await supabase
+      .from('billing_models')
+      .select('*, billing_model_items(*)')
+      .eq('id', modelId)
+      .single();
+
+    if (reloadError) {
+      throw new Error(reloadError.message);
+    }
+
+    return this.fromRow(modelRow as BillingModelRow);
+  }
+
+  // One-time import of models saved to localStorage before they were persisted in Supabase.
+  // They land in whichever organization is active when the import runs.
+  private async importLegacyModels(user: { id: string; email?: string }, organizationId: string): Promise<void> {
+    const userId = user.id;
+    const legacyModels = this.getStoredModels();
+    const ownModels = legacyModels.filter(model => model.user_id === userId);
+    if (ownModels.length === 0) {
+      return;
+    }
+
+    const { data: imported, error } = await supabase
+      .from('billing_models')
+      .select('legacy_id')
+      .eq('user_id', userId)
+      .not('legacy_id', 'is', null);
+
+    if (error) {
+      console.error('Error checking imported billing models:', error);
+      return;
+    }
+
+    const importedIds = new Set(imported.map(row => row.legacy_id));
+    for (const model of ownModels) {
+      if (importedIds.has(model.id)) continue;
+
+      try {
+        await this.insertModel(user, organizationId, model, model.id, model.created_at);
+        console.log('Imported billing model from localStorage:', model.id);
+      } catch (importError) {
+        console.error('Error importing billing model:', model.id, importError);
+        return;
+      }
+    }
+
+    // Only drop the current user's models; other accounts on this browser import their own
+    const remaining = legacyModels.filter(model => model.user_id !== userId);
+    if (remaining.length > 0) {
+      localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(remaining));
+    } else {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
     }
   }
 
   private getStoredModels(): BillingModel[] {
     try {
-      const stored = localStorage.getItem('billing_models');
+      const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
       return stored ? JSON.parse(stored) : [];
     } catch {
       return [];
     }
   }
 
+  private toItemRow(userId: string, organizationId: string, modelId: string, item: BillingItem, position: number): TablesInsert<'billing_model_items'> {
+    return {
+      billing_model_id: modelId,
+      user_id: userId,
+      organization_id: organizationId,
+      item_key: item.id,
+      position,
+      product: item.product,
+      unit_amount: Math.round(item.unit_amount || 0),
+      currency: (item.currency || 'usd').toLowerCase(),
+      currency_options: item.currency_options && Object.keys(item.currency_options).length > 0 ? item.currency_options : null,
+      type: item.type,
+      interval: item.interval || null,
+      event_name: item.eventName || null,
+      description: item.description || null,
+      billing_scheme: item.billing_scheme || null,
+      tiers: item.billing_scheme === 'tiered' && item.tiers ? (item.tiers as unknown as Json) : null,
+      tiers_mode: item.billing_scheme === 'tiered' ? item.tiers_mode || 'graduated' : null,
+      usage_type: item.usage_type || null,
+      aggregate_usage: item.aggregate_usage || null,
+      metadata: item.metadata || {}
+    };
+  }
+
+  private fromRow(row: BillingModelRow): BillingModel {
+    const items = [...(row.billing_model_items || [])]
+      .sort((a, b) => a.position - b.position)
+      .map(item => ({
+        id: item.item_key,
+        product: item.product,
+        unit_amount: item.unit_amount,
+        currency: item.currency,
+        currency_options: (item.currency_options || undefined) as Record<string, number> | undefined,
+        type: item.type as BillingItem['type'],
+        interval: item.interval || undefined,
+        eventName: item.event_name || undefined,
+        description: item.description || undefined,
+        billing_scheme: (item.billing_scheme || undefined) as BillingItem['billing_scheme'],
+        tiers: (item.tiers || undefined) as unknown as BillingTier[] | undefined,
+        tiers_mode: (item.tiers_mode || undefined) as BillingItem['tiers_mode'],
+        usage_type: (item.usage_type || undefined) as BillingItem['usage_type'],
+        aggregate_usage: (item.aggregate_usage || undefined) as BillingItem['aggregate_usage'],
+        metadata: (item.metadata || {}) as Record<string, string>
+      }));
+
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || '',
+      type: row.type as BillingModel['type'],
+      items,
+      created_at: row.created_at,
+      user_id: row.user_id,
+      current_version: row.current_version
+    };
+  }
+
   generateStripeConfiguration(model: Pick<BillingModel, 'items'>): any {
     const config = {
       products: model.items.map(item => ({
@@ -88,7 +460,15 @@ export class BillingModelService {
         }
       })),
       prices: model.items.map(item => ({
-        unit_amount: item.unit_amount, // Already in cents
+        ...(item.billing_scheme === 'tiered' && item.tiers?.length ? {
+          tiers_mode: item.tiers_mode || 'graduated',
+          tiers: toStripeTiers(item.tiers)
+        } : {
+          unit_amount: item.unit_amount, // Already in cents
+          ...(item.currency_options && Object.keys(item.currency_options).length > 0 ? {
+            currency_options: toStripeCurrencyOptions(item.currency_options)
+          } : {})
+        }),
         currency: item.currency.toLowerCase(),
         recurring: item.type === 'recurring' && item.interval ? {
           interval: item.interval
@@ -0,0 +1,220 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { BillingModel, DeploymentPlan } from './stripeService';
+import { organizationService, type StripeMode } from './organizationService';
+import { errorMessage } from '@/lib/utils';
+
+export type DeploymentStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'partial'
+  | 'failed'
+  | 'rolled_back'
+  | 'partially_rolled_back';
+
+export type DeploymentItem = Tables<'billing_model_deployment_items'> & {
+  status: 'pending' | 'succeeded' | 'failed';
+};
+
+export interface BillingModelDeployment {
+  id: string;
+  billing_model_id: string | null;
+  model_version: number | null;
+  billing_model: Pick<BillingModel, 'name' | 'description' | 'type' | 'items'>;
+  plan: DeploymentPlan | null;
+  status: DeploymentStatus;
+  mode: StripeMode;
+  promoted_from_deployment_id: string | null;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  rollback_report: RollbackReport | null;
+  rolled_back_at: string | null;
+  items: DeploymentItem[];
+}
+
+export interface RollbackEntry {
+  item_id: string;
+  product_name: string;
+  type: 'product' | 'price' | 'meter';
+  id: string;
+  reason?: string;
+}
+
+export interface RollbackReport {
+  undone: RollbackEntry[];
+  not_undone: RollbackEntry[];
+}
+
+export interface RollbackResult extends RollbackReport {
+  status: 'rolled_back' | 'partially_rolled_back';
+  summary: {
+    undone: number;
+    not_undone: number;
+  };
+}
+
+export interface DeploymentRunResult {
+  deployment: {
+    id: string;
+    mode: StripeMode;
+    status: DeploymentStatus;
+    items_succeeded: number;
+    items_total: number;
+  };
+  summary: {
+    products_created: number;
+    prices_created: number;
+    meters_created: number;
+    resources_reused: number;
+    errors: number;
+  };
+  results: {
+    errors: string[];
+  };
+}
+
+class DeploymentService {
+  async getDeployments(billingModelId?: string): Promise<{ deployments?: BillingModelDeployment[]; error?: string }> {
+    try {
+      const organizationId = await organizationService.requireActiveOrganizationId();
+
+      let query = supabase
+        .from('billing_model_deployments')
+        .select('*, billing_model_deployment_items(*)')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: false });
+
+      if (billingModelId) {
+        query = query.eq('billing_model_id', billingModelId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const deployments = data.map(({ billing_model_deployment_items, ...row }) => ({
+        ...row,
+        billing_model: row.billing_model as unknown as BillingModelDeployment['billing_model'],
+        plan: row.plan as unknown as DeploymentPlan | null,
+        rollback_report: row.rollback_report as unknown as RollbackReport | null,
+        status: row.status as DeploymentStatus,
+        mode: row.mode as StripeMode,
+        items: billing_model_deployment_items as DeploymentItem[]
+      }));
+
+      return { deployments };
+    } catch (error) {
+      console.error('Error getting deployments:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  // Continues only the items that are still pending or failed; finished items are skipped server-side
+  async resumeDeployment(deploymentId: string): Promise<{ result?: DeploymentRunResult; error?: string }> {
+    try {
+      const { data, error } = await supabase.functions.invoke('deploy-billing-model', {
+        body: { deploymentId }
+      });
+
+      if (error) {
+        throw new Error(error.message || 'Failed to resume deployment');
+      }
+
+      if (!data?.success) {
+        throw new Error(data?.error || 'Unknown error occurred');
+      }
+
+      return { result: data };
+    } catch (error) {
+      console.error('Error resuming deployment:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  // Plans the test deployment's snapshot against the live account without writing anything
+  async previewPromotion(deploymentId: string): Promise<{ plan?: DeploymentPlan; error?: string }> {
+    try {
+      const { data, error } = await supabase.functions.invoke('deploy-billing-model', {
+        body: { promoteFromDeploymentId: deploymentId, dryRun: true }
+      });
+
+      if (error) {
+        const details = await error.context?.json?.().catch(() => null);
+        throw new Error(details?.error || error.message || 'Failed to plan promotion');
+      }
+
+      if (!data?.success) {
+        throw new Error(data?.error || 'Unknown error occurred');
+      }
+
+      return { plan: data.plan };
+    } catch (error) {
+      console.error('Error planning promotion:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  // Replays a completed test deployment against the live account as a new live deployment
+  async promoteDeployment(deploymentId: string): Promise<{ result?: DeploymentRunResult; error?: string }> {
+    try {
+      const { data, error } = await supabase.functions.invoke('deploy-billing-model', {
+        body: { promoteFromDeploymentId: deploymentId }
+      });
+
+      if (error) {
+        const details = await error.context?.json?.().catch(() => null);
+        throw new Error(details?.error || error.message || 'Failed to promote deployment');
+      }
+
+      if (!data?.success) {
+        throw new Error(data?.error || 'Unknown error occurred');
+      }
+
+      return { result: data };
+    } catch (error) {
+      console.error('Error promoting deployment:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  // Archives products, deactivates prices and meters this deployment created; reused objects are left alone
+  async rollbackDeployment(deploymentId: string): Promise<{ result?: RollbackResult; error?: string }> {
+    try {
+      const { data, error } = await supabase.functions.invoke('rollback-deployment', {
+        body: { deploymentId }
+      });
+
+      if (error) {
+        throw new Error(error.message || 'Failed to roll back deployment');
+      }
+
+      if (!data?.success) {
+        throw new Error(data?.error || 'Unknown error occurred');
+      }
+
+      return { result: data };
+    } catch (error) {
+      console.error('Error rolling back deployment:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  canRollback(deployment: Pick<BillingModelDeployment, 'status'>): boolean {
+    return deployment.status !== 'pending' && deployment.status !== 'rolled_back';
+  }
+
+  canResume(deployment: Pick<BillingModelDeployment, 'status'>): boolean {
+    return deployment.status === 'partial' || deployment.status === 'failed' || deployment.status === 'running';
+  }
+
+  canPromote(deployment: Pick<BillingModelDeployment, 'status' | 'mode'>): boolean {
+    return deployment.mode === 'test' && deployment.status === 'completed';
+  }
+}
+
+export const deploymentService = new DeploymentService();
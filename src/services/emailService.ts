@@ -5,7 +5,7 @@ export interface EmailNotification {
   to: string;
   subject: string;
   message: string;
-  type: 'billing_update' | 'system_maintenance' | 'general_alert';
+  type: 'billing_update' | 'system_maintenance' | 'general_alert' | 'usage_alert';
   metadata?: Record<string, any>;
 }
 
@@ -0,0 +1,323 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { AppRole } from '@/hooks/useUserRole';
+import { errorMessage } from '@/lib/utils';
+
+const ACTIVE_ORGANIZATION_KEY = 'active_organization_id';
+const STRIPE_MODE_KEY = 'stripe_mode';
+
+// Members hold the same roles as user_roles, scoped to the organization
+export type OrganizationRole = AppRole;
+
+export type StripeMode = 'test' | 'live';
+
+export interface Organization {
+  id: string;
+  name: string;
+  stripe_account_id: string | null;
+  created_at: string;
+  role: OrganizationRole;
+}
+
+export interface OrganizationMember {
+  id: string;
+  user_id: string;
+  email: string | null;
+  role: OrganizationRole;
+  created_at: string;
+}
+
+export interface OrganizationInvitation {
+  id: string;
+  organization_id: string;
+  organization_name: string | null;
+  email: string;
+  role: OrganizationRole;
+  expires_at: string;
+  created_at: string;
+}
+
+class OrganizationService {
+  // The selection is only a UI preference; RLS decides what the user can actually read
+  async getActiveOrganizationId(): Promise<string | null> {
+    const stored = localStorage.getItem(ACTIVE_ORGANIZATION_KEY);
+    if (stored) {
+      return stored;
+    }
+
+    const { data: organizations } = await this.listOrganizations();
+    const fallback = organizations?.[0]?.id ?? null;
+    if (fallback) {
+      this.setActiveOrganizationId(fallback);
+    }
+    return fallback;
+  }
+
+  async requireActiveOrganizationId(): Promise<string> {
+    const organizationId = await this.getActiveOrganizationId();
+    if (!organizationId) {
+      throw new Error('No organization selected');
+    }
+    return organizationId;
+  }
+
+  setActiveOrganizationId(organizationId: string | null) {
+    if (organizationId) {
+      localStorage.setItem(ACTIVE_ORGANIZATION_KEY, organizationId);
+    } else {
+      localStorage.removeItem(ACTIVE_ORGANIZATION_KEY);
+    }
+  }
+
+  // Which of the organization's Stripe connections the app talks to; test unless live was picked explicitly
+  getStripeMode(): StripeMode {
+    return localStorage.getItem(STRIPE_MODE_KEY) === 'live' ? 'live' : 'test';
+  }
+
+  setStripeMode(mode: StripeMode) {
+    localStorage.setItem(STRIPE_MODE_KEY, mode);
+  }
+
+  async listOrganizations(): Promise<{ data?: Organization[]; error?: string }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('role, organizations(id, name, stripe_account_id, created_at)')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const organizations = (data || [])
+        .filter(row => row.organizations)
+        .map(row => ({ ...row.organizations!, role: row.role as OrganizationRole }));
+
+      return { data: organizations };
+    } catch (error) {
+      console.error('Error listing organizations:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  // The creator is added as owner by a database trigger
+  async createOrganization(name: string): Promise<{ data?: Organization; error?: string }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { data, error } = await supabase
+        .from('organizations')
+        .insert({ name: name.trim(), created_by: user.id })
+        .select('id, name, stripe_account_id, created_at')
+        .single();
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return { data: { ...data, role: 'owner' } };
+    } catch (error) {
+      console.error('Error creating organization:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  async updateOrganization(
+    organizationId: string,
+    updates: { name?: string }
+  ): Promise<{ error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('organizations')
+        .update(updates)
+        .eq('id', organizationId);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return {};
+    } catch (error) {
+      console.error('Error updating organization:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  async listMembers(organizationId: string): Promise<{ data?: OrganizationMember[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('id, user_id, role, created_at')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('id, email')
+        .in('id', (data || []).map(row => row.user_id));
+      const emails = new Map((profiles || []).map(profile => [profile.id, profile.email]));
+
+      return {
+        data: (data || []).map(row => ({
+          ...row,
+          role: row.role as OrganizationRole,
+          email: emails.get(row.user_id) ?? null
+        }))
+      };
+    } catch (error) {
+      console.error('Error listing organization members:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  async setMemberRole(memberId: string, role: OrganizationRole): Promise<{ error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .update({ role })
+        .eq('id', memberId);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return {};
+    } catch (error) {
+      console.error('Error changing member role:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  // Also used to leave an organization; the last owner cannot be removed
+  async removeMember(memberId: string): Promise<{ error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .delete()
+        .eq('id', memberId);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return {};
+    } catch (error) {
+      console.error('Error removing organization member:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  async inviteMember(organizationId: string, email: string, role: OrganizationRole): Promise<{ error?: string }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('organization_invitations')
+        .insert({
+          organization_id: organizationId,
+          email: email.trim().toLowerCase(),
+          role,
+          invited_by: user.id
+        });
+
+      if (error) {
+        throw new Error(error.code === '23505' ? `${email} has already been invited` : error.message);
+      }
+
+      return {};
+    } catch (error) {
+      console.error('Error inviting organization member:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  // Pending invitations sent by an organization, or addressed to the current user when no id is given
+  async listInvitations(organizationId?: string): Promise<{ data?: OrganizationInvitation[]; error?: string }> {
+    try {
+      let query = supabase
+        .from('organization_invitations')
+        .select('id, organization_id, email, role, expires_at, created_at, organizations(name)')
+        .is('accepted_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false });
+
+      if (organizationId) {
+        query = query.eq('organization_id', organizationId);
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user?.email) {
+          throw new Error('User not authenticated');
+        }
+        query = query.ilike('email', user.email);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return {
+        data: (data || []).map(({ organizations, ...row }) => ({
+          ...row,
+          role: row.role as OrganizationRole,
+          organization_name: organizations?.name ?? null
+        }))
+      };
+    } catch (error) {
+      console.error('Error listing organization invitations:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  async acceptInvitation(invitationId: string): Promise<{ organizationId?: string; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('accept_organization_invitation', { p_invitation_id: invitationId });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return { organizationId: data };
+    } catch (error) {
+      console.error('Error accepting organization invitation:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  // Revoking (by an owner) and declining (by the invitee) are the same delete
+  async deleteInvitation(invitationId: string): Promise<{ error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('organization_invitations')
+        .delete()
+        .eq('id', invitationId);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return {};
+    } catch (error) {
+      console.error('Error deleting organization invitation:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+}
+
+export const organizationService = new OrganizationService();
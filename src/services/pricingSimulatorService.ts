@@ -0,0 +1,416 @@
+import type { BillingItem, BillingModel, BillingTier } from './stripeService';
+
+export interface UsageScenario {
+  seats: number;
+  months: number;
+  monthlyGrowth: number; // Percentage applied to seats and usage every period after the first
+  events: Record<string, number>; // Event name -> units per month in the first period
+}
+
+export interface SimulatedLine {
+  itemId: string;
+  product: string;
+  kind: 'recurring' | 'usage' | 'overage' | 'one_time';
+  quantity: number;
+  billableQuantity: number;
+  amount: number; // In cents
+}
+
+export interface SimulatedPeriod {
+  period: number;
+  label: string;
+  seats: number;
+  lines: SimulatedLine[];
+  total: number; // In cents
+}
+
+export interface SimulationResult {
+  currency: string;
+  mixedCurrencies: boolean;
+  periods: SimulatedPeriod[];
+  total: number;
+  averagePerPeriod: number;
+}
+
+export interface PeriodUsage {
+  label?: string;
+  seats: number;
+  events: Record<string, number>;
+}
+
+export interface ScenarioMeter {
+  eventName: string;
+  label: string;
+  includedUsage?: number;
+}
+
+export interface UsageProfile {
+  id: string;
+  name: string;
+  seats: number;
+  events: Record<string, number>; // Event name -> units per month
+}
+
+export type ComparedModel = Pick<BillingModel, 'id' | 'name' | 'type' | 'items'>;
+
+export interface ProfileComparison {
+  profile: UsageProfile;
+  monthlyAmounts: Record<string, number>; // Model id -> average monthly invoice in cents
+  cheapestModelId: string;
+}
+
+export interface BreakEvenPoint {
+  modelIds: [string, string];
+  position: number; // 0 = first profile, 1 = last profile
+  seats: number;
+  events: Record<string, number>;
+  monthlyAmount: number;
+  cheaperBefore: string;
+  cheaperAfter: string;
+}
+
+export interface CostCurvePoint {
+  position: number;
+  monthlyAmounts: Record<string, number>;
+}
+
+type SimulatedModel = Pick<BillingModel, 'type' | 'items'>;
+
+const USAGE_LIMIT_PREFIX = 'usage_limit_';
+
+// Recurring charges per monthly period; yearly items are billed in full every twelfth period
+const PERIODS_PER_MONTH: Record<string, number> = {
+  day: 365 / 12,
+  week: 52 / 12,
+  month: 1
+};
+
+const parseLimit = (value?: string): number | null => {
+  if (!value || value === 'unlimited') return null;
+  const limit = parseInt(value);
+  return Number.isFinite(limit) && limit > 0 ? limit : null;
+};
+
+export class PricingSimulatorService {
+  // Meters a scenario needs usage for: metered items plus base-plan allowances such as usage_limit_transactions
+  getScenarioMeters(model: SimulatedModel): ScenarioMeter[] {
+    const meters = new Map<string, ScenarioMeter>();
+
+    model.items
+      .filter(item => item.type === 'metered' && item.eventName)
+      .forEach(item => {
+        meters.set(item.eventName!, {
+          eventName: item.eventName!,
+          label: item.product,
+          includedUsage: parseLimit(item.metadata?.included_usage) ?? undefined
+        });
+      });
+
+    this.getBasePlanAllowances(model).forEach(({ meter, limit }) => {
+      if (!meters.has(meter)) {
+        meters.set(meter, { eventName: meter, label: meter.replace(/_/g, ' '), includedUsage: limit });
+      }
+    });
+
+    return [...meters.values()];
+  }
+
+  defaultScenario(model: SimulatedModel): UsageScenario {
+    const events = Object.fromEntries(
+      this.getScenarioMeters(model).map(meter => [
+        meter.eventName,
+        meter.includedUsage ? Math.round(meter.includedUsage * 1.5) : 1000
+      ])
+    );
+
+    return { seats: 10, months: 12, monthlyGrowth: 0, events };
+  }
+
+  simulate(model: SimulatedModel, scenario: UsageScenario): SimulationResult {
+    const usages = Array.from({ length: Math.max(1, scenario.months) }, (_, index) => {
+      const growth = Math.pow(1 + (scenario.monthlyGrowth || 0) / 100, index);
+      return {
+        label: `Month ${index + 1}`,
+        seats: Math.round(scenario.seats * growth),
+        events: Object.fromEntries(
+          Object.entries(scenario.events).map(([eventName, units]) => [eventName, Math.round((units || 0) * growth)])
+        )
+      };
+    });
+
+    return this.simulatePeriods(model, usages);
+  }
+
+  // Prices consecutive monthly periods of known usage; the first entry is treated as the first billing period
+  simulatePeriods(model: SimulatedModel, usages: PeriodUsage[]): SimulationResult {
+    const currencies = [...new Set(model.items.map(item => (item.currency || 'usd').toLowerCase()))];
+
+    const periods: SimulatedPeriod[] = usages.map((periodUsage, index) => {
+      const period = index + 1;
+      const usage = (eventName: string) => periodUsage.events[eventName] || 0;
+
+      const lines = [
+        ...model.items
+          .map(item => this.simulateItem(model, item, period, periodUsage.seats, usage))
+          .filter((line): line is SimulatedLine => line !== null),
+        ...this.simulateBasePlanOverages(model, usage)
+      ];
+
+      return {
+        period,
+        label: periodUsage.label || `Month ${period}`,
+        seats: periodUsage.seats,
+        lines,
+        total: lines.reduce((sum, line) => sum + line.amount, 0)
+      };
+    });
+
+    const total = periods.reduce((sum, period) => sum + period.total, 0);
+
+    return {
+      currency: currencies[0] || 'usd',
+      mixedCurrencies: currencies.length > 1,
+      periods,
+      total,
+      averagePerPeriod: periods.length > 0 ? total / periods.length : 0
+    };
+  }
+
+  // Light / median / heavy customers around each meter's allowance, shared by every compared model
+  defaultProfiles(models: SimulatedModel[]): UsageProfile[] {
+    const events = models.reduce<Record<string, number>>(
+      (all, model) => ({ ...this.defaultScenario(model).events, ...all }),
+      {}
+    );
+    const scaled = (factor: number) =>
+      Object.fromEntries(Object.entries(events).map(([eventName, units]) => [eventName, Math.round(units * factor)]));
+
+    return [
+      { id: 'light', name: 'Light', seats: 3, events: scaled(0.25) },
+      { id: 'median', name: 'Median', seats: 10, events: scaled(1) },
+      { id: 'heavy', name: 'Heavy', seats: 50, events: scaled(4) }
+    ];
+  }
+
+  // Averaged over a year so yearly and one-time charges are comparable with monthly ones
+  monthlyCost(model: SimulatedModel, profile: Pick<UsageProfile, 'seats' | 'events'>): number {
+    return this.simulate(model, { seats: profile.seats, events: profile.events, months: 12, monthlyGrowth: 0 }).averagePerPeriod;
+  }
+
+  compareModels(models: ComparedModel[], profiles: UsageProfile[]): ProfileComparison[] {
+    return profiles.map(profile => {
+      const monthlyAmounts = Object.fromEntries(models.map(model => [model.id, this.monthlyCost(model, profile)]));
+      const cheapestModelId = models.reduce((cheapest, model) =>
+        monthlyAmounts[model.id] < monthlyAmounts[cheapest.id] ? model : cheapest
+      ).id;
+
+      return { profile, monthlyAmounts, cheapestModelId };
+    });
+  }
+
+  // Usage moving linearly through the profiles in order, e.g. light -> median -> heavy
+  interpolateProfile(profiles: UsageProfile[], position: number): Pick<UsageProfile, 'seats' | 'events'> {
+    if (profiles.length === 1) return profiles[0];
+
+    const scaled = Math.min(Math.max(position, 0), 1) * (profiles.length - 1);
+    const index = Math.min(Math.floor(scaled), profiles.length - 2);
+    const fraction = scaled - index;
+    const from = profiles[index];
+    const to = profiles[index + 1];
+    const eventNames = new Set([...Object.keys(from.events), ...Object.keys(to.events)]);
+
+    return {
+      seats: Math.round(from.seats + (to.seats - from.seats) * fraction),
+      events: Object.fromEntries(
+        [...eventNames].map(eventName => {
+          const start = from.events[eventName] || 0;
+          const end = to.events[eventName] || 0;
+          return [eventName, Math.round(start + (end - start) * fraction)];
+        })
+      )
+    };
+  }
+
+  costCurve(models: ComparedModel[], profiles: UsageProfile[], steps = 40): CostCurvePoint[] {
+    return Array.from({ length: steps + 1 }, (_, step) => {
+      const position = step / steps;
+      const profile = this.interpolateProfile(profiles, position);
+      return {
+        position,
+        monthlyAmounts: Object.fromEntries(models.map(model => [model.id, this.monthlyCost(model, profile)]))
+      };
+    });
+  }
+
+  // Points along the profile path where the cheaper of two models flips, refined by bisection
+  findBreakEvens(models: ComparedModel[], profiles: UsageProfile[], steps = 100): BreakEvenPoint[] {
+    if (profiles.length === 0) return [];
+
+    const points: BreakEvenPoint[] = [];
+    const costAt = (model: ComparedModel, position: number) =>
+      this.monthlyCost(model, this.interpolateProfile(profiles, position));
+
+    for (let i = 0; i < models.length; i++) {
+      for (let j = i + 1; j < models.length; j++) {
+        const [a, b] = [models[i], models[j]];
+        const difference = (position: number) => costAt(a, position) - costAt(b, position);
+
+        let previousPosition = 0;
+        let previousDifference = difference(0);
+
+        for (let step = 1; step <= steps; step++) {
+          const position = step / steps;
+          const currentDifference = difference(position);
+
+          if (previousDifference !== 0 && currentDifference !== 0 && Math.sign(currentDifference) !== Math.sign(previousDifference)) {
+            let low = previousPosition;
+            let high = position;
+            for (let iteration = 0; iteration < 20; iteration++) {
+              const middle = (low + high) / 2;
+              if (Math.sign(difference(middle)) === Math.sign(previousDifference)) {
+                low = middle;
+              } else {
+                high = middle;
+              }
+            }
+
+            const profile = this.interpolateProfile(profiles, high);
+            points.push({
+              modelIds: [a.id, b.id],
+              position: high,
+              seats: profile.seats,
+              events: profile.events,
+              monthlyAmount: costAt(a, high),
+              cheaperBefore: previousDifference < 0 ? a.id : b.id,
+              cheaperAfter: currentDifference < 0 ? a.id : b.id
+            });
+          }
+
+          if (currentDifference !== 0) {
+            previousDifference = currentDifference;
+          }
+          previousPosition = position;
+        }
+      }
+    }
+
+    return points.sort((x, y) => x.position - y.position);
+  }
+
+  // Tier amounts are in cents; graduated prices each tier's share, volume prices every unit at the reached tier
+  priceTiers(tiers: BillingTier[], mode: 'graduated' | 'volume', quantity: number): number {
+    if (quantity <= 0) return 0;
+
+    if (mode === 'volume') {
+      const tier = tiers.find(t => t.up_to === 'inf' || quantity <= t.up_to) || tiers[tiers.length - 1];
+      return quantity * (tier.unit_amount ?? 0) + (tier.flat_amount ?? 0);
+    }
+
+    let amount = 0;
+    let previousBound = 0;
+    for (const tier of tiers) {
+      if (quantity <= previousBound) break;
+      const upperBound = tier.up_to === 'inf' ? quantity : Math.min(quantity, tier.up_to);
+      amount += (upperBound - previousBound) * (tier.unit_amount ?? 0) + (tier.flat_amount ?? 0);
+      if (tier.up_to === 'inf') break;
+      previousBound = tier.up_to;
+    }
+    return amount;
+  }
+
+  private simulateItem(
+    model: SimulatedModel,
+    item: BillingItem,
+    period: number,
+    seats: number,
+    usage: (eventName: string) => number
+  ): SimulatedLine | null {
+    const isTiered = item.billing_scheme === 'tiered' && !!item.tiers?.length;
+    const charge = (quantity: number, billableQuantity: number, unitAmount: number) =>
+      isTiered
+        ? this.priceTiers(item.tiers!, item.tiers_mode || 'graduated', quantity)
+        : billableQuantity * unitAmount;
+
+    if (item.type === 'one_time') {
+      if (period !== 1) return null;
+      return { itemId: item.id, product: item.product, kind: 'one_time', quantity: 1, billableQuantity: 1, amount: item.unit_amount };
+    }
+
+    if (item.type === 'metered') {
+      const quantity = item.eventName ? usage(item.eventName) : 0;
+      // Tiered items already encode their free allowance in the first tier
+      const included = isTiered ? 0 : parseLimit(item.metadata?.included_usage) ?? 0;
+      const billableQuantity = Math.max(0, quantity - included);
+      // Sub-cent overage rates are rounded away in unit_amount, so fall back to the dollar meter_rate
+      const unitAmount = item.unit_amount || parseFloat(item.metadata?.meter_rate || '0') * 100;
+
+      return {
+        itemId: item.id,
+        product: item.product,
+        kind: included > 0 || item.metadata?.overage_item === 'true' ? 'overage' : 'usage',
+        quantity,
+        billableQuantity,
+        amount: charge(quantity, billableQuantity, unitAmount)
+      };
+    }
+
+    const interval = item.interval || 'month';
+    if (interval === 'year' && (period - 1) % 12 !== 0) return null;
+
+    const isPerSeat = item.metadata?.seat_type === 'per_seat' || model.type === 'per-seat';
+    if (isPerSeat && !this.seatsInRange(item, seats)) return null;
+
+    const quantity = isPerSeat ? seats : 1;
+    const multiplier = PERIODS_PER_MONTH[interval] ?? 1;
+
+    return {
+      itemId: item.id,
+      product: item.product,
+      kind: 'recurring',
+      quantity,
+      billableQuantity: quantity,
+      amount: charge(quantity, quantity, item.unit_amount) * multiplier
+    };
+  }
+
+  // Seat brackets from PerSeatForm (min_seats / max_seats) only apply when the seat count falls inside them
+  private seatsInRange(item: BillingItem, seats: number): boolean {
+    const min = parseInt(item.metadata?.min_seats || '0') || 0;
+    const max = parseLimit(item.metadata?.max_seats);
+    return seats >= min && (max === null || seats <= max);
+  }
+
+  private getBasePlanAllowances(model: SimulatedModel): { item: BillingItem; meter: string; limit: number }[] {
+    return model.items
+      .filter(item => item.type === 'recurring' && item.metadata?.overage_rate)
+      .flatMap(item =>
+        Object.entries(item.metadata || {})
+          .filter(([key]) => key.startsWith(USAGE_LIMIT_PREFIX))
+          .map(([key, value]) => ({ item, meter: key.slice(USAGE_LIMIT_PREFIX.length), limit: parseLimit(value) }))
+          .filter((allowance): allowance is { item: BillingItem; meter: string; limit: number } => allowance.limit !== null)
+      );
+  }
+
+  // Base plans carry their allowance and overage_rate (in dollars) in metadata; a metered item for the same
+  // event already bills that usage, so those meters are skipped to avoid charging overage twice
+  private simulateBasePlanOverages(model: SimulatedModel, usage: (eventName: string) => number): SimulatedLine[] {
+    const meteredEvents = new Set(model.items.filter(item => item.type === 'metered').map(item => item.eventName));
+
+    return this.getBasePlanAllowances(model)
+      .filter(({ meter }) => !meteredEvents.has(meter))
+      .map(({ item, meter, limit }) => {
+        const quantity = usage(meter);
+        const billableQuantity = Math.max(0, quantity - limit);
+        return {
+          itemId: `${item.id}:${meter}`,
+          product: `${item.product} (${meter.replace(/_/g, ' ')} overage)`,
+          kind: 'overage' as const,
+          quantity,
+          billableQuantity,
+          amount: billableQuantity * parseFloat(item.metadata!.overage_rate) * 100
+        };
+      });
+  }
+}
+
+export const pricingSimulatorService = new PricingSimulatorService();
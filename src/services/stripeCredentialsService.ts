@@ -0,0 +1,74 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { StripeMode } from '@/services/organizationService';
+import { errorMessage } from '@/lib/utils';
+
+export interface StripeConnection {
+  connected: boolean;
+  account_id?: string;
+  account_name?: string | null;
+  key_last4?: string;
+  mode?: StripeMode;
+  connected_at?: string;
+  rotated_at?: string | null;
+}
+
+// The secret key only travels once, from the connect form to manage-stripe-credentials;
+// it is never stored in or returned to the browser
+class StripeCredentialsService {
+  private async invoke(body: Record<string, unknown>): Promise<StripeConnection> {
+    const { data, error } = await supabase.functions.invoke('manage-stripe-credentials', { body });
+
+    if (error) {
+      // A 403 carries the reason in the response body
+      const details = await error.context?.json?.().catch(() => null);
+      throw new Error(details?.error || error.message || 'Failed to manage Stripe connection');
+    }
+
+    if (!data?.success) {
+      throw new Error(data?.error || 'Unknown error occurred');
+    }
+
+    const { success: _success, ...connection } = data;
+    return connection;
+  }
+
+  async getStatus(organizationId: string, mode: StripeMode): Promise<{ connection?: StripeConnection; error?: string }> {
+    try {
+      return { connection: await this.invoke({ action: 'status', organizationId, mode }) };
+    } catch (error) {
+      console.error('Error checking Stripe connection:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  async connect(organizationId: string, mode: StripeMode, secretKey: string): Promise<{ connection?: StripeConnection; error?: string }> {
+    try {
+      return { connection: await this.invoke({ action: 'connect', organizationId, mode, secretKey: secretKey.trim() }) };
+    } catch (error) {
+      console.error('Error connecting Stripe:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  // Replaces the key for the already connected account, e.g. after rolling it in the Stripe dashboard
+  async rotate(organizationId: string, mode: StripeMode, secretKey: string): Promise<{ connection?: StripeConnection; error?: string }> {
+    try {
+      return { connection: await this.invoke({ action: 'rotate', organizationId, mode, secretKey: secretKey.trim() }) };
+    } catch (error) {
+      console.error('Error rotating Stripe key:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  async revoke(organizationId: string, mode: StripeMode): Promise<{ error?: string }> {
+    try {
+      await this.invoke({ action: 'revoke', organizationId, mode });
+      return {};
+    } catch (error) {
+      console.error('Error revoking Stripe key:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+}
+
+export const stripeCredentialsService = new StripeCredentialsService();
@@ -1,5 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
 import { billingCreditsService } from './billingCreditsService';
+import { organizationService } from './organizationService';
 
 export interface StripeProduct {
   id: string;
@@ -37,6 +38,11 @@ export interface StripePrice {
   type: 'one_time' | 'recurring';
   unit_amount: number;
   unit_amount_decimal: string;
+  currency_options?: Record<string, {
+    unit_amount: number | null;
+    unit_amount_decimal?: string | null;
+    tax_behavior?: 'inclusive' | 'exclusive' | 'unspecified';
+  }>;
   interval?: 'month' | 'year' | 'week' | 'day';
 }
 
@@ -48,6 +54,13 @@ export interface BillingModel {
   items: BillingItem[];
   created_at: string;
   user_id: string;
+  current_version?: number;
+}
+
+export interface BillingTier {
+  up_to: number | 'inf'; // Upper bound in units; the last tier must be 'inf'
+  unit_amount?: number; // Per-unit amount in cents, may be fractional for sub-cent rates
+  flat_amount?: number; // Flat fee in cents charged once the tier is reached
 }
 
 export interface BillingItem {
@@ -55,37 +68,69 @@ export interface BillingItem {
   product: string;
   unit_amount: number; // Amount in cents (Stripe format)
   currency: string;
+  currency_options?: Record<string, number>; // Additional currencies, lowercase code -> amount in cents
   type: 'metered' | 'recurring' | 'one_time';
   interval?: string;
   eventName?: string;
   description?: string;
   billing_scheme?: 'per_unit' | 'tiered';
+  tiers?: BillingTier[];
+  tiers_mode?: 'graduated' | 'volume';
   usage_type?: 'metered' | 'licensed';
   aggregate_usage?: 'sum' | 'last_during_period' | 'last_ever' | 'max';
   metadata?: Record<string, string>;
 }
 
-class StripeService {
-  private getApiKey(): string | null {
-    return localStorage.getItem('stripe_api_key');
-  }
+export type DeploymentPlanAction = 'create' | 'reuse' | 'untouched';
+
+// What deploy-billing-model reports about each planned price or meter
+export interface DeploymentPlanDetails {
+  unit_amount?: number | null;
+  currency?: string;
+  currency_options?: Record<string, { unit_amount: number }>;
+  interval?: string;
+  usage_type?: string;
+  billing_scheme?: string;
+  tiers?: unknown[];
+  event_name?: string;
+  aggregation?: string;
+}
 
+export interface DeploymentPlanEntry {
+  item_id: string | null;
+  action: DeploymentPlanAction;
+  stripe_id?: string;
+  name: string;
+  details?: DeploymentPlanDetails;
+}
+
+export interface DeploymentPlan {
+  products: DeploymentPlanEntry[];
+  prices: DeploymentPlanEntry[];
+  meters: DeploymentPlanEntry[];
+  summary: {
+    to_create: number;
+    to_reuse: number;
+    untouched: number;
+  };
+}
+
+class StripeService {
   async createProduct(data: {
     name: string;
     description?: string;
     type?: 'service' | 'good';
     metadata?: Record<string, string>;
   }): Promise<{ product?: any; error?: string }> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      return { error: 'Stripe API key not configured' };
-    }
-
     try {
+      const organizationId = await organizationService.getActiveOrganizationId();
+      const mode = organizationService.getStripeMode();
+
       const { data: result, error } = await supabase.functions.invoke('create-stripe-product', {
         body: { 
           ...data, 
-          apiKey,
+          organizationId,
+          mode,
           type: data.type || 'service',
           metadata: {
             created_via: 'stripe_setup_pilot',
@@ -108,23 +153,24 @@ class StripeService {
 
   async createPrice(data: {
     product: string;
-    unit_amount: number;
+    unit_amount: number; // In cents, like every amount create-stripe-price takes
     currency: string;
+    currency_options?: Record<string, number>; // Currency code -> amount in cents
     recurring?: {
       interval: 'month' | 'year' | 'week' | 'day';
       interval_count?: number;
     };
     billing_scheme?: 'per_unit' | 'tiered';
+    tiers?: BillingTier[];
+    tiers_mode?: 'graduated' | 'volume';
     usage_type?: 'metered' | 'licensed';
     aggregate_usage?: 'sum' | 'last_during_period' | 'last_ever' | 'max';
     metadata?: Record<string, string>;
   }): Promise<{ price?: any; error?: string }> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      return { error: 'Stripe API key not configured' };
-    }
-
     try {
+      const organizationId = await organizationService.getActiveOrganizationId();
+      const mode = organizationService.getStripeMode();
+
       // Ensure unit_amount is an integer (Stripe requirement)
       const unit_amount = Math.round(data.unit_amount);
       
@@ -135,7 +181,8 @@ class StripeService {
         ...data,
         unit_amount,
         currency,
-        apiKey,
+        organizationId,
+        mode,
         metadata: {
           created_via: 'stripe_setup_pilot',
           ...data.metadata
@@ -172,12 +219,10 @@ class StripeService {
       event_payload_key: string;
     };
   }): Promise<{ meter?: any; error?: string }> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      return { error: 'Stripe API key not configured' };
-    }
-
     try {
+      const organizationId = await organizationService.getActiveOrganizationId();
+      const mode = organizationService.getStripeMode();
+
       const meterData = {
         display_name: data.display_name,
         event_name: data.event_name,
@@ -191,7 +236,8 @@ class StripeService {
         value_settings: data.value_settings || {
           event_payload_key: 'value'
         },
-        apiKey
+        organizationId,
+        mode
       };
 
       const { data: result, error } = await supabase.functions.invoke('create-stripe-meter', {
@@ -211,11 +257,6 @@ class StripeService {
   }
 
   async deployBillingModel(billingModel: any): Promise<{ results?: any; error?: string }> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      return { error: 'Stripe API key not configured' };
-    }
-
     try {
       // Validate and format billing model data according to Stripe requirements
       const formattedBillingModel = {
@@ -238,8 +279,10 @@ class StripeService {
         }))
       };
 
+      const organizationId = await organizationService.requireActiveOrganizationId();
+
       const { data: result, error } = await supabase.functions.invoke('deploy-billing-model', {
-        body: { billingModel: formattedBillingModel, apiKey }
+        body: { billingModel: formattedBillingModel, organizationId }
       });
 
       if (error) {
@@ -255,14 +298,12 @@ class StripeService {
   }
 
   async retrievePrice(priceId: string): Promise<{ price?: StripePrice; error?: string }> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      return { error: 'Stripe API key not configured' };
-    }
-
     try {
+      const organizationId = await organizationService.getActiveOrganizationId();
+      const mode = organizationService.getStripeMode();
+
       const { data: result, error } = await supabase.functions.invoke('retrieve-stripe-price', {
-        body: { price_id: priceId, apiKey }
+        body: { price_id: priceId, organizationId, mode }
       });
 
       if (error) {
@@ -282,15 +323,14 @@ class StripeService {
     active?: boolean;
     metadata?: Record<string, string>;
     tax_behavior?: 'inclusive' | 'exclusive' | 'unspecified';
+    currency_options?: Record<string, number>;
   }): Promise<{ price?: StripePrice; error?: string }> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      return { error: 'Stripe API key not configured' };
-    }
-
     try {
+      const organizationId = await organizationService.getActiveOrganizationId();
+      const mode = organizationService.getStripeMode();
+
       const { data: result, error } = await supabase.functions.invoke('update-stripe-price', {
-        body: { price_id: priceId, updates, apiKey }
+        body: { price_id: priceId, updates, organizationId, mode }
       });
 
       if (error) {
@@ -315,11 +355,6 @@ class StripeService {
   }
 
   async listProducts(): Promise<{ products?: StripeProduct[]; error?: string }> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      return { error: 'Stripe API key not configured' };
-    }
-
     try {
       // For now, return empty array since we'd need another edge function to list products
       // In a real implementation, you'd create a list-stripe-products edge function
@@ -331,14 +366,12 @@ class StripeService {
   }
 
   async checkConnection(): Promise<{ connected?: boolean; error?: string }> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      return { connected: false, error: 'No API key provided' };
-    }
-
     try {
+      const organizationId = await organizationService.getActiveOrganizationId();
+      const mode = organizationService.getStripeMode();
+
       const { data: result, error } = await supabase.functions.invoke('check-stripe-connection', {
-        body: { apiKey }
+        body: { organizationId, mode }
       });
 
       if (error) {
@@ -413,9 +446,21 @@ class StripeService {
       errors.push('Product name is required');
     }
     
-    if (!item.unit_amount || item.unit_amount <= 0) {
+    if (item.billing_scheme === 'tiered') {
+      errors.push(...this.validateTiers(item.tiers));
+      if (item.type === 'one_time') {
+        errors.push('Tiered pricing requires a recurring or metered item');
+      }
+    } else if (!item.unit_amount || item.unit_amount <= 0) {
       errors.push('Unit amount must be greater than 0');
     }
+
+    if (item.currency_options && Object.keys(item.currency_options).length > 0) {
+      errors.push(...this.validateCurrencyOptions(item.currency, item.currency_options));
+      if (item.billing_scheme === 'tiered') {
+        errors.push('Additional currencies are only supported on per-unit prices');
+      }
+    }
     
     if (!item.currency || !['usd', 'eur', 'gbp'].includes(item.currency.toLowerCase())) {
       errors.push('Valid currency is required (USD, EUR, GBP)');
@@ -434,6 +479,50 @@ class StripeService {
       errors
     };
   }
+
+  validateCurrencyOptions(currency: string, options: Record<string, number>): string[] {
+    const errors: string[] = [];
+
+    Object.entries(options).forEach(([code, amount]) => {
+      if (code.toLowerCase() === currency.toLowerCase()) {
+        errors.push(`${code.toUpperCase()} is already the default currency`);
+      }
+      if (!Number.isInteger(amount) || amount <= 0) {
+        errors.push(`${code.toUpperCase()} amount must be greater than 0`);
+      }
+    });
+
+    return errors;
+  }
+
+  validateTiers(tiers?: BillingTier[]): string[] {
+    const errors: string[] = [];
+
+    if (!tiers || tiers.length === 0) {
+      return ['At least one tier is required for tiered pricing'];
+    }
+
+    if (tiers[tiers.length - 1].up_to !== 'inf') {
+      errors.push('The last tier must have no upper bound');
+    }
+
+    let previous = 0;
+    tiers.slice(0, -1).forEach((tier, index) => {
+      if (tier.up_to === 'inf' || tier.up_to <= previous) {
+        errors.push(`Tier ${index + 1} upper bound must be greater than ${previous}`);
+      } else {
+        previous = tier.up_to;
+      }
+    });
+
+    tiers.forEach((tier, index) => {
+      if ((tier.unit_amount ?? 0) < 0 || (tier.flat_amount ?? 0) < 0) {
+        errors.push(`Tier ${index + 1} amounts cannot be negative`);
+      }
+    });
+
+    return errors;
+  }
 }
 
 export const stripeService = new StripeService();
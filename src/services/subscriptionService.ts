@@ -0,0 +1,98 @@
+import { supabase } from '@/integrations/supabase/client';
+import { errorMessage } from '@/lib/utils';
+
+export type PortalFlow = 'payment_method_update' | 'subscription_cancel';
+
+export interface PlanChangePreview {
+  current_price_id: string;
+  current_amount: number; // In cents
+  target_tier_id: string;
+  target_price_id: string;
+  target_amount: number; // In cents
+  currency: string;
+  direction: 'upgrade' | 'downgrade';
+  proration_behavior: 'always_invoice' | 'create_prorations';
+  proration_date: number; // Unix seconds; pass back to applyPlanChange so the charge matches the preview
+  proration_amount: number;
+  amount_due_now: number;
+  next_invoice_total: number;
+  next_invoice_date: number | null;
+  lines: { description: string | null; amount: number }[];
+}
+
+export interface PlanChangeResult {
+  subscription_id: string;
+  status: string;
+  tier_id: string;
+  pending_update: boolean;
+}
+
+class SubscriptionService {
+  private async invoke(body: Record<string, unknown>) {
+    const { data, error } = await supabase.functions.invoke('change-subscription-plan', { body });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to update subscription');
+    }
+
+    if (!data?.success) {
+      throw new Error(data?.error || 'Unknown error occurred');
+    }
+
+    return data;
+  }
+
+  // Opens the Stripe customer portal, optionally straight into a payment method or cancellation flow
+  async createPortalSession(flow?: PortalFlow): Promise<{ url?: string; error?: string }> {
+    try {
+      const { data, error } = await supabase.functions.invoke('create-portal-session', {
+        body: { flow, return_path: window.location.pathname }
+      });
+
+      if (error) {
+        throw new Error(error.message || 'Failed to open billing portal');
+      }
+
+      if (!data?.url) {
+        throw new Error(data?.error || 'No portal URL returned');
+      }
+
+      return { url: data.url };
+    } catch (error) {
+      console.error('Error creating portal session:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  async previewPlanChange(tierId: string): Promise<{ preview?: PlanChangePreview; error?: string }> {
+    try {
+      const data = await this.invoke({ action: 'preview', tier_id: tierId });
+      return { preview: data.preview };
+    } catch (error) {
+      console.error('Error previewing plan change:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  async applyPlanChange(tierId: string, prorationDate: number): Promise<{ result?: PlanChangeResult; error?: string }> {
+    try {
+      const data = await this.invoke({ action: 'apply', tier_id: tierId, proration_date: prorationDate });
+      return { result: data };
+    } catch (error) {
+      console.error('Error applying plan change:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  async setCancelAtPeriodEnd(cancel: boolean): Promise<{ currentPeriodEnd?: number; error?: string }> {
+    try {
+      const data = await this.invoke({ action: cancel ? 'cancel' : 'resume' });
+      return { currentPeriodEnd: data.current_period_end };
+    } catch (error) {
+      console.error('Error updating cancellation:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+}
+
+export const subscriptionService = new SubscriptionService();
@@ -0,0 +1,206 @@
+import { pricingSimulatorService, type PeriodUsage } from './pricingSimulatorService';
+import type { BillingModel } from './stripeService';
+
+export interface UsageRecord {
+  customer: string;
+  meter: string;
+  timestamp: Date;
+  value: number;
+  billedAmount?: number; // In cents, when the export carries what was actually invoiced
+}
+
+export interface CustomerBacktest {
+  customer: string;
+  months: string[];
+  actual: number; // In cents
+  projected: number; // In cents
+  delta: number; // projected - actual, in cents
+  deltaPercent: number | null;
+}
+
+export interface BacktestResult {
+  currency: string;
+  months: string[];
+  actualSource: 'csv' | 'baseline_model';
+  customers: CustomerBacktest[];
+  totals: {
+    actual: number;
+    projected: number;
+    delta: number;
+    deltaPercent: number | null;
+  };
+}
+
+type BacktestModel = Pick<BillingModel, 'type' | 'items'>;
+
+// Header aliases accepted for each column; matching is case-insensitive and ignores spaces and dashes
+const COLUMN_ALIASES = {
+  customer: ['customer', 'customer_id', 'customer_email', 'account', 'account_id'],
+  meter: ['meter', 'event_name', 'event', 'metric'],
+  timestamp: ['timestamp', 'date', 'time', 'created_at', 'occurred_at'],
+  value: ['value', 'quantity', 'units', 'usage'],
+  billed: ['billed_amount', 'amount_billed', 'billed', 'invoiced_amount']
+};
+
+// A meter with this name is read as the customer's seat count for that month rather than as usage
+const SEAT_METER = 'seats';
+
+const normalizeKey = (key: string) => key.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+const findColumn = (row: Record<string, unknown>, aliases: string[]) => {
+  const key = Object.keys(row).find(column => aliases.includes(normalizeKey(column)));
+  return key !== undefined ? row[key] : undefined;
+};
+
+const monthKey = (date: Date) => `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+
+// Every month from the first to the last, so months without usage still carry recurring charges
+const monthRange = (first: string, last: string) => {
+  const months: string[] = [];
+  const cursor = new Date(`${first}-01T00:00:00Z`);
+  while (monthKey(cursor) <= last) {
+    months.push(monthKey(cursor));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return months;
+};
+
+const percent = (delta: number, actual: number) => (actual !== 0 ? (delta / actual) * 100 : null);
+
+class UsageBacktestService {
+  // Rows come from dataExtractionService.extractFromFile, which keeps the original CSV columns on each row
+  parseUsageRows(rows: Record<string, unknown>[]): { records: UsageRecord[]; skipped: number; hasBilledAmounts: boolean } {
+    const records: UsageRecord[] = [];
+    let skipped = 0;
+
+    rows.forEach(row => {
+      const customer = findColumn(row, COLUMN_ALIASES.customer);
+      const meter = findColumn(row, COLUMN_ALIASES.meter);
+      const timestamp = findColumn(row, COLUMN_ALIASES.timestamp);
+      const value = parseFloat(String(findColumn(row, COLUMN_ALIASES.value) ?? '').replace(/,/g, ''));
+      const billed = findColumn(row, COLUMN_ALIASES.billed);
+
+      // Numeric timestamps are treated as Unix seconds, as in Stripe exports
+      const date = /^\d+$/.test(String(timestamp ?? '')) ? new Date(parseInt(String(timestamp)) * 1000) : new Date(String(timestamp));
+
+      if (!customer || !meter || isNaN(date.getTime()) || isNaN(value)) {
+        skipped++;
+        return;
+      }
+
+      const billedAmount = billed !== undefined && billed !== ''
+        ? Math.round(parseFloat(String(billed).replace(/[$,]/g, '')) * 100)
+        : undefined;
+
+      records.push({
+        customer: String(customer),
+        meter: String(meter),
+        timestamp: date,
+        value,
+        billedAmount: billedAmount !== undefined && !isNaN(billedAmount) ? billedAmount : undefined
+      });
+    });
+
+    return { records, skipped, hasBilledAmounts: records.some(record => record.billedAmount !== undefined) };
+  }
+
+  // Monthly usage per customer, aggregated the way the model's meter would aggregate it
+  buildCustomerUsage(model: BacktestModel, records: UsageRecord[]): Map<string, Map<string, PeriodUsage>> {
+    const aggregation = new Map(
+      model.items
+        .filter(item => item.type === 'metered' && item.eventName)
+        .map(item => [item.eventName!, item.aggregate_usage || 'sum'])
+    );
+    const customers = new Map<string, Map<string, PeriodUsage>>();
+
+    [...records]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .forEach(record => {
+        const month = monthKey(record.timestamp);
+        const months = customers.get(record.customer) || new Map<string, PeriodUsage>();
+        const usage = months.get(month) || { label: month, seats: 0, events: {} };
+
+        if (record.meter === SEAT_METER) {
+          usage.seats = Math.max(usage.seats, record.value);
+        } else {
+          const current = usage.events[record.meter] || 0;
+          switch (aggregation.get(record.meter)) {
+            case 'max':
+              usage.events[record.meter] = Math.max(current, record.value);
+              break;
+            case 'last_during_period':
+            case 'last_ever':
+              usage.events[record.meter] = record.value;
+              break;
+            default:
+              usage.events[record.meter] = current + record.value;
+          }
+        }
+
+        months.set(month, usage);
+        customers.set(record.customer, months);
+      });
+
+    return customers;
+  }
+
+  // Re-prices every customer's history under the model; the actual side comes from the export's billed
+  // amounts when present, otherwise from re-pricing the same history under the baseline model
+  backtest(model: BacktestModel, records: UsageRecord[], baseline?: BacktestModel): BacktestResult {
+    const hasBilledAmounts = records.some(record => record.billedAmount !== undefined);
+    if (!hasBilledAmounts && !baseline) {
+      throw new Error('The usage export has no billed amounts; choose the model customers were actually billed under');
+    }
+
+    const customerUsage = this.buildCustomerUsage(model, records);
+    const billedByCustomer = records.reduce((billed, record) =>
+      billed.set(record.customer, (billed.get(record.customer) || 0) + (record.billedAmount || 0)),
+      new Map<string, number>()
+    );
+    const allMonths = new Set<string>();
+
+    const customers: CustomerBacktest[] = [...customerUsage.entries()].map(([customer, monthUsage]) => {
+      const active = [...monthUsage.keys()].sort();
+      const months = monthRange(active[0], active[active.length - 1]);
+      months.forEach(month => allMonths.add(month));
+
+      // Customers without a seats meter are priced as a single seat
+      const usages = months.map(month => {
+        const usage = monthUsage.get(month) || { label: month, seats: 0, events: {} };
+        return { ...usage, seats: usage.seats || 1 };
+      });
+
+      const projected = pricingSimulatorService.simulatePeriods(model, usages).total;
+      const actual = hasBilledAmounts
+        ? billedByCustomer.get(customer) || 0
+        : pricingSimulatorService.simulatePeriods(baseline!, usages).total;
+
+      return {
+        customer,
+        months,
+        actual,
+        projected,
+        delta: projected - actual,
+        deltaPercent: percent(projected - actual, actual)
+      };
+    });
+
+    const actual = customers.reduce((sum, customer) => sum + customer.actual, 0);
+    const projected = customers.reduce((sum, customer) => sum + customer.projected, 0);
+
+    return {
+      currency: (model.items[0]?.currency || 'usd').toLowerCase(),
+      months: [...allMonths].sort(),
+      actualSource: hasBilledAmounts ? 'csv' : 'baseline_model',
+      customers: customers.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta)),
+      totals: {
+        actual,
+        projected,
+        delta: projected - actual,
+        deltaPercent: percent(projected - actual, actual)
+      }
+    };
+  }
+}
+
+export const usageBacktestService = new UsageBacktestService();
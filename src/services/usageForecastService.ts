@@ -0,0 +1,49 @@
+import { supabase } from '@/integrations/supabase/client';
+import { errorMessage } from '@/lib/utils';
+
+export interface MeterForecast {
+  meter_name: string;
+  display_name: string;
+  unit_label: string;
+  used: number;
+  projected: number;
+  limit: number | null;
+  projected_overage: number;
+  projected_overage_cost: number; // In cents
+  projected_exceed_at: string | null;
+  confidence: 'low' | 'normal'; // 'low' until there are two weeks of history to learn weekday patterns from
+}
+
+export interface UsageForecast {
+  period_start: string;
+  period_end: string;
+  tier_id: string | null;
+  base_amount: number; // In cents
+  projected_bill: number; // In cents
+  currency: string;
+  meters: MeterForecast[];
+}
+
+class UsageForecastService {
+  // Projects the current billing period's usage and bill; also emails any projected overage alerts that are due
+  async getForecast(): Promise<{ forecast?: UsageForecast; error?: string }> {
+    try {
+      const { data, error } = await supabase.functions.invoke('forecast-usage');
+
+      if (error) {
+        throw new Error(error.message || 'Failed to forecast usage');
+      }
+
+      if (!data?.success) {
+        throw new Error(data?.error || 'Unknown error occurred');
+      }
+
+      return { forecast: data.forecast };
+    } catch (error) {
+      console.error('Error forecasting usage:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+}
+
+export const usageForecastService = new UsageForecastService();
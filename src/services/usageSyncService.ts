@@ -0,0 +1,71 @@
+import { supabase } from '@/integrations/supabase/client';
+import { errorMessage } from '@/lib/utils';
+
+export interface UsageSyncCounts {
+  pending: number;
+  failed: number;
+  dead_letter: number;
+}
+
+export interface UsageSyncRun {
+  replayed: number;
+  claimed: number;
+  synced: number;
+  skipped: number;
+  failed: number;
+  dead_lettered: number;
+}
+
+class UsageSyncService {
+  // Events still waiting for Stripe; 'processing' rows are in flight and counted as pending
+  async getSyncCounts(): Promise<{ counts?: UsageSyncCounts; error?: string }> {
+    try {
+      const countStatus = async (statuses: string[]) => {
+        const { count, error } = await supabase
+          .from('usage_events')
+          .select('id', { count: 'exact', head: true })
+          .in('sync_status', statuses);
+
+        if (error) {
+          throw new Error(error.message);
+        }
+        return count || 0;
+      };
+
+      const [pending, failed, deadLetter] = await Promise.all([
+        countStatus(['pending', 'processing']),
+        countStatus(['failed']),
+        countStatus(['dead_letter'])
+      ]);
+
+      return { counts: { pending, failed, dead_letter: deadLetter } };
+    } catch (error) {
+      console.error('Error getting usage sync counts:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  // Requeues failed and dead-lettered events with a fresh retry budget and runs a sync pass right away
+  async replayFailed(): Promise<{ run?: UsageSyncRun; error?: string }> {
+    try {
+      const { data, error } = await supabase.functions.invoke('sync-usage-events', {
+        body: { action: 'replay' }
+      });
+
+      if (error) {
+        throw new Error(error.message || 'Failed to replay usage events');
+      }
+
+      if (!data?.success) {
+        throw new Error(data?.error || 'Unknown error occurred');
+      }
+
+      return { run: data };
+    } catch (error) {
+      console.error('Error replaying usage events:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+}
+
+export const usageSyncService = new UsageSyncService();
@@ -0,0 +1,50 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { AppRole } from '@/hooks/useUserRole';
+import { errorMessage } from '@/lib/utils';
+
+export interface UserRoleEntry {
+  user_id: string;
+  email: string | null;
+  role: AppRole;
+  updated_at: string;
+}
+
+class UserRoleService {
+  private async invoke(body: Record<string, unknown>) {
+    const { data, error } = await supabase.functions.invoke('manage-user-roles', { body });
+
+    if (error) {
+      // A 403 carries the reason in the response body
+      const details = await error.context?.json?.().catch(() => null);
+      throw new Error(details?.error || error.message || 'Failed to manage roles');
+    }
+
+    if (!data?.success) {
+      throw new Error(data?.error || 'Unknown error occurred');
+    }
+
+    return data;
+  }
+
+  async listUserRoles(): Promise<{ data?: UserRoleEntry[]; error?: string }> {
+    try {
+      const data = await this.invoke({ action: 'list' });
+      return { data: data.users };
+    } catch (error) {
+      console.error('Error listing user roles:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+
+  async setUserRole(email: string, role: AppRole): Promise<{ error?: string }> {
+    try {
+      await this.invoke({ action: 'set', email, role });
+      return {};
+    } catch (error) {
+      console.error('Error setting user role:', error);
+      return { error: errorMessage(error) };
+    }
+  }
+}
+
+export const userRoleService = new UserRoleService();
@@ -0,0 +1,67 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export interface AuditActor {
+  id: string;
+  email?: string | null;
+}
+
+export interface AuditEntry {
+  // '<object type>.<verb>', e.g. 'price.deactivate'
+  action: string;
+  objectType: string;
+  objectId?: string | null;
+  // Stripe objects as returned by the API; null before a create or after a delete
+  before?: unknown;
+  after?: unknown;
+}
+
+// One logger per request: every entry it records shares the request id, so a single
+// deployment or cleanup run can be followed across all the Stripe objects it touched.
+export const createAuditLogger = (req: Request, functionName: string) => {
+  const requestId = req.headers.get('x-request-id') || crypto.randomUUID();
+  let actor: AuditActor | null = null;
+  let organizationId: string | null = null;
+  let mode: string | null = null;
+
+  const serviceClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { persistSession: false } }
+  );
+
+  return {
+    requestId,
+
+    setActor(user: AuditActor | null) {
+      actor = user;
+    },
+
+    // Organization-scoped functions call this once the Stripe key is resolved; platform functions leave it unset
+    setContext(context: { organizationId?: string | null; mode?: string | null }) {
+      organizationId = context.organizationId ?? null;
+      mode = context.mode ?? null;
+    },
+
+    // The Stripe change has already happened by the time this runs, so a failed insert is
+    // logged rather than thrown; it must not turn a successful mutation into an error response
+    async record(entry: AuditEntry) {
+      const { error } = await serviceClient.from('audit_log').insert({
+        request_id: requestId,
+        function_name: functionName,
+        actor_id: actor?.id ?? null,
+        actor_email: actor?.email ?? null,
+        organization_id: organizationId,
+        mode,
+        action: entry.action,
+        object_type: entry.objectType,
+        stripe_object_id: entry.objectId ?? null,
+        before: entry.before ?? null,
+        after: entry.after ?? null
+      });
+
+      if (error) {
+        console.error(`[AUDIT] Failed to record ${entry.action} for ${entry.objectId ?? 'unknown object'}: ${error.message}`);
+      }
+    }
+  };
+};
@@ -0,0 +1,25 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export type AppRole = 'owner' | 'admin' | 'billing_editor' | 'viewer';
+
+// The caller is signed in but lacks the role for the action; functions answer it with 403
+export class ForbiddenError extends Error {}
+
+// With an organization, checks the caller's role in that organization (organization_members.role); without
+// one, their platform role in user_roles, which covers the deployment's own Stripe account. Looked up with
+// the service role key so the check does not depend on what the caller can read under RLS.
+export const hasRole = async (userId: string, role: AppRole, organizationId?: string | null) => {
+  const serviceClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { persistSession: false } }
+  );
+
+  const { data, error } = organizationId
+    ? await serviceClient.rpc('has_org_role', { p_user_id: userId, p_organization_id: organizationId, p_role: role })
+    : await serviceClient.rpc('has_role', { p_user_id: userId, p_role: role });
+  if (error) {
+    throw new Error(`Failed to check role: ${error.message}`);
+  }
+  return data === true;
+};
@@ -0,0 +1,2 @@
+// Caught values are unknown; Stripe and Supabase failures are Errors, anything else is reported as-is
+export const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
@@ -0,0 +1,41 @@
+// Converts billing item amounts into Stripe price parameters. Imported by the edge functions and by the
+// web app (src/services/billingModelService.ts), so it must stay free of imports and runtime-specific APIs.
+// Every amount here is in the currency's smallest unit (cents), the same unit BillingItem uses.
+
+export interface PricingTier {
+  up_to: number | 'inf';
+  unit_amount?: number;
+  flat_amount?: number;
+}
+
+export interface StripeTierParams {
+  up_to: number | 'inf';
+  unit_amount?: number;
+  unit_amount_decimal?: string;
+  flat_amount: number;
+}
+
+// Stripe only takes whole cents in unit_amount; sub-cent rates go in unit_amount_decimal
+export const toStripeTiers = (tiers: PricingTier[]): StripeTierParams[] =>
+  tiers.map(tier => {
+    const unitAmount = tier.unit_amount ?? 0;
+    return {
+      up_to: tier.up_to,
+      ...(Number.isInteger(unitAmount)
+        ? { unit_amount: unitAmount }
+        : { unit_amount_decimal: unitAmount.toString() }),
+      flat_amount: Math.round(tier.flat_amount ?? 0)
+    };
+  });
+
+// Extra currencies for per-unit prices, given as currency code -> amount; undefined when there are none
+export const toStripeCurrencyOptions = (
+  options?: Record<string, number> | null
+): Record<string, { unit_amount: number }> | undefined => {
+  const entries = Object.entries(options || {});
+  if (entries.length === 0) return undefined;
+
+  return Object.fromEntries(
+    entries.map(([currency, amount]) => [currency.toLowerCase(), { unit_amount: Math.round(amount) }])
+  );
+};
@@ -0,0 +1,80 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { ForbiddenError, hasRole } from "./auth.ts";
+
+export type StripeMode = 'test' | 'live';
+
+// Reads in live mode are open to every role; anything that changes live Stripe objects needs admin.
+// Reporting usage (meter events) is neither: any member's servers report it, so it is not gated either.
+export type StripeAccess = 'read' | 'report' | 'write';
+
+export const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+// Resolves the Stripe secret key on the server. An organization only ever uses the key it connected for the
+// mode, stored AES-GCM encrypted; this deployment's STRIPE_SECRET_KEY is reserved for platform-level callers
+// that pass no organization, so one organization's calls can never land in another Stripe account.
+// Every caller goes through here, so live-mode writes are gated in one place rather than per function.
+export const getStripeKey = async (
+  userId: string,
+  organizationId?: string | null,
+  mode: StripeMode = 'test',
+  access: StripeAccess = 'write'
+) => {
+  if (mode === 'live' && access === 'write' && !(await hasRole(userId, 'admin', organizationId))) {
+    throw new ForbiddenError('Changing live mode Stripe objects requires the admin role');
+  }
+
+  const notConnected = new Error(`Stripe ${mode} mode is not connected; connect a Stripe account on the Billing page`);
+
+  if (!organizationId) {
+    const stripeKey = Deno.env.get('STRIPE_SECRET_KEY');
+    if (!stripeKey || !stripeKey.includes(`_${mode}_`)) {
+      throw notConnected;
+    }
+    return stripeKey;
+  }
+
+  const serviceClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { persistSession: false } }
+  );
+
+  const { data: membership } = await serviceClient
+    .from('organization_members')
+    .select('id')
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!membership) {
+    throw new Error('You are not a member of this organization');
+  }
+
+  const { data: credential, error } = await serviceClient
+    .from('stripe_credentials')
+    .select('encrypted_key, key_iv')
+    .eq('organization_id', organizationId)
+    .eq('mode', mode)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load Stripe credentials: ${error.message}`);
+  }
+
+  if (!credential) {
+    throw notConnected;
+  }
+
+  const rawKey = Deno.env.get('STRIPE_CREDENTIALS_ENCRYPTION_KEY');
+  if (!rawKey) {
+    throw new Error('STRIPE_CREDENTIALS_ENCRYPTION_KEY is not configured');
+  }
+
+  const key = await crypto.subtle.importKey('raw', fromBase64(rawKey), 'AES-GCM', false, ['decrypt']);
+  const secret = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(credential.key_iv) },
+    key,
+    fromBase64(credential.encrypted_key)
+  );
+  return new TextDecoder().decode(secret);
+};
@@ -0,0 +1,30 @@
+// Subscription details read from Stripe prices, shared by stripe-webhook and check-subscription so a
+// subscription row looks the same whichever of them wrote it
+
+// Tier for prices without tier_id metadata, from the plan's monthly amount
+export const tierFromAmount = (amount: number) => {
+  switch (amount) {
+    case 0: return 'trial';
+    case 1900: return 'starter';
+    case 4900: return 'professional';
+    case 9900: return 'business';
+    case 2500: return 'enterprise';
+    default: return 'unknown';
+  }
+};
+
+// usage_limit_* metadata written by initialize-stripe-billing, keyed by the usage meter name it limits
+export const usageLimitsFromMetadata = (metadata?: Record<string, string> | null) => {
+  const limits = Object.fromEntries(
+    Object.entries(metadata || {})
+      .filter(([key]) => key.startsWith('usage_limit_'))
+      .map(([key, value]) => [key.replace('usage_limit_', ''), value])
+  );
+  return Object.keys(limits).length > 0 ? limits : null;
+};
+
+// Per-unit overage charge in dollars, used by forecast-usage to project the bill
+export const overageRateFromMetadata = (metadata?: Record<string, string> | null) => {
+  const rate = parseFloat(metadata?.overage_rate ?? '');
+  return isNaN(rate) ? null : rate;
+};
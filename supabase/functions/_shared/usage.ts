@@ -0,0 +1,239 @@
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { type StripeMode, getStripeKey } from "./stripeKey.ts";
+
+export const API_KEY_PREFIX = 'usk_';
+
+export const LIVE_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due'];
+
+export type Enforcement = 'reject' | 'overage' | 'soft_warning';
+
+export interface UsagePolicy {
+  enforcement: Enforcement;
+  warn_at_ratio: number;
+}
+
+// Applies to tiers without a tier_usage_policies row
+export const DEFAULT_POLICY: UsagePolicy = { enforcement: 'overage', warn_at_ratio: 0.8 };
+
+// Missing, invalid or revoked credentials; the usage endpoints answer these with 401
+export class AuthError extends Error {}
+
+export interface Caller {
+  userId: string;
+  apiKey: { id: string; meter_names: string[] } | null;
+  supabaseClient: SupabaseClient;
+}
+
+export const sha256Hex = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+type Log = (step: string, details?: Record<string, unknown>) => void;
+
+// Servers authenticate with a project API key in x-api-key; browser sessions with the user JWT.
+// Users cannot write usage under RLS, so both get the service role client and every query filters by user_id.
+export const authenticate = async (req: Request, logStep: Log): Promise<Caller> => {
+  const serviceClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { persistSession: false } }
+  );
+
+  const apiKeyHeader = req.headers.get('x-api-key');
+
+  if (apiKeyHeader) {
+    if (!apiKeyHeader.startsWith(API_KEY_PREFIX)) {
+      throw new AuthError('Invalid API key');
+    }
+
+    const { data: apiKey } = await serviceClient
+      .from('api_keys')
+      .select('id, user_id, meter_names, revoked_at')
+      .eq('key_hash', await sha256Hex(apiKeyHeader))
+      .maybeSingle();
+
+    if (!apiKey || apiKey.revoked_at) {
+      throw new AuthError('Invalid API key');
+    }
+
+    const { error: touchError } = await serviceClient
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', apiKey.id);
+
+    if (touchError) {
+      logStep("API key last_used_at update failed (non-fatal)", { error: touchError.message });
+    }
+
+    logStep("API key authenticated", { userId: apiKey.user_id, apiKeyId: apiKey.id });
+    return {
+      userId: apiKey.user_id,
+      apiKey: { id: apiKey.id, meter_names: apiKey.meter_names },
+      supabaseClient: serviceClient
+    };
+  }
+
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    throw new AuthError('Authorization header missing');
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const { data, error: authError } = await serviceClient.auth.getUser(token);
+
+  if (authError || !data.user) {
+    logStep("Auth error", { error: authError });
+    throw new AuthError('User not authenticated');
+  }
+
+  logStep("User authenticated", { userId: data.user.id });
+  return { userId: data.user.id, apiKey: null, supabaseClient: serviceClient };
+};
+
+// Usage is tracked per calendar month, matching get-usage-summary's current_month period
+export const periodFor = (date: Date) => ({
+  periodStart: new Date(date.getFullYear(), date.getMonth(), 1).toISOString(),
+  periodEnd: new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59).toISOString()
+});
+
+// Servers reporting for their own customers tag each event with the Stripe customer it belongs to
+export const isStripeCustomerId = (value: unknown): value is string =>
+  typeof value === 'string' && /^cus_[A-Za-z0-9]+$/.test(value);
+
+// The service role client sees every meter, so lookups keep to platform meters (no organization) and
+// those of organizations the user belongs to; pass the result to .or()
+export const meterScope = async (supabaseClient: SupabaseClient, userId: string) => {
+  const { data: memberships, error } = await supabaseClient
+    .from('organization_members')
+    .select('organization_id')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to load organizations: ${error.message}`);
+  }
+
+  const organizationIds = (memberships || []).map(membership => membership.organization_id);
+  return organizationIds.length > 0
+    ? `organization_id.is.null,organization_id.in.(${organizationIds.join(',')})`
+    : 'organization_id.is.null';
+};
+
+export interface MeterAccount {
+  organization_id: string | null;
+  mode: StripeMode;
+}
+
+// An organization meter reports to the Stripe account the organization connected for the meter's mode, checked
+// against the reporting user's membership; only platform meters use this deployment's STRIPE_SECRET_KEY
+export const stripeKeyForMeter = async (userId: string, meter: MeterAccount) => {
+  if (!meter.organization_id) {
+    const stripeKey = Deno.env.get('STRIPE_SECRET_KEY');
+    if (!stripeKey) {
+      throw new Error('Stripe secret key not configured');
+    }
+    return stripeKey;
+  }
+
+  return getStripeKey(userId, meter.organization_id, meter.mode, 'report');
+};
+
+// sync-usage-events bills an event's customer_id instead of the reporting user, so only customers the caller
+// owns are accepted: any customer in the organization's own Stripe account for an organization meter, and on
+// the platform account only the customer create-checkout made for the caller (user_id metadata)
+export const isOwnCustomer = async (userId: string, meter: MeterAccount, customerId: string) => {
+  const stripe = new Stripe(await stripeKeyForMeter(userId, meter), { apiVersion: '2023-10-16' });
+
+  try {
+    const customer = await stripe.customers.retrieve(customerId);
+    if (customer.deleted) return false;
+    return meter.organization_id !== null || customer.metadata?.user_id === userId;
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === 'resource_missing') {
+      return false;
+    }
+    throw error;
+  }
+};
+
+// Limits come from usage_limit_* price metadata; 'unlimited', missing or unparsable values mean no limit
+export const parseLimit = (raw: unknown) => {
+  if (raw === undefined || raw === null || raw === 'unlimited') return null;
+  const limit = parseFloat(String(raw));
+  return isNaN(limit) ? null : limit;
+};
+
+export interface TierUsage {
+  tierId: string | null;
+  usageLimits: Record<string, unknown>;
+  policy: UsagePolicy;
+}
+
+// Resolves the caller's current tier from the subscription mirror kept by stripe-webhook, and its usage policy
+export const loadTierUsage = async (supabaseClient: SupabaseClient, userId: string): Promise<TierUsage> => {
+  const { data: subscription } = await supabaseClient
+    .from('subscriptions')
+    .select('tier_id, usage_limits')
+    .eq('user_id', userId)
+    .in('status', LIVE_SUBSCRIPTION_STATUSES)
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const tierId = subscription?.tier_id ?? null;
+  const { data: policyRow } = tierId
+    ? await supabaseClient
+      .from('tier_usage_policies')
+      .select('enforcement, warn_at_ratio')
+      .eq('tier_id', tierId)
+      .maybeSingle()
+    : { data: null };
+
+  return {
+    tierId,
+    usageLimits: subscription?.usage_limits ?? {},
+    policy: policyRow
+      ? { enforcement: policyRow.enforcement, warn_at_ratio: parseFloat(policyRow.warn_at_ratio) }
+      : DEFAULT_POLICY
+  };
+};
+
+export interface Reservation {
+  accepted: boolean[];
+  previousTotal: number;
+  newTotal: number;
+}
+
+// Adds the values in order to a meter's period total under the summary row lock (see reserve_usage).
+// With a limit, values that would pass it are refused; negative values give back usage reserved for
+// events that were never stored.
+export const reserveUsage = async (
+  supabaseClient: SupabaseClient,
+  userId: string,
+  meterId: string,
+  period: { periodStart: string; periodEnd: string },
+  values: number[],
+  limit: number | null = null
+): Promise<Reservation> => {
+  const { data, error } = await supabaseClient
+    .rpc('reserve_usage', {
+      p_user_id: userId,
+      p_meter_id: meterId,
+      p_period_start: period.periodStart,
+      p_period_end: period.periodEnd,
+      p_values: values,
+      p_limit: limit
+    })
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to reserve usage: ${error?.message}`);
+  }
+
+  return {
+    accepted: data.accepted,
+    previousTotal: parseFloat(data.previous_total),
+    newTotal: parseFloat(data.new_total)
+  };
+};
@@ -1,6 +1,9 @@
 
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { ForbiddenError, hasRole } from "../_shared/auth.ts";
+import { getStripeKey } from "../_shared/stripeKey.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,13 +16,39 @@ serve(async (req) => {
   }
 
   try {
-    const { customerId, usageAmount, currency, apiKey } = await req.json();
+    // Authenticate user
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Authorization header missing');
+    }
+
+    const { data: { user } } = await supabaseClient.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { customerId, usageAmount, currency, organizationId, mode = 'test' } = await req.json();
+
+    if (!(await hasRole(user.id, 'billing_editor', organizationId))) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'This action requires the billing editor role' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      );
+    }
 
-    if (!customerId || !usageAmount || !apiKey) {
+    if (!customerId || !usageAmount) {
       throw new Error('Missing required parameters');
     }
 
-    const stripe = new Stripe(apiKey, {
+    const stripe = new Stripe(await getStripeKey(user.id, organizationId, mode), {
       apiVersion: '2023-10-16',
     });
 
@@ -79,7 +108,7 @@ serve(async (req) => {
       JSON.stringify({ error: error.message }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
+        status: error instanceof ForbiddenError ? 403 : 500,
       }
     );
   }
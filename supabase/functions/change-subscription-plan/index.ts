@@ -0,0 +1,311 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createAuditLogger } from "../_shared/audit.ts";
+import { errorMessage } from "../_shared/errors.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[CHANGE-SUBSCRIPTION-PLAN] ${step}${detailsStr}`);
+};
+
+const LIVE_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due'];
+
+// Products from initialize-stripe-billing win over the fallbacks create-checkout creates on the fly
+const PRODUCT_SOURCES = ['stripe_billing_pilot', 'billing_app_v1'];
+
+interface TierPrices {
+  base: Stripe.Price;
+  // Metered overage prices keyed by their price_type metadata, e.g. overage_transactions
+  overages: Map<string, Stripe.Price>;
+}
+
+const findTierPrices = async (stripe: Stripe, tierId: string): Promise<TierPrices> => {
+  const products = await stripe.products.list({
+    active: true,
+    limit: 100
+  });
+
+  const tierProducts = products.data
+    .filter(product => product.metadata?.tier_id === tierId && PRODUCT_SOURCES.includes(product.metadata?.created_via))
+    .sort((a, b) => PRODUCT_SOURCES.indexOf(a.metadata.created_via) - PRODUCT_SOURCES.indexOf(b.metadata.created_via));
+
+  for (const product of tierProducts) {
+    const prices = await stripe.prices.list({
+      product: product.id,
+      active: true,
+      limit: 100
+    });
+
+    const base = prices.data.find(price => price.recurring && price.recurring.usage_type !== 'metered');
+    if (!base) continue;
+
+    const overages = new Map<string, Stripe.Price>();
+    prices.data
+      .filter(price => price.recurring?.usage_type === 'metered' && price.metadata?.price_type)
+      .forEach(price => overages.set(price.metadata.price_type, price));
+
+    return { base, overages };
+  }
+
+  throw new Error(`No recurring price found for tier: ${tierId}. Run the billing initialization first.`);
+};
+
+// Swaps the base price and each metered overage price for the target tier's equivalent, keeping seat quantity
+const buildItems = (subscription: Stripe.Subscription, target: TierPrices) => {
+  const items: Stripe.SubscriptionUpdateParams.Item[] = [];
+  const matchedOverages = new Set<string>();
+
+  subscription.items.data.forEach(item => {
+    if (item.price.recurring?.usage_type !== 'metered') {
+      items.push({ id: item.id, price: target.base.id, quantity: item.quantity });
+      return;
+    }
+
+    const replacement = target.overages.get(item.price.metadata?.price_type);
+    if (replacement) {
+      matchedOverages.add(item.price.metadata.price_type);
+      items.push({ id: item.id, price: replacement.id });
+    } else {
+      items.push({ id: item.id, deleted: true });
+    }
+  });
+
+  target.overages.forEach((price, priceType) => {
+    if (!matchedOverages.has(priceType)) {
+      items.push({ price: price.id });
+    }
+  });
+
+  return items;
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const audit = createAuditLogger(req, 'change-subscription-plan');
+
+  try {
+    logStep("Function started");
+
+    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+    if (!stripeSecretKey) {
+      throw new Error('Stripe secret key not configured');
+    }
+
+    // Authenticate user
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Authorization header missing');
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data, error: authError } = await supabaseClient.auth.getUser(token);
+
+    if (authError || !data.user) {
+      logStep("Auth error", { error: authError });
+      throw new Error('User not authenticated');
+    }
+
+    const user = data.user;
+    audit.setActor(user);
+    logStep("User authenticated", { userId: user.id, email: user.email });
+
+    const { action = 'preview', tier_id, proration_date } = await req.json();
+    if (!['preview', 'apply', 'cancel', 'resume'].includes(action)) {
+      throw new Error(`Unknown action: ${action}`);
+    }
+    logStep("Request body", { action, tier_id, proration_date });
+
+    const stripe = new Stripe(stripeSecretKey, {
+      apiVersion: '2023-10-16',
+    });
+
+    const customers = await stripe.customers.list({
+      email: user.email,
+      limit: 1
+    });
+
+    if (customers.data.length === 0) {
+      throw new Error('No Stripe customer found for this account');
+    }
+
+    const customerId = customers.data[0].id;
+    const subscriptions = await stripe.subscriptions.list({
+      customer: customerId,
+      status: 'all',
+      limit: 100
+    });
+
+    const subscription = subscriptions.data.find(sub => LIVE_SUBSCRIPTION_STATUSES.includes(sub.status));
+    if (!subscription) {
+      throw new Error('No active subscription to change');
+    }
+    logStep("Found subscription", { subscriptionId: subscription.id, status: subscription.status });
+
+    if (action === 'cancel' || action === 'resume') {
+      const updated = await stripe.subscriptions.update(subscription.id, {
+        cancel_at_period_end: action === 'cancel'
+      });
+      await audit.record({
+        action: `subscription.${action}`,
+        objectType: 'subscription',
+        objectId: updated.id,
+        before: subscription,
+        after: updated
+      });
+      logStep("Cancellation updated", { subscriptionId: updated.id, cancelAtPeriodEnd: updated.cancel_at_period_end });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          subscription_id: updated.id,
+          cancel_at_period_end: updated.cancel_at_period_end,
+          current_period_end: updated.current_period_end
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      );
+    }
+
+    if (!tier_id) {
+      throw new Error('tier_id is required');
+    }
+    if (tier_id === 'trial') {
+      throw new Error('Existing subscribers cannot switch back to the free trial; cancel at period end instead');
+    }
+
+    const currentItem = subscription.items.data.find(item => item.price.recurring?.usage_type !== 'metered');
+    if (!currentItem) {
+      throw new Error('Subscription has no base plan item');
+    }
+
+    const target = await findTierPrices(stripe, tier_id);
+    if (target.base.id === currentItem.price.id) {
+      throw new Error('Subscription is already on this plan');
+    }
+
+    // Upgrades are charged right away; downgrades leave a credit on the next invoice.
+    // Leaving a trial ends it now so the new plan starts billing immediately.
+    const isTrialing = subscription.status === 'trialing';
+    const quantity = currentItem.quantity || 1;
+    const currentAmount = (currentItem.price.unit_amount || 0) * quantity;
+    const targetAmount = (target.base.unit_amount || 0) * quantity;
+    const direction = targetAmount >= currentAmount ? 'upgrade' : 'downgrade';
+    const prorationBehavior = direction === 'upgrade' || isTrialing ? 'always_invoice' : 'create_prorations';
+    // Reusing the preview's timestamp makes the applied prorations match what the customer was shown
+    const prorationDate = proration_date || Math.floor(Date.now() / 1000);
+    const items = buildItems(subscription, target);
+
+    logStep("Plan change computed", {
+      from: currentItem.price.id,
+      to: target.base.id,
+      direction,
+      prorationBehavior,
+      items: items.length
+    });
+
+    if (action === 'preview') {
+      const upcoming = await stripe.invoices.retrieveUpcoming({
+        customer: customerId,
+        subscription: subscription.id,
+        subscription_items: items,
+        subscription_proration_behavior: prorationBehavior,
+        subscription_proration_date: prorationDate,
+        ...(isTrialing ? { subscription_trial_end: 'now' as const } : {})
+      });
+
+      const prorationLines = upcoming.lines.data.filter(line => line.proration);
+      const prorationAmount = prorationLines.reduce((sum, line) => sum + line.amount, 0);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          preview: {
+            current_price_id: currentItem.price.id,
+            current_amount: currentAmount,
+            target_tier_id: tier_id,
+            target_price_id: target.base.id,
+            target_amount: targetAmount,
+            currency: upcoming.currency,
+            direction,
+            proration_behavior: prorationBehavior,
+            proration_date: prorationDate,
+            proration_amount: prorationAmount,
+            amount_due_now: prorationBehavior === 'always_invoice'
+              ? (isTrialing ? upcoming.amount_due : Math.max(prorationAmount, 0))
+              : 0,
+            next_invoice_total: upcoming.total,
+            next_invoice_date: upcoming.next_payment_attempt || upcoming.period_end,
+            lines: prorationLines.map(line => ({
+              description: line.description,
+              amount: line.amount
+            }))
+          }
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      );
+    }
+
+    // pending_if_incomplete keeps the old plan in place if the upgrade payment fails
+    const updated = await stripe.subscriptions.update(subscription.id, {
+      items,
+      proration_behavior: prorationBehavior,
+      proration_date: prorationDate,
+      payment_behavior: prorationBehavior === 'always_invoice' ? 'pending_if_incomplete' : 'allow_incomplete',
+      ...(isTrialing ? { trial_end: 'now' as const } : {})
+    });
+    await audit.record({ action: 'subscription.change_plan', objectType: 'subscription', objectId: updated.id, before: subscription, after: updated });
+
+    logStep("Plan change applied", {
+      subscriptionId: updated.id,
+      status: updated.status,
+      pendingUpdate: !!updated.pending_update
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        subscription_id: updated.id,
+        status: updated.status,
+        tier_id,
+        // Set when the upgrade invoice could not be paid and the change is waiting on payment
+        pending_update: !!updated.pending_update
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    logStep("ERROR in change-subscription-plan", { message: errorMessage(error) });
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage(error)
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
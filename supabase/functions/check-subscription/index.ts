@@ -1,7 +1,7 @@
-
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { overageRateFromMetadata, tierFromAmount, usageLimitsFromMetadata } from "../_shared/subscriptionTier.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +13,41 @@ const logStep = (step: string, details?: any) => {
   console.log(`[CHECK-SUBSCRIPTION] ${step}${detailsStr}`);
 };
 
+// Users with no Stripe subscription at all keep a single placeholder row without a stripe_subscription_id;
+// its synced_at lets useSubscription skip this function until the answer goes stale
+const markNoSubscription = async (
+  serviceClient: SupabaseClient,
+  userId: string,
+  customerId: string | null,
+  status: 'no_customer' | 'no_active_subscription',
+  syncedAt: string
+) => {
+  const placeholder = { customer_id: customerId, status, synced_at: syncedAt };
+
+  const { data: updated, error: updateError } = await serviceClient
+    .from('subscriptions')
+    .update(placeholder)
+    .eq('user_id', userId)
+    .is('stripe_subscription_id', null)
+    .select('id');
+
+  if (updateError) {
+    throw new Error(`Failed to record missing subscription: ${updateError.message}`);
+  }
+  if (updated && updated.length > 0) return;
+
+  const { error: insertError } = await serviceClient
+    .from('subscriptions')
+    .insert({ user_id: userId, ...placeholder });
+
+  // 23505: a concurrent check inserted the placeholder first
+  if (insertError && insertError.code !== '23505') {
+    throw new Error(`Failed to record missing subscription: ${insertError.message}`);
+  }
+};
+
+// Reconciles the subscriptions mirror with Stripe. useSubscription reads the mirror directly and only calls
+// this when it has no row for the user or it has gone stale (e.g. a missed webhook delivery).
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -20,7 +55,7 @@ serve(async (req) => {
 
   try {
     logStep("Function started");
-    
+
     const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
     if (!stripeSecretKey) {
       throw new Error('Stripe secret key not configured');
@@ -40,7 +75,7 @@ serve(async (req) => {
 
     const token = authHeader.replace('Bearer ', '');
     const { data, error: authError } = await supabaseClient.auth.getUser(token);
-    
+
     if (authError || !data.user) {
       logStep("Auth error", { error: authError });
       throw new Error('User not authenticated');
@@ -48,6 +83,13 @@ serve(async (req) => {
 
     logStep("User authenticated", { email: data.user.email });
 
+    // Users can only read their mirror rows, so the reconcile writes through the service role
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
     const stripe = new Stripe(stripeSecretKey, {
       apiVersion: '2023-10-16',
     });
@@ -60,6 +102,7 @@ serve(async (req) => {
 
     if (customers.data.length === 0) {
       logStep("No Stripe customer found");
+      await markNoSubscription(serviceClient, data.user.id, null, 'no_customer', new Date().toISOString());
       return new Response(
         JSON.stringify({
           subscribed: false,
@@ -80,14 +123,56 @@ serve(async (req) => {
     const customerId = customers.data[0].id;
     logStep("Found Stripe customer", { customerId });
 
-    // Get subscriptions - using separate API calls to avoid expand issues
+    // Every subscription is mirrored, not just active ones, so cancellations missed by the webhook are caught too
     const subscriptions = await stripe.subscriptions.list({
       customer: customerId,
-      status: 'active',
-      limit: 1
+      status: 'all',
+      limit: 100
     });
 
-    if (subscriptions.data.length === 0) {
+    const syncedAt = new Date().toISOString();
+    const rows = subscriptions.data.map(subscription => {
+      const price = subscription.items.data[0]?.price;
+      const priceAmount = price?.unit_amount ?? null;
+
+      return {
+        user_id: data.user.id,
+        stripe_subscription_id: subscription.id,
+        customer_id: customerId,
+        price_id: price?.id ?? null,
+        tier_id: price?.metadata?.tier_id || (priceAmount !== null ? tierFromAmount(priceAmount) : null),
+        price_amount: priceAmount,
+        usage_limits: usageLimitsFromMetadata(price?.metadata),
+        overage_rate: overageRateFromMetadata(price?.metadata),
+        status: subscription.status,
+        current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
+        cancel_at_period_end: subscription.cancel_at_period_end,
+        synced_at: syncedAt
+      };
+    });
+
+    if (rows.length > 0) {
+      const { error: syncError } = await serviceClient
+        .from('subscriptions')
+        .upsert(rows, { onConflict: 'stripe_subscription_id' });
+
+      if (syncError) {
+        throw new Error(`Failed to sync subscriptions: ${syncError.message}`);
+      }
+      logStep("Subscriptions mirrored", { count: rows.length });
+
+      await serviceClient
+        .from('subscriptions')
+        .delete()
+        .eq('user_id', data.user.id)
+        .is('stripe_subscription_id', null);
+    } else {
+      await markNoSubscription(serviceClient, data.user.id, customerId, 'no_active_subscription', syncedAt);
+    }
+
+    const active = rows.find(row => row.status === 'active');
+
+    if (!active) {
       logStep("No active subscriptions found");
       return new Response(
         JSON.stringify({
@@ -106,49 +191,22 @@ serve(async (req) => {
       );
     }
 
-    const subscription = subscriptions.data[0];
-    const subscriptionItem = subscription.items.data[0];
-    
-    // Get the price separately to avoid expand issues
-    const price = await stripe.prices.retrieve(subscriptionItem.price.id);
-    
     logStep("Active subscription found", {
-      subscriptionId: subscription.id,
-      priceId: price.id,
-      amount: price.unit_amount
-    });
-
-    // Determine subscription tier from price amount
-    let subscriptionTier = 'unknown';
-    const priceAmount = price.unit_amount || 0;
-    
-    if (priceAmount === 0) {
-      subscriptionTier = 'trial';
-    } else if (priceAmount === 1900) {
-      subscriptionTier = 'starter';
-    } else if (priceAmount === 4900) {
-      subscriptionTier = 'professional';
-    } else if (priceAmount === 9900) {
-      subscriptionTier = 'business';
-    } else if (priceAmount === 2500) {
-      subscriptionTier = 'enterprise';
-    }
-
-    logStep("Subscription details determined", {
-      tier: subscriptionTier,
-      amount: priceAmount,
-      currentPeriodEnd: subscription.current_period_end
+      subscriptionId: active.stripe_subscription_id,
+      priceId: active.price_id,
+      tier: active.tier_id,
+      amount: active.price_amount
     });
 
     return new Response(
       JSON.stringify({
         subscribed: true,
-        subscription_tier: subscriptionTier,
-        subscription_status: subscription.status,
+        subscription_tier: active.tier_id,
+        subscription_status: active.status,
         customer_id: customerId,
-        subscription_id: subscription.id,
-        current_period_end: subscription.current_period_end,
-        price_amount: priceAmount
+        subscription_id: active.stripe_subscription_id,
+        current_period_end: Math.floor(new Date(active.current_period_end).getTime() / 1000),
+        price_amount: active.price_amount
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -158,7 +216,7 @@ serve(async (req) => {
 
   } catch (error: any) {
     logStep("ERROR in check-subscription", { message: error.message, stack: error.stack });
-    
+
     return new Response(
       JSON.stringify({
         subscribed: false,
@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createAuditLogger } from "../_shared/audit.ts";
+import { hasRole } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,6 +19,8 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const audit = createAuditLogger(req, 'cleanup-duplicates');
+
   try {
     logStep("Function started");
     
@@ -44,9 +48,21 @@ serve(async (req) => {
       logStep("Auth error", { error: authError });
       throw new Error('User not authenticated');
     }
+    audit.setActor(data.user);
 
     logStep("User authenticated", { email: data.user.email });
 
+    if (!(await hasRole(data.user.id, 'admin'))) {
+      logStep("Permission denied", { userId: data.user.id, required: 'admin' });
+      return new Response(
+        JSON.stringify({ success: false, error: 'This action requires the admin role' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      );
+    }
+
     const stripe = new Stripe(stripeSecretKey, {
       apiVersion: '2023-10-16',
     });
@@ -137,7 +153,8 @@ serve(async (req) => {
 
           for (const price of prices.data) {
             if (price.active) {
-              await stripe.prices.update(price.id, { active: false });
+              const deactivatedPrice = await stripe.prices.update(price.id, { active: false });
+              await audit.record({ action: 'price.deactivate', objectType: 'price', objectId: price.id, before: price, after: deactivatedPrice });
               logStep(`Price deactivated`, { 
                 priceId: price.id, 
                 productId: product.id 
@@ -146,9 +163,10 @@ serve(async (req) => {
           }
 
           // Deactivate the product
-          await stripe.products.update(product.id, {
+          const archivedProduct = await stripe.products.update(product.id, {
             active: false
           });
+          await audit.record({ action: 'product.archive', objectType: 'product', objectId: product.id, before: product, after: archivedProduct });
 
           logStep(`Product deactivated: ${product.name}`, { id: product.id });
           
@@ -2,6 +2,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createAuditLogger } from "../_shared/audit.ts";
+import { hasRole } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,6 +20,8 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const audit = createAuditLogger(req, 'cleanup-stripe-products');
+
   try {
     logStep("Function started");
     
@@ -45,9 +49,21 @@ serve(async (req) => {
       logStep("Auth error", { error: authError });
       throw new Error('User not authenticated');
     }
+    audit.setActor(data.user);
 
     logStep("User authenticated", { email: data.user.email });
 
+    if (!(await hasRole(data.user.id, 'admin'))) {
+      logStep("Permission denied", { userId: data.user.id, required: 'admin' });
+      return new Response(
+        JSON.stringify({ success: false, error: 'This action requires the admin role' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      );
+    }
+
     const stripe = new Stripe(stripeSecretKey, {
       apiVersion: '2023-10-16',
     });
@@ -91,9 +107,10 @@ serve(async (req) => {
     // Step 1: Deactivate all app products
     for (const product of appProducts) {
       try {
-        await stripe.products.update(product.id, {
+        const archivedProduct = await stripe.products.update(product.id, {
           active: false
         });
+        await audit.record({ action: 'product.archive', objectType: 'product', objectId: product.id, before: product, after: archivedProduct });
         
         cleanupResults.push({
           product_id: product.id,
@@ -126,9 +143,10 @@ serve(async (req) => {
 
         for (const price of prices.data) {
           try {
-            await stripe.prices.update(price.id, {
+            const deactivatedPrice = await stripe.prices.update(price.id, {
               active: false
             });
+            await audit.record({ action: 'price.deactivate', objectType: 'price', objectId: price.id, before: price, after: deactivatedPrice });
             
             cleanupResults.push({
               price_id: price.id,
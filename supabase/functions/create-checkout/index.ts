@@ -2,6 +2,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createAuditLogger } from "../_shared/audit.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,6 +19,8 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const audit = createAuditLogger(req, 'create-checkout');
+
   try {
     logStep("Function started");
 
@@ -45,6 +48,7 @@ serve(async (req) => {
     }
 
     const user = data.user;
+    audit.setActor(user);
     logStep("User authenticated", { userId: user.id, email: user.email });
 
     const { tier_id, price_id, user_email, mode = 'subscription' } = await req.json();
@@ -72,6 +76,7 @@ serve(async (req) => {
         }
       });
       customerId = customer.id;
+      await audit.record({ action: 'customer.create', objectType: 'customer', objectId: customer.id, after: customer });
       logStep("Created new customer", { customerId });
     }
 
@@ -148,6 +153,7 @@ serve(async (req) => {
           tier_id: tier_id
         }
       });
+      await audit.record({ action: 'product.create', objectType: 'product', objectId: product.id, after: product });
 
       // Create price
       const priceConfig: any = {
@@ -165,6 +171,7 @@ serve(async (req) => {
       }
 
       const price = await stripe.prices.create(priceConfig);
+      await audit.record({ action: 'price.create', objectType: 'price', objectId: price.id, after: price });
       priceToUse = price.id;
       logStep("Created new product and price", { productId: product.id, priceId: priceToUse, unitAmount, mode });
     }
@@ -2,6 +2,9 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createAuditLogger } from "../_shared/audit.ts";
+import { ForbiddenError, hasRole } from "../_shared/auth.ts";
+import { getStripeKey } from "../_shared/stripeKey.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,14 +21,11 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const audit = createAuditLogger(req, 'create-credit-invoice');
+
   try {
     logStep("Function started");
     
-    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
-    if (!stripeSecretKey) {
-      throw new Error('Stripe secret key not configured');
-    }
-
     // Authenticate user
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -43,24 +43,39 @@ serve(async (req) => {
     if (authError || !data.user) {
       throw new Error('User not authenticated');
     }
+    audit.setActor(data.user);
 
     const { 
       customerId, 
       amount, 
       currency = 'usd', 
       description = 'Prepaid Credits',
-      creditMultiplier = 1.2 // Default 20% bonus credits
+      creditMultiplier = 1.2, // Default 20% bonus credits
+      organizationId,
+      mode = 'test'
     } = await req.json();
 
+    if (!(await hasRole(data.user.id, 'billing_editor', organizationId))) {
+      logStep("Permission denied", { userId: data.user.id, required: 'billing_editor' });
+      return new Response(
+        JSON.stringify({ success: false, error: 'This action requires the billing editor role' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      );
+    }
+
     if (!customerId || !amount) {
       throw new Error('Missing required parameters: customerId and amount');
     }
 
     logStep("Creating credit invoice", { customerId, amount, currency, description });
 
-    const stripe = new Stripe(stripeSecretKey, {
+    const stripe = new Stripe(await getStripeKey(data.user.id, organizationId, mode), {
       apiVersion: '2023-10-16',
     });
+    audit.setContext({ organizationId, mode });
 
     // Create the invoice
     const invoice = await stripe.invoices.create({
@@ -76,6 +91,7 @@ serve(async (req) => {
     });
 
     logStep("Invoice created", { invoiceId: invoice.id });
+    await audit.record({ action: 'invoice.create', objectType: 'invoice', objectId: invoice.id, after: invoice });
 
     // Add the credit purchase item to the invoice
     const invoiceItem = await stripe.invoiceItems.create({
@@ -91,12 +107,21 @@ serve(async (req) => {
     });
 
     logStep("Invoice item added", { invoiceItemId: invoiceItem.id });
+    await audit.record({ action: 'invoice_item.create', objectType: 'invoice_item', objectId: invoiceItem.id, after: invoiceItem });
 
     // Finalize and send the invoice
     const finalizedInvoice = await stripe.invoices.finalizeInvoice(invoice.id, {
       auto_advance: true
     });
 
+    await audit.record({
+      action: 'invoice.finalize',
+      objectType: 'invoice',
+      objectId: finalizedInvoice.id,
+      before: invoice,
+      after: finalizedInvoice
+    });
+
     logStep("Invoice finalized", { 
       invoiceId: finalizedInvoice.id, 
       status: finalizedInvoice.status,
@@ -127,7 +152,7 @@ serve(async (req) => {
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
+        status: error instanceof ForbiddenError ? 403 : 500,
       }
     );
   }
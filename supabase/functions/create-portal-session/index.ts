@@ -0,0 +1,128 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { errorMessage } from "../_shared/errors.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[CREATE-PORTAL-SESSION] ${step}${detailsStr}`);
+};
+
+// Portal flows the app deep-links into; without one the customer lands on the portal home page
+const PORTAL_FLOWS = ['payment_method_update', 'subscription_cancel'];
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+    if (!stripeSecretKey) {
+      throw new Error('Stripe secret key not configured');
+    }
+
+    // Authenticate user
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Authorization header missing');
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data, error: authError } = await supabaseClient.auth.getUser(token);
+
+    if (authError || !data.user) {
+      logStep("Auth error", { error: authError });
+      throw new Error('User not authenticated');
+    }
+
+    const user = data.user;
+    logStep("User authenticated", { userId: user.id, email: user.email });
+
+    const { flow, return_path = '/pricing' } = await req.json().catch(() => ({}));
+    if (flow && !PORTAL_FLOWS.includes(flow)) {
+      throw new Error(`Unsupported portal flow: ${flow}`);
+    }
+
+    const stripe = new Stripe(stripeSecretKey, {
+      apiVersion: '2023-10-16',
+    });
+
+    const customers = await stripe.customers.list({
+      email: user.email,
+      limit: 1
+    });
+
+    if (customers.data.length === 0) {
+      throw new Error('No Stripe customer found for this account. Subscribe to a plan first.');
+    }
+
+    const customerId = customers.data[0].id;
+    logStep("Found Stripe customer", { customerId });
+
+    const returnUrl = `${req.headers.get('origin')}${return_path}`;
+    const sessionConfig: Stripe.BillingPortal.SessionCreateParams = {
+      customer: customerId,
+      return_url: returnUrl
+    };
+
+    if (flow === 'payment_method_update') {
+      sessionConfig.flow_data = { type: 'payment_method_update' };
+    } else if (flow === 'subscription_cancel') {
+      const subscriptions = await stripe.subscriptions.list({
+        customer: customerId,
+        status: 'active',
+        limit: 1
+      });
+
+      if (subscriptions.data.length === 0) {
+        throw new Error('No active subscription to cancel');
+      }
+
+      sessionConfig.flow_data = {
+        type: 'subscription_cancel',
+        subscription_cancel: { subscription: subscriptions.data[0].id },
+        after_completion: { type: 'redirect', redirect: { return_url: returnUrl } }
+      };
+    }
+
+    const session = await stripe.billingPortal.sessions.create(sessionConfig);
+    logStep("Portal session created", { sessionId: session.id, flow: flow || 'home' });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        url: session.url
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    logStep("ERROR in create-portal-session", { message: errorMessage(error) });
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage(error)
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
@@ -2,6 +2,10 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createAuditLogger } from "../_shared/audit.ts";
+import { toStripeTiers, toStripeCurrencyOptions } from "../_shared/pricing.ts";
+import { ForbiddenError, hasRole } from "../_shared/auth.ts";
+import { getStripeKey } from "../_shared/stripeKey.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +17,8 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const audit = createAuditLogger(req, 'create-stripe-price');
+
   try {
     // Authenticate user
     const supabaseClient = createClient(
@@ -28,40 +34,80 @@ serve(async (req) => {
     if (!user) {
       throw new Error('User not authenticated');
     }
+    audit.setActor(user);
 
+    // Every amount in the body is in cents (the currency's smallest unit), like BillingItem: unit_amount,
+    // tiers[].unit_amount and flat_amount, and the values of currency_options
     const { 
       product, 
       unit_amount, 
       currency = 'usd', 
+      currency_options,
       recurring, 
-      billing_scheme = 'per_unit' 
+      billing_scheme = 'per_unit',
+      tiers,
+      tiers_mode = 'graduated',
+      organizationId,
+      mode = 'test'
     } = await req.json();
 
-    if (!product || !unit_amount) {
-      throw new Error('Product ID and unit amount are required');
+    if (!(await hasRole(user.id, 'billing_editor', organizationId))) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'This action requires the billing editor role' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      );
     }
 
-    const stripeKey = Deno.env.get('STRIPE_SECRET_KEY');
-    if (!stripeKey) {
-      throw new Error('Stripe secret key not configured');
+    const isTiered = billing_scheme === 'tiered';
+
+    if (!product) {
+      throw new Error('Product ID is required');
     }
 
+    if (isTiered) {
+      if (!Array.isArray(tiers) || tiers.length === 0) {
+        throw new Error('Tiers are required for tiered prices');
+      }
+      if (tiers[tiers.length - 1].up_to !== 'inf') {
+        throw new Error("The last tier must have up_to set to 'inf'");
+      }
+      if (!recurring) {
+        throw new Error('Tiered prices must be recurring');
+      }
+    } else if (!unit_amount) {
+      throw new Error('Product ID and unit amount are required');
+    }
+
+    const stripeKey = await getStripeKey(user.id, organizationId, mode);
+    audit.setContext({ organizationId, mode });
+
     const stripe = new Stripe(stripeKey, {
       apiVersion: '2023-10-16',
     });
 
     const price = await stripe.prices.create({
       product,
-      unit_amount: Math.round(unit_amount * 100), // Convert to cents
       currency: currency.toLowerCase(),
       recurring: recurring || undefined,
       billing_scheme,
+      ...(isTiered ? {
+        tiers_mode,
+        tiers: toStripeTiers(tiers)
+      } : {
+        unit_amount: Math.round(unit_amount),
+        currency_options: toStripeCurrencyOptions(currency_options)
+      }),
       metadata: {
         user_id: user.id,
         created_by: 'stripe-setup-pilot'
       }
     });
 
+    await audit.record({ action: 'price.create', objectType: 'price', objectId: price.id, after: price });
+
     return new Response(
       JSON.stringify({ price }),
       {
@@ -76,7 +122,7 @@ serve(async (req) => {
       JSON.stringify({ error: error.message }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
+        status: error instanceof ForbiddenError ? 403 : 500,
       }
     );
   }
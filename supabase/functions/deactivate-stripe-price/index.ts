@@ -2,6 +2,9 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createAuditLogger } from "../_shared/audit.ts";
+import { ForbiddenError, hasRole } from "../_shared/auth.ts";
+import { getStripeKey } from "../_shared/stripeKey.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +16,8 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const audit = createAuditLogger(req, 'deactivate-stripe-price');
+
   try {
     // Authenticate user
     const supabaseClient = createClient(
@@ -28,26 +33,44 @@ serve(async (req) => {
     if (!user) {
       throw new Error('User not authenticated');
     }
+    audit.setActor(user);
+
+    const { price_id, organizationId, mode = 'test' } = await req.json();
 
-    const { price_id } = await req.json();
+    if (!(await hasRole(user.id, 'billing_editor', organizationId))) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'This action requires the billing editor role' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      );
+    }
 
     if (!price_id) {
       throw new Error('Price ID is required');
     }
 
-    const stripeKey = Deno.env.get('STRIPE_SECRET_KEY');
-    if (!stripeKey) {
-      throw new Error('Stripe secret key not configured');
-    }
+    const stripeKey = await getStripeKey(user.id, organizationId, mode);
+    audit.setContext({ organizationId, mode });
 
     const stripe = new Stripe(stripeKey, {
       apiVersion: '2023-10-16',
     });
 
+    const previousPrice = await stripe.prices.retrieve(price_id);
     const updatedPrice = await stripe.prices.update(price_id, {
       active: false
     });
 
+    await audit.record({
+      action: 'price.deactivate',
+      objectType: 'price',
+      objectId: price_id,
+      before: previousPrice,
+      after: updatedPrice
+    });
+
     return new Response(
       JSON.stringify({ 
         success: true, 
@@ -68,7 +91,7 @@ serve(async (req) => {
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
+        status: error instanceof ForbiddenError ? 403 : 500,
       }
     );
   }
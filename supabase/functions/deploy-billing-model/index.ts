@@ -1,33 +1,439 @@
-
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createAuditLogger } from "../_shared/audit.ts";
+import { toStripeTiers, toStripeCurrencyOptions, type PricingTier } from "../_shared/pricing.ts";
+import { ForbiddenError, hasRole } from "../_shared/auth.ts";
+import { type StripeMode, getStripeKey } from "../_shared/stripeKey.ts";
+import { errorMessage } from "../_shared/errors.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const logStep = (step: string, details?: any) => {
+const logStep = (step: string, details?: Record<string, unknown>) => {
   const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
   console.log(`[DEPLOY-BILLING-MODEL] ${step}${detailsStr}`);
 };
 
+// A billing model item as saved by the wizard; amounts are in cents
+interface DeployItem {
+  id: string;
+  product: string;
+  description?: string;
+  type: 'metered' | 'recurring' | 'one_time';
+  unit_amount: number;
+  currency: string;
+  currency_options?: Record<string, number> | null;
+  interval?: Stripe.PriceCreateParams.Recurring.Interval;
+  eventName?: string;
+  aggregate_usage?: Stripe.PriceCreateParams.Recurring.AggregateUsage;
+  billing_scheme?: Stripe.PriceCreateParams.BillingScheme;
+  tiers_mode?: Stripe.PriceCreateParams.TiersMode;
+  tiers?: PricingTier[];
+  metadata?: Record<string, string>;
+}
+
+interface DeployModel {
+  type: string;
+  items: DeployItem[];
+}
+
+// billing_model_deployments and billing_model_deployment_items rows, as far as this function reads them
+interface DeploymentRow {
+  id: string;
+  status: string;
+  attempts: number;
+  idempotency_scope: string | null;
+  billing_model: DeployModel;
+  billing_model_id: string | null;
+  model_version: number | null;
+  organization_id: string | null;
+  mode: StripeMode;
+}
+
+interface DeploymentItemRow {
+  id: string;
+  item_id: string;
+  status: string;
+  attempts: number;
+  stripe_product_id: string | null;
+  stripe_price_id: string | null;
+  stripe_meter_id: string | null;
+}
+
+// The product id is filled in once the product exists
+type PriceParams = Omit<Stripe.PriceCreateParams, 'product'>;
+
+type PlanAction = 'create' | 'reuse' | 'untouched';
+
+interface PlanEntry {
+  item_id: string | null;
+  action: PlanAction;
+  stripe_id?: string;
+  name: string;
+  details?: Record<string, unknown>;
+}
+
+interface DeploymentPlan {
+  products: PlanEntry[];
+  prices: (PlanEntry & { params?: PriceParams })[];
+  meters: (PlanEntry & { params?: Stripe.Billing.MeterCreateParams })[];
+  summary: {
+    to_create: number;
+    to_reuse: number;
+    untouched: number;
+  };
+}
+
+// Enhanced metadata with usage limits and billing configuration
+const buildProductMetadata = (item: DeployItem, billingModel: DeployModel, userId: string): Record<string, string> => ({
+  user_id: userId,
+  billing_model_type: billingModel.type,
+  created_by: 'stripe-setup-pilot',
+  tier_id: item.metadata?.tier_id || '',
+  usage_limit_transactions: item.metadata?.usage_limit_transactions || '0',
+  usage_limit_ai_processing: item.metadata?.usage_limit_ai_processing || '0',
+  usage_limit_data_exports: item.metadata?.usage_limit_data_exports || '0',
+  usage_limit_api_calls: item.metadata?.usage_limit_api_calls || '0',
+  meter_rate: item.metadata?.meter_rate || '0',
+  package_credits: item.metadata?.package_credits || '0',
+  included_usage: item.metadata?.included_usage || '0',
+  usage_unit: item.metadata?.usage_unit || 'units',
+  meter_name: item.eventName || '',
+  features: item.metadata?.features || '',
+  ...item.metadata
+});
+
+// Price parameters (without the product id) that deploying an item would create, or null for none
+const buildPriceParams = (
+  item: DeployItem,
+  billingModel: DeployModel,
+  productMetadata: Record<string, string>
+): PriceParams | null => {
+  if (item.billing_scheme === 'tiered' && item.tiers?.length) {
+    // Tiers defined on the item itself take precedence over the derived overage tiers below
+    return {
+      currency: item.currency.toLowerCase(),
+      billing_scheme: 'tiered',
+      recurring: item.type === 'metered'
+        ? {
+          interval: item.interval || 'month',
+          usage_type: 'metered',
+          aggregate_usage: item.aggregate_usage || 'sum'
+        }
+        : {
+          interval: item.interval || 'month'
+        },
+      tiers_mode: item.tiers_mode || 'graduated',
+      tiers: toStripeTiers(item.tiers),
+      metadata: {
+        ...productMetadata,
+        event_name: item.eventName || '',
+        price_type: 'tiered'
+      }
+    };
+  }
+
+  if (billingModel.type === 'fixed-overage' && item.type === 'recurring') {
+    // Flat rate price for base plan
+    return {
+      unit_amount: Math.round(item.unit_amount),
+      currency: item.currency.toLowerCase(),
+      currency_options: toStripeCurrencyOptions(item.currency_options),
+      recurring: {
+        interval: item.interval || 'month'
+      },
+      metadata: {
+        ...productMetadata,
+        price_type: 'base_plan'
+      }
+    };
+  }
+
+  if (billingModel.type === 'fixed-overage' && item.type === 'metered') {
+    // Graduated pricing for overage charges
+    const includedUsage = parseInt(productMetadata.included_usage || '0');
+    const meterRate = parseFloat(productMetadata.meter_rate || '0');
+
+    if (includedUsage <= 0 || meterRate <= 0) {
+      return null;
+    }
+
+    return {
+      currency: item.currency.toLowerCase(),
+      billing_scheme: 'tiered',
+      recurring: {
+        interval: 'month',
+        usage_type: 'metered',
+        aggregate_usage: item.aggregate_usage || 'sum'
+      },
+      tiers_mode: 'graduated',
+      tiers: [
+        {
+          up_to: includedUsage,
+          unit_amount: 0, // Free within included usage
+          flat_amount: 0
+        },
+        {
+          up_to: 'inf',
+          unit_amount: Math.round(meterRate * 100), // Convert to cents
+          flat_amount: 0
+        }
+      ],
+      metadata: {
+        ...productMetadata,
+        price_type: 'overage_pricing'
+      }
+    };
+  }
+
+  // Standard price creation for other billing types
+  const priceData: PriceParams = {
+    unit_amount: Math.round(item.unit_amount),
+    currency: item.currency.toLowerCase(),
+    currency_options: toStripeCurrencyOptions(item.currency_options),
+    metadata: {
+      ...productMetadata,
+      event_name: item.eventName || ''
+    }
+  };
+
+  if (item.type === 'recurring' && item.interval) {
+    priceData.recurring = {
+      interval: item.interval
+    };
+  }
+
+  if (item.type === 'metered') {
+    priceData.billing_scheme = 'per_unit';
+    priceData.recurring = {
+      interval: 'month',
+      usage_type: 'metered',
+      aggregate_usage: item.aggregate_usage || 'sum'
+    };
+  }
+
+  return priceData;
+};
+
+const buildMeterParams = (item: DeployItem, eventName: string): Stripe.Billing.MeterCreateParams => ({
+  display_name: item.product,
+  event_name: eventName,
+  customer_mapping: {
+    event_payload_key: 'customer_id',
+    type: 'by_id'
+  },
+  default_aggregation: {
+    formula: (item.aggregate_usage || 'sum') as Stripe.Billing.MeterCreateParams.DefaultAggregation.Formula
+  },
+  value_settings: {
+    event_payload_key: 'value'
+  }
+});
+
+const sameTiers = (existingTiers: Stripe.Price.Tier[] = [], tiers: Stripe.PriceCreateParams.Tier[] = []) =>
+  existingTiers.length === tiers.length &&
+  tiers.every((tier, index) => {
+    const existing = existingTiers[index];
+    const upTo = tier.up_to === 'inf' ? null : tier.up_to;
+    const existingUnitAmount = Number(existing.unit_amount_decimal ?? existing.unit_amount ?? 0);
+    const unitAmount = Number(tier.unit_amount_decimal ?? tier.unit_amount ?? 0);
+    return existing.up_to === upTo &&
+      existingUnitAmount === unitAmount &&
+      (existing.flat_amount ?? 0) === (tier.flat_amount ?? 0);
+  });
+
+// Stripe echoes the default currency inside currency_options, so only the extra currencies are compared
+const sameCurrencyOptions = (existing: Stripe.Price, params: PriceParams) => {
+  const existingOptions = Object.entries(existing.currency_options || {})
+    .filter(([currency]) => currency !== existing.currency);
+  const options = Object.entries(params.currency_options || {});
+
+  return existingOptions.length === options.length &&
+    options.every(([currency, option]) =>
+      existing.currency_options?.[currency]?.unit_amount === option.unit_amount
+    );
+};
+
+// An existing price is reusable when it would bill exactly like the one we'd create
+const priceMatches = (existing: Stripe.Price, params: PriceParams) => {
+  if (existing.currency !== params.currency) return false;
+  if ((existing.billing_scheme || 'per_unit') !== (params.billing_scheme || 'per_unit')) return false;
+
+  if (!!existing.recurring !== !!params.recurring) return false;
+  if (existing.recurring && params.recurring) {
+    if (existing.recurring.interval !== params.recurring.interval) return false;
+    if ((existing.recurring.usage_type || 'licensed') !== (params.recurring.usage_type || 'licensed')) return false;
+  }
+
+  if (params.billing_scheme === 'tiered') {
+    return existing.tiers_mode === params.tiers_mode && sameTiers(existing.tiers, params.tiers);
+  }
+
+  return existing.unit_amount === params.unit_amount && sameCurrencyOptions(existing, params);
+};
+
+// Stable per model version and item, so retries and resumes never create a second copy in Stripe
+const idempotencyKey = (modelKey: string, itemId: string, resource: 'product' | 'price' | 'meter') =>
+  `deploy:${modelKey}:${itemId}:${resource}`;
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+// Upper bound for listing an account's products, prices or meters
+const MAX_LISTED_OBJECTS = 10000;
+
+const buildDeploymentPlan = async (stripe: Stripe, billingModel: DeployModel, userId: string): Promise<DeploymentPlan> => {
+  // Every page is read: anything missed here would be planned as a create and duplicated in Stripe
+  const [products, prices, meters] = await Promise.all([
+    stripe.products.list({ limit: 100, active: true }).autoPagingToArray({ limit: MAX_LISTED_OBJECTS }),
+    stripe.prices.list({ limit: 100, active: true, expand: ['data.tiers', 'data.currency_options'] })
+      .autoPagingToArray({ limit: MAX_LISTED_OBJECTS }),
+    stripe.billing.meters.list({ limit: 100 }).autoPagingToArray({ limit: MAX_LISTED_OBJECTS })
+  ]);
+
+  logStep("Existing Stripe resources fetched", {
+    products: products.length,
+    prices: prices.length,
+    meters: meters.length
+  });
+
+  const activeMeters = meters.filter(meter => meter.status === 'active');
+  const plan: DeploymentPlan = {
+    products: [],
+    prices: [],
+    meters: [],
+    summary: { to_create: 0, to_reuse: 0, untouched: 0 }
+  };
+  const reusedProductIds = new Set<string>();
+  const reusedPriceIds = new Set<string>();
+  const reusedMeterIds = new Set<string>();
+
+  for (const item of billingModel.items) {
+    const productMetadata = buildProductMetadata(item, billingModel, userId);
+
+    // Prefer products this tool created, then the most recent one with the same name
+    const existingProduct = products
+      .filter(product => product.name === item.product && !reusedProductIds.has(product.id))
+      .sort((a, b) =>
+        Number(b.metadata?.created_by === 'stripe-setup-pilot') - Number(a.metadata?.created_by === 'stripe-setup-pilot') ||
+        b.created - a.created
+      )[0];
+
+    if (existingProduct) {
+      reusedProductIds.add(existingProduct.id);
+      plan.products.push({ item_id: item.id, action: 'reuse', stripe_id: existingProduct.id, name: item.product });
+    } else {
+      plan.products.push({ item_id: item.id, action: 'create', name: item.product });
+    }
+
+    const priceParams = buildPriceParams(item, billingModel, productMetadata);
+    if (priceParams) {
+      const existingPrice = existingProduct
+        ? prices.find(price =>
+          price.product === existingProduct.id && !reusedPriceIds.has(price.id) && priceMatches(price, priceParams)
+        )
+        : undefined;
+
+      const details = {
+        unit_amount: priceParams.unit_amount,
+        currency: priceParams.currency,
+        currency_options: priceParams.currency_options,
+        interval: priceParams.recurring?.interval,
+        usage_type: priceParams.recurring?.usage_type || 'licensed',
+        billing_scheme: priceParams.billing_scheme || 'per_unit',
+        tiers: priceParams.tiers
+      };
+
+      if (existingPrice) {
+        reusedPriceIds.add(existingPrice.id);
+        plan.prices.push({ item_id: item.id, action: 'reuse', stripe_id: existingPrice.id, name: item.product, details });
+      } else {
+        plan.prices.push({ item_id: item.id, action: 'create', name: item.product, details, params: priceParams });
+      }
+    }
+
+    if (item.type === 'metered' && item.eventName) {
+      const existingMeter = activeMeters.find(meter => meter.event_name === item.eventName);
+      const details = { event_name: item.eventName, aggregation: item.aggregate_usage || 'sum' };
+
+      if (existingMeter) {
+        reusedMeterIds.add(existingMeter.id);
+        plan.meters.push({ item_id: item.id, action: 'reuse', stripe_id: existingMeter.id, name: item.product, details });
+      } else if (!plan.meters.some(meter => meter.action === 'create' && meter.details?.event_name === item.eventName)) {
+        plan.meters.push({ item_id: item.id, action: 'create', name: item.product, details, params: buildMeterParams(item, item.eventName) });
+      }
+    }
+  }
+
+  // Everything else already in the account is left as is
+  products
+    .filter(product => !reusedProductIds.has(product.id))
+    .forEach(product => plan.products.push({ item_id: null, action: 'untouched', stripe_id: product.id, name: product.name }));
+
+  prices
+    .filter(price => reusedProductIds.has(price.product as string) && !reusedPriceIds.has(price.id))
+    .forEach(price => plan.prices.push({
+      item_id: null,
+      action: 'untouched',
+      stripe_id: price.id,
+      name: products.find(product => product.id === price.product)?.name || (price.product as string),
+      details: {
+        unit_amount: price.unit_amount,
+        currency: price.currency,
+        interval: price.recurring?.interval,
+        usage_type: price.recurring?.usage_type || 'licensed',
+        billing_scheme: price.billing_scheme
+      }
+    }));
+
+  activeMeters
+    .filter(meter => !reusedMeterIds.has(meter.id))
+    .forEach(meter => plan.meters.push({
+      item_id: null,
+      action: 'untouched',
+      stripe_id: meter.id,
+      name: meter.display_name,
+      details: { event_name: meter.event_name }
+    }));
+
+  const all = [...plan.products, ...plan.prices, ...plan.meters];
+  plan.summary = {
+    to_create: all.filter(entry => entry.action === 'create').length,
+    to_reuse: all.filter(entry => entry.action === 'reuse').length,
+    untouched: all.filter(entry => entry.action === 'untouched').length
+  };
+
+  return plan;
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const audit = createAuditLogger(req, 'deploy-billing-model');
+
   try {
     logStep("Function started");
 
-    // Authenticate user
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Authorization header missing');
+    }
+
+    // Authenticate user; the forwarded header makes deployment writes go through RLS as that user
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
     );
 
-    const authHeader = req.headers.get('Authorization')!;
     const token = authHeader.replace('Bearer ', '');
     const { data } = await supabaseClient.auth.getUser(token);
     const user = data.user;
@@ -35,220 +441,345 @@ serve(async (req) => {
     if (!user) {
       throw new Error('User not authenticated');
     }
+    audit.setActor(user);
 
     logStep("User authenticated", { userId: user.id, email: user.email });
 
-    const { billingModel } = await req.json();
+    const {
+      billingModel: requestedModel,
+      billingModelId: requestedModelId = null,
+      modelVersion: requestedVersion = null,
+      dryRun = false,
+      deploymentId = null,
+      promoteFromDeploymentId = null,
+      organizationId: requestedOrganizationId = null
+    } = await req.json();
+
+    let deployment: DeploymentRow | null = null;
+    let promotedFrom: DeploymentRow | null = null;
+    let billingModel: DeployModel = requestedModel;
+    let billingModelId = requestedModelId;
+    let modelVersion = requestedVersion;
+    let organizationId = requestedOrganizationId;
+    // New deployments always go to test; live is only reached by promoting a completed test deployment
+    let mode: StripeMode = 'test';
+
+    if (deploymentId) {
+      // Resuming: always deploy the snapshot the job was started with
+      const { data: existing, error: deploymentError } = await supabaseClient
+        .from('billing_model_deployments')
+        .select('*')
+        .eq('id', deploymentId)
+        .single();
+
+      if (deploymentError || !existing) {
+        throw new Error(`Deployment not found: ${deploymentId}`);
+      }
+      if (existing.status === 'completed') {
+        throw new Error('Deployment already completed; nothing to resume');
+      }
+      if (existing.status === 'rolled_back' || existing.status === 'partially_rolled_back') {
+        throw new Error('Deployment was rolled back; start a new deployment instead');
+      }
+
+      deployment = existing;
+      billingModel = existing.billing_model;
+      organizationId = existing.organization_id;
+      mode = existing.mode;
+      logStep("Resuming deployment", { deploymentId, status: existing.status, mode });
+    } else if (promoteFromDeploymentId) {
+      // Promoting: replay the snapshot the test deployment deployed, this time against the live account
+      const { data: source, error: sourceError } = await supabaseClient
+        .from('billing_model_deployments')
+        .select('*')
+        .eq('id', promoteFromDeploymentId)
+        .single();
+
+      if (sourceError || !source) {
+        throw new Error(`Deployment not found: ${promoteFromDeploymentId}`);
+      }
+      if (source.mode !== 'test') {
+        throw new Error('Only test deployments can be promoted to live');
+      }
+      if (source.status !== 'completed') {
+        throw new Error('Only completed test deployments can be promoted; resume it or deploy again first');
+      }
+
+      promotedFrom = source;
+      billingModel = source.billing_model;
+      billingModelId = source.billing_model_id;
+      modelVersion = source.model_version;
+      organizationId = source.organization_id;
+      mode = 'live';
+      logStep("Promoting deployment", { promoteFromDeploymentId, dryRun });
+    } else if (billingModelId) {
+      // A saved model's deployments always belong to the model's organization; RLS rejects the insert
+      // below unless the caller is a member of it
+      const { data: modelRow, error: modelError } = await supabaseClient
+        .from('billing_models')
+        .select('organization_id')
+        .eq('id', billingModelId)
+        .single();
+
+      if (modelError || !modelRow) {
+        throw new Error(`Billing model not found: ${billingModelId}`);
+      }
+      organizationId = modelRow.organization_id;
+    }
 
     if (!billingModel || !billingModel.items) {
       throw new Error('Billing model with items is required');
     }
 
-    const stripeKey = Deno.env.get('STRIPE_SECRET_KEY');
-    if (!stripeKey) {
-      throw new Error('Stripe secret key not configured');
+    if (!(await hasRole(user.id, 'billing_editor', organizationId))) {
+      logStep("Permission denied", { userId: user.id, required: 'billing_editor', organizationId });
+      return new Response(
+        JSON.stringify({ success: false, error: 'This action requires the billing editor role' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      );
     }
 
-    const stripe = new Stripe(stripeKey, {
+    // Live deployments and promotions need the admin role, which getStripeKey enforces
+    const stripe = new Stripe(await getStripeKey(user.id, organizationId, mode), {
       apiVersion: '2023-10-16',
     });
 
-    logStep("Stripe client initialized");
+    audit.setContext({ organizationId, mode });
+    logStep("Stripe client initialized", { organizationId, mode });
+
+    const plan = await buildDeploymentPlan(stripe, billingModel, user.id);
+    logStep("Deployment plan built", plan.summary);
+
+    if (dryRun) {
+      return jsonResponse({ 
+        success: true,
+        dryRun: true,
+        mode,
+        plan
+      });
+    }
+
+    if (!deployment) {
+      if (!organizationId) {
+        throw new Error('organizationId is required to deploy an unsaved billing model');
+      }
+
+      // Unsaved models fall back to a random scope; saved ones key on model id + version (+ mode).
+      // Each rollback of that version bumps the scope so Stripe doesn't replay the archived objects.
+      let idempotencyScope = crypto.randomUUID();
+      if (billingModelId) {
+        const { count } = await supabaseClient
+          .from('billing_model_deployments')
+          .select('id', { count: 'exact', head: true })
+          .eq('billing_model_id', billingModelId)
+          .eq('model_version', modelVersion)
+          .eq('mode', mode)
+          .in('status', ['rolled_back', 'partially_rolled_back']);
+
+        idempotencyScope = `${billingModelId}:v${modelVersion ?? 0}${mode === 'live' ? ':live' : ''}${count ? `:r${count}` : ''}`;
+      }
+
+      const { data: created, error: createError } = await supabaseClient
+        .from('billing_model_deployments')
+        .insert({
+          user_id: user.id,
+          organization_id: organizationId,
+          billing_model_id: billingModelId,
+          model_version: modelVersion,
+          billing_model: billingModel,
+          plan,
+          status: 'pending',
+          idempotency_scope: idempotencyScope,
+          mode,
+          promoted_from_deployment_id: promotedFrom?.id ?? null
+        })
+        .select()
+        .single();
+
+      if (createError) {
+        throw new Error(`Failed to record deployment: ${createError.message}`);
+      }
+
+      const { error: itemsError } = await supabaseClient
+        .from('billing_model_deployment_items')
+        .insert(billingModel.items.map(item => ({
+          deployment_id: created.id,
+          user_id: user.id,
+          organization_id: organizationId,
+          item_id: item.id,
+          product_name: item.product
+        })));
+
+      if (itemsError) {
+        throw new Error(`Failed to record deployment items: ${itemsError.message}`);
+      }
+
+      deployment = created as DeploymentRow;
+      logStep("Deployment recorded", { deploymentId: deployment.id });
+    }
+
+    await supabaseClient
+      .from('billing_model_deployments')
+      .update({ status: 'running', attempts: deployment.attempts + 1 })
+      .eq('id', deployment.id);
+
+    const { data: itemStates, error: itemStatesError } = await supabaseClient
+      .from('billing_model_deployment_items')
+      .select('*')
+      .eq('deployment_id', deployment.id);
+
+    if (itemStatesError) {
+      throw new Error(`Failed to load deployment items: ${itemStatesError.message}`);
+    }
+
+    const modelKey = deployment.idempotency_scope || deployment.id;
 
     const results = {
-      products: [],
-      prices: [],
-      meters: [],
-      errors: []
+      products: [] as Stripe.Product[],
+      prices: [] as Stripe.Price[],
+      meters: [] as Stripe.Billing.Meter[],
+      reused: [] as { type: 'product' | 'price' | 'meter'; id: string }[],
+      errors: [] as string[]
     };
 
-    // Create products, prices, and meters for each billing item
+    // Create products, prices, and meters for each pending or failed item, reusing what the plan matched
     for (const item of billingModel.items) {
+      const state = (itemStates as DeploymentItemRow[]).find(row => row.item_id === item.id);
+      if (!state || state.status === 'succeeded') {
+        continue;
+      }
+
+      const updateItem = (fields: Record<string, unknown>) => supabaseClient
+        .from('billing_model_deployment_items')
+        .update(fields)
+        .eq('id', state.id);
+
       try {
-        logStep("Processing billing item", { product: item.product, type: item.type });
+        logStep("Processing billing item", { product: item.product, type: item.type, attempt: state.attempts + 1 });
+        await updateItem({ attempts: state.attempts + 1, error: null });
 
-        // Enhanced metadata with usage limits and billing configuration
-        const productMetadata = {
-          user_id: user.id,
-          billing_model_type: billingModel.type,
-          created_by: 'stripe-setup-pilot',
-          tier_id: item.metadata?.tier_id || '',
-          usage_limit_transactions: item.metadata?.usage_limit_transactions || '0',
-          usage_limit_ai_processing: item.metadata?.usage_limit_ai_processing || '0',
-          usage_limit_data_exports: item.metadata?.usage_limit_data_exports || '0',
-          usage_limit_api_calls: item.metadata?.usage_limit_api_calls || '0',
-          meter_rate: item.metadata?.meter_rate || '0',
-          package_credits: item.metadata?.package_credits || '0',
-          included_usage: item.metadata?.included_usage || '0',
-          usage_unit: item.metadata?.usage_unit || 'units',
-          meter_name: item.eventName || '',
-          features: item.metadata?.features || '',
-          ...item.metadata
-        };
-
-        // Create product
-        const product = await stripe.products.create({
-          name: item.product,
-          description: item.description || `${item.product} - ${item.type} billing`,
-          type: 'service',
-          metadata: productMetadata
-        });
-
-        results.products.push(product);
-        logStep("Product created", { productId: product.id, name: product.name });
-
-        // Create price based on billing type
-        if (billingModel.type === 'fixed-overage' && item.type === 'recurring') {
-          // Create flat rate price for base plan
-          const flatPrice = await stripe.prices.create({
-            product: product.id,
-            unit_amount: Math.round(item.unit_amount),
-            currency: item.currency.toLowerCase(),
-            recurring: {
-              interval: item.interval || 'month'
-            },
-            metadata: {
-              ...productMetadata,
-              price_type: 'base_plan'
-            }
-          });
-          results.prices.push(flatPrice);
-          logStep("Flat rate price created", { priceId: flatPrice.id });
-          
-        } else if (billingModel.type === 'fixed-overage' && item.type === 'metered') {
-          // Create graduated pricing for overage charges
-          const includedUsage = parseInt(productMetadata.included_usage || '0');
-          const meterRate = parseFloat(productMetadata.meter_rate || '0');
-          
-          if (includedUsage > 0 && meterRate > 0) {
-            const graduatedPrice = await stripe.prices.create({
-              product: product.id,
-              currency: item.currency.toLowerCase(),
-              billing_scheme: 'tiered',
-              recurring: {
-                interval: 'month',
-                usage_type: 'metered',
-                aggregate_usage: item.aggregate_usage || 'sum'
-              },
-              tiers_mode: 'graduated',
-              tiers: [
-                {
-                  up_to: includedUsage,
-                  unit_amount: 0, // Free within included usage
-                  flat_amount: 0
-                },
-                {
-                  up_to: 'inf',
-                  unit_amount: Math.round(meterRate * 100), // Convert to cents
-                  flat_amount: 0
-                }
-              ],
-              metadata: {
-                ...productMetadata,
-                price_type: 'overage_pricing'
-              }
-            });
-            results.prices.push(graduatedPrice);
-            logStep("Graduated overage price created", { priceId: graduatedPrice.id });
-          }
+        const productMetadata = buildProductMetadata(item, billingModel, user.id);
+        const productEntry = plan.products.find(entry => entry.item_id === item.id);
+
+        let productId = state.stripe_product_id;
+        if (productId) {
+          logStep("Product already deployed", { productId });
+        } else if (productEntry?.action === 'reuse' && productEntry.stripe_id) {
+          productId = productEntry.stripe_id;
+          results.reused.push({ type: 'product', id: productId });
+          await updateItem({ stripe_product_id: productId, product_action: 'reused' });
+          logStep("Product reused", { productId, name: item.product });
         } else {
-          // Standard price creation for other billing types
-          const priceData: any = {
-            product: product.id,
-            unit_amount: Math.round(item.unit_amount),
-            currency: item.currency.toLowerCase(),
-            metadata: {
-              ...productMetadata,
-              event_name: item.eventName
-            }
-          };
-
-          if (item.type === 'recurring' && item.interval) {
-            priceData.recurring = {
-              interval: item.interval
-            };
-          }
-
-          if (item.type === 'metered') {
-            priceData.billing_scheme = 'per_unit';
-            priceData.usage_type = 'metered';
-            priceData.recurring = {
-              interval: 'month',
-              usage_type: 'metered',
-              aggregate_usage: item.aggregate_usage || 'sum'
-            };
-          }
-
-          const price = await stripe.prices.create(priceData);
+          const product = await stripe.products.create({
+            name: item.product,
+            description: item.description || `${item.product} - ${item.type} billing`,
+            type: 'service',
+            metadata: productMetadata
+          }, { idempotencyKey: idempotencyKey(modelKey, item.id, 'product') });
+
+          productId = product.id;
+          results.products.push(product);
+          await audit.record({ action: 'product.create', objectType: 'product', objectId: product.id, after: product });
+          await updateItem({ stripe_product_id: productId, product_action: 'created' });
+          logStep("Product created", { productId: product.id, name: product.name });
+        }
+
+        const priceEntry = plan.prices.find(entry => entry.item_id === item.id);
+        if (state.stripe_price_id) {
+          logStep("Price already deployed", { priceId: state.stripe_price_id });
+        } else if (priceEntry?.action === 'reuse' && priceEntry.stripe_id) {
+          results.reused.push({ type: 'price', id: priceEntry.stripe_id });
+          await updateItem({ stripe_price_id: priceEntry.stripe_id, price_action: 'reused' });
+          logStep("Price reused", { priceId: priceEntry.stripe_id });
+        } else if (priceEntry?.action === 'create' && priceEntry.params) {
+          const price = await stripe.prices.create(
+            { ...priceEntry.params, product: productId },
+            { idempotencyKey: idempotencyKey(modelKey, item.id, 'price') }
+          );
           results.prices.push(price);
-          logStep("Standard price created", { priceId: price.id, amount: price.unit_amount });
+          await audit.record({ action: 'price.create', objectType: 'price', objectId: price.id, after: price });
+          await updateItem({ stripe_price_id: price.id, price_action: 'created' });
+          logStep("Price created", { priceId: price.id, amount: price.unit_amount, scheme: price.billing_scheme });
         }
 
         // Create meter for metered items
-        if (item.type === 'metered' && item.eventName) {
-          try {
-            const meter = await stripe.billing.meters.create({
-              display_name: item.product,
-              event_name: item.eventName,
-              customer_mapping: {
-                event_payload_key: 'customer_id',
-                type: 'by_id'
-              },
-              default_aggregation: {
-                formula: item.aggregate_usage || 'sum'
-              },
-              value_settings: {
-                event_payload_key: 'value'
-              }
-            });
-            results.meters.push(meter);
-            logStep("Meter created", { meterId: meter.id, eventName: meter.event_name });
-          } catch (meterError: any) {
-            logStep("Meter creation failed (might already exist)", { error: meterError.message });
-            results.errors.push(`Meter for ${item.product}: ${meterError.message}`);
-          }
+        const meterEntry = plan.meters.find(entry => entry.item_id === item.id);
+        if (state.stripe_meter_id) {
+          logStep("Meter already deployed", { meterId: state.stripe_meter_id });
+        } else if (meterEntry?.action === 'reuse' && meterEntry.stripe_id) {
+          results.reused.push({ type: 'meter', id: meterEntry.stripe_id });
+          await updateItem({ stripe_meter_id: meterEntry.stripe_id, meter_action: 'reused' });
+          logStep("Meter reused", { meterId: meterEntry.stripe_id });
+        } else if (meterEntry?.action === 'create' && meterEntry.params) {
+          const meter = await stripe.billing.meters.create(
+            meterEntry.params,
+            { idempotencyKey: idempotencyKey(modelKey, item.id, 'meter') }
+          );
+          results.meters.push(meter);
+          await audit.record({ action: 'meter.create', objectType: 'meter', objectId: meter.id, after: meter });
+          await updateItem({ stripe_meter_id: meter.id, meter_action: 'created' });
+          logStep("Meter created", { meterId: meter.id, eventName: meter.event_name });
         }
-      } catch (itemError: any) {
-        logStep("Error processing item", { product: item.product, error: itemError.message });
-        results.errors.push(`${item.product}: ${itemError.message}`);
+
+        await updateItem({ status: 'succeeded' });
+      } catch (itemError) {
+        logStep("Error processing item", { product: item.product, error: errorMessage(itemError) });
+        results.errors.push(`${item.product}: ${errorMessage(itemError)}`);
+        await updateItem({ status: 'failed', error: errorMessage(itemError) });
       }
     }
 
+    const { data: finalStates } = await supabaseClient
+      .from('billing_model_deployment_items')
+      .select('status')
+      .eq('deployment_id', deployment.id);
+
+    const succeeded = (finalStates || []).filter((row: { status: string }) => row.status === 'succeeded').length;
+    const total = (finalStates || []).length;
+    const status = succeeded === total ? 'completed' : succeeded > 0 ? 'partial' : 'failed';
+
+    await supabaseClient
+      .from('billing_model_deployments')
+      .update({ status, completed_at: status === 'completed' ? new Date().toISOString() : null })
+      .eq('id', deployment.id);
+
     logStep("Deployment completed", {
+      deploymentId: deployment.id,
+      status,
       products: results.products.length,
       prices: results.prices.length,
       meters: results.meters.length,
+      reused: results.reused.length,
       errors: results.errors.length
     });
 
-    return new Response(
-      JSON.stringify({ 
-        success: true,
-        results,
-        summary: {
-          products_created: results.products.length,
-          prices_created: results.prices.length,
-          meters_created: results.meters.length,
-          errors: results.errors.length
-        }
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
+    return jsonResponse({ 
+      success: true,
+      deployment: {
+        id: deployment.id,
+        mode,
+        status,
+        items_succeeded: succeeded,
+        items_total: total
+      },
+      results,
+      summary: {
+        products_created: results.products.length,
+        prices_created: results.prices.length,
+        meters_created: results.meters.length,
+        resources_reused: results.reused.length,
+        errors: results.errors.length
       }
-    );
-  } catch (error: any) {
-    logStep("ERROR in deploy-billing-model", { message: error.message });
+    });
+  } catch (error) {
+    logStep("ERROR in deploy-billing-model", { message: errorMessage(error) });
     
-    return new Response(
-      JSON.stringify({ 
-        success: false,
-        error: error.message 
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
-      }
-    );
+    return jsonResponse({ 
+      success: false,
+      error: errorMessage(error) 
+    }, error instanceof ForbiddenError ? 403 : 500);
   }
 });
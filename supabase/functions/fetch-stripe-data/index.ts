@@ -2,6 +2,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getStripeKey } from "../_shared/stripeKey.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -22,14 +23,6 @@ serve(async (req) => {
   try {
     logStep("Function started");
 
-    // Check for Stripe secret key
-    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
-    if (!stripeSecretKey) {
-      logStep("ERROR - Stripe secret key not configured");
-      throw new Error('Stripe secret key not configured in Supabase secrets. Please add STRIPE_SECRET_KEY to your edge function secrets.');
-    }
-    logStep("Stripe secret key found", { keyPrefix: stripeSecretKey.substring(0, 7) });
-
     // Authenticate user
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -52,6 +45,11 @@ serve(async (req) => {
     const user = data.user;
     logStep("User authenticated", { userId: user.id, email: user.email });
 
+    // Without an organization this lists the deployment's own plans, as the pricing page does
+    const { organizationId = null, mode = 'test' } = await req.json().catch(() => ({}));
+    const stripeSecretKey = await getStripeKey(user.id, organizationId, mode, 'read');
+    logStep("Stripe key resolved", { organizationId, mode });
+
     const stripe = new Stripe(stripeSecretKey, {
       apiVersion: '2023-10-16',
     });
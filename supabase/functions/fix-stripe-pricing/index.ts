@@ -2,6 +2,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createAuditLogger } from "../_shared/audit.ts";
+import { hasRole } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,6 +20,8 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const audit = createAuditLogger(req, 'fix-stripe-pricing');
+
   try {
     logStep("Function started");
     
@@ -43,6 +47,18 @@ serve(async (req) => {
     if (authError || !data.user) {
       throw new Error('User not authenticated');
     }
+    audit.setActor(data.user);
+
+    if (!(await hasRole(data.user.id, 'admin'))) {
+      logStep("Permission denied", { userId: data.user.id, required: 'admin' });
+      return new Response(
+        JSON.stringify({ success: false, error: 'This action requires the admin role' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      );
+    }
 
     const stripe = new Stripe(stripeSecretKey, {
       apiVersion: '2023-10-16',
@@ -111,11 +127,13 @@ serve(async (req) => {
         }
 
         const newPrice = await stripe.prices.create(priceData);
+        await audit.record({ action: 'price.create', objectType: 'price', objectId: newPrice.id, after: newPrice });
         
         // Set as default price
-        await stripe.products.update(product.id, {
+        const updatedProduct = await stripe.products.update(product.id, {
           default_price: newPrice.id
         });
+        await audit.record({ action: 'product.update', objectType: 'product', objectId: product.id, before: product, after: updatedProduct });
 
         results.push({
           product: product.name,
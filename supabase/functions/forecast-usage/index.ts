@@ -0,0 +1,386 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { LIVE_SUBSCRIPTION_STATUSES, meterScope, parseLimit, periodFor } from "../_shared/usage.ts";
+import { errorMessage } from "../_shared/errors.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[FORECAST-USAGE] ${step}${detailsStr}`);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Daily history used for weekday seasonality; the trend is fitted to the most recent TREND_DAYS of it
+const HISTORY_DAYS = 56;
+const TREND_DAYS = 28;
+// Below this much history the weekday factors are noise, so the forecast is flat and marked low confidence
+const MIN_SEASONAL_DAYS = 14;
+
+interface MeterForecast {
+  meter_name: string;
+  display_name: string;
+  unit_label: string;
+  used: number;
+  projected: number;
+  limit: number | null;
+  projected_overage: number;
+  projected_overage_cost: number; // In cents
+  projected_exceed_at: string | null;
+  confidence: 'low' | 'normal';
+}
+
+// The same calendar-month period record-usage-event reserves usage against (see periodFor)
+const currentPeriod = (now: Date) => {
+  const { periodStart, periodEnd } = periodFor(now);
+  return { periodStart: new Date(periodStart), periodEnd: new Date(periodEnd) };
+};
+
+// Ratio of each weekday's mean to the overall daily mean (Sunday = 0)
+const weekdayFactors = (days: { time: number; value: number }[]) => {
+  const mean = days.reduce((sum, day) => sum + day.value, 0) / (days.length || 1);
+  return Array.from({ length: 7 }, (_, weekday) => {
+    const values = days.filter(day => new Date(day.time).getUTCDay() === weekday).map(day => day.value);
+    if (mean === 0 || values.length === 0) return 1;
+    return values.reduce((sum, value) => sum + value, 0) / values.length / mean;
+  });
+};
+
+// Least-squares line through the deseasonalized daily values, evaluated at a day offset from the first
+const linearTrend = (values: number[]) => {
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  values.forEach((value, x) => {
+    covariance += (x - meanX) * (value - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  const slope = variance === 0 ? 0 : covariance / variance;
+  return (x: number) => meanY + slope * (x - meanX);
+};
+
+const forecastMeter = (
+  daily: Map<number, number>,
+  now: Date,
+  periodStart: Date,
+  periodEnd: Date,
+  limit: number | null
+) => {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const historyStart = today - HISTORY_DAYS * DAY_MS;
+
+  // Only days after the meter's first recorded usage count as history, so new accounts are not diluted by zeros
+  const firstDay = Math.min(...[...daily.keys()].filter(time => time >= historyStart), today);
+  const history: { time: number; value: number }[] = [];
+  for (let time = firstDay; time < today; time += DAY_MS) {
+    history.push({ time, value: daily.get(time) || 0 });
+  }
+
+  const seasonal = history.length >= MIN_SEASONAL_DAYS;
+  const factors = seasonal ? weekdayFactors(history) : Array(7).fill(1);
+  const factorFor = (time: number) => factors[new Date(time).getUTCDay()] || 1;
+
+  const recent = history.slice(-TREND_DAYS);
+  const todaySoFar = daily.get(today) || 0;
+  const elapsedToday = (now.getTime() - today) / DAY_MS;
+  const trend = recent.length >= 7
+    ? linearTrend(recent.map(day => day.value / factorFor(day.time)))
+    : () => recent.length > 0
+      ? recent.reduce((sum, day) => sum + day.value, 0) / recent.length
+      : todaySoFar / Math.max(elapsedToday, 1 / 24);
+  const expectedOn = (time: number) => Math.max(0, trend(recent.length + (time - today) / DAY_MS) * factorFor(time));
+
+  let used = 0;
+  daily.forEach((value, time) => {
+    if (time >= periodStart.getTime() && time < periodEnd.getTime()) used += value;
+  });
+
+  // Walk the rest of the period a day at a time to find when the running total crosses the limit
+  let projected = used;
+  let exceedAt: number | null = limit !== null && used > limit ? now.getTime() : null;
+  const addDay = (start: number, amount: number) => {
+    if (limit !== null && exceedAt === null && amount > 0 && projected + amount > limit) {
+      exceedAt = start + ((limit - projected) / amount) * (DAY_MS - (start % DAY_MS));
+    }
+    projected += amount;
+  };
+
+  // What today's expected usage has not reached yet; todaySoFar already covers the part of the day that has passed
+  addDay(now.getTime(), Math.max(0, expectedOn(today) - todaySoFar));
+  for (let time = today + DAY_MS; time < periodEnd.getTime(); time += DAY_MS) {
+    addDay(time, expectedOn(time));
+  }
+
+  return {
+    used,
+    projected,
+    exceedAt,
+    confidence: seasonal ? 'normal' as const : 'low' as const
+  };
+};
+
+const forecastUser = async (serviceClient: SupabaseClient, userId: string, now: Date) => {
+  const { periodStart, periodEnd } = currentPeriod(now);
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const from = new Date(Math.min(periodStart.getTime(), today - HISTORY_DAYS * DAY_MS));
+
+  const scope = await meterScope(serviceClient, userId);
+
+  const [{ data: rollups, error: rollupError }, { data: meters }, { data: subscription }] = await Promise.all([
+    serviceClient
+      .from('usage_rollups_daily')
+      .select('meter_id, bucket_start, total_usage')
+      .eq('user_id', userId)
+      .gte('bucket_start', from.toISOString()),
+    serviceClient
+      .from('usage_meters')
+      .select('id, name, display_name, unit_label')
+      .or(scope),
+    serviceClient
+      .from('subscriptions')
+      .select('tier_id, price_amount, usage_limits, overage_rate')
+      .eq('user_id', userId)
+      .in('status', LIVE_SUBSCRIPTION_STATUSES)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+  ]);
+
+  if (rollupError) {
+    throw new Error(`Failed to load usage history: ${rollupError.message}`);
+  }
+
+  const tierId = subscription?.tier_id ?? null;
+  const { data: policy } = tierId
+    ? await serviceClient
+      .from('tier_usage_policies')
+      .select('enforcement')
+      .eq('tier_id', tierId)
+      .maybeSingle()
+    : { data: null };
+  // Overage is only billed on tiers that accept usage past the limit
+  const overageRate = (policy?.enforcement ?? 'overage') === 'overage' ? parseFloat(subscription?.overage_rate ?? 0) : 0;
+
+  const dailyByMeter = new Map<string, Map<number, number>>();
+  (rollups || []).forEach(row => {
+    const daily = dailyByMeter.get(row.meter_id) || new Map<number, number>();
+    daily.set(new Date(row.bucket_start).getTime(), parseFloat(row.total_usage));
+    dailyByMeter.set(row.meter_id, daily);
+  });
+
+  const forecasts: MeterForecast[] = (meters || [])
+    .filter(meter => dailyByMeter.has(meter.id))
+    .map(meter => {
+      const limit = parseLimit(subscription?.usage_limits?.[meter.name]);
+      const { used, projected, exceedAt, confidence } = forecastMeter(
+        dailyByMeter.get(meter.id)!, now, periodStart, periodEnd, limit
+      );
+      const projectedOverage = limit !== null ? Math.max(projected - limit, 0) : 0;
+
+      return {
+        meter_name: meter.name,
+        display_name: meter.display_name,
+        unit_label: meter.unit_label,
+        used,
+        projected: Math.round(projected * 100) / 100,
+        limit,
+        projected_overage: Math.round(projectedOverage * 100) / 100,
+        projected_overage_cost: Math.round(projectedOverage * overageRate * 100),
+        projected_exceed_at: exceedAt !== null ? new Date(exceedAt).toISOString() : null,
+        confidence
+      };
+    });
+
+  const baseAmount = subscription?.price_amount ?? 0;
+  return {
+    period_start: periodStart.toISOString(),
+    period_end: periodEnd.toISOString(),
+    tier_id: tierId,
+    base_amount: baseAmount,
+    projected_bill: baseAmount + forecasts.reduce((sum, forecast) => sum + forecast.projected_overage_cost, 0),
+    currency: 'usd',
+    meters: forecasts
+  };
+};
+
+// Emails the user once per meter and period when a meter still under its allowance is projected to pass it
+const sendProjectedOverageAlerts = async (
+  serviceClient: SupabaseClient,
+  userId: string,
+  forecast: Awaited<ReturnType<typeof forecastUser>>
+) => {
+  const atRisk = forecast.meters.filter(meter =>
+    meter.limit !== null && meter.used <= meter.limit && meter.projected > meter.limit
+  );
+  if (atRisk.length === 0) return 0;
+
+  const { data: profile } = await serviceClient
+    .from('profiles')
+    .select('email')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (!profile?.email) {
+    logStep("No email for projected overage alert", { userId });
+    return 0;
+  }
+
+  let sent = 0;
+  for (const meter of atRisk) {
+    const { data: claimed, error: claimError } = await serviceClient
+      .from('usage_forecast_alerts')
+      .upsert({
+        user_id: userId,
+        meter_name: meter.meter_name,
+        period_start: forecast.period_start,
+        usage_limit: meter.limit,
+        projected_usage: meter.projected,
+        projected_exceed_at: meter.projected_exceed_at
+      }, { onConflict: 'user_id,meter_name,period_start', ignoreDuplicates: true })
+      .select('id');
+
+    if (claimError) {
+      logStep("Failed to claim forecast alert", { userId, meter: meter.meter_name, error: claimError.message });
+      continue;
+    }
+    if (!claimed || claimed.length === 0) continue;
+
+    const exceedDate = meter.projected_exceed_at
+      ? new Date(meter.projected_exceed_at).toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' })
+      : 'before the end of the period';
+    const cost = meter.projected_overage_cost > 0
+      ? `\n\nAt your plan's overage rate this would add about $${(meter.projected_overage_cost / 100).toFixed(2)} to your next invoice.`
+      : '';
+
+    const { data: result, error: sendError } = await serviceClient.functions.invoke('send-notification', {
+      body: {
+        to: profile.email,
+        subject: `You're on track to exceed your ${meter.display_name} allowance`,
+        message: `You have used ${meter.used.toLocaleString()} of ${meter.limit!.toLocaleString()} ${meter.unit_label} this period. ` +
+          `At your current pace you will reach the limit around ${exceedDate} and use about ${Math.round(meter.projected).toLocaleString()} ${meter.unit_label} by the end of the period.` +
+          cost +
+          `\n\nYou can review your usage or change plans from your dashboard.`,
+        type: 'usage_alert',
+        metadata: { meter_name: meter.meter_name, period_start: forecast.period_start, projected: meter.projected, limit: meter.limit }
+      }
+    });
+
+    if (sendError || !result?.success) {
+      // Release the claim so the next run tries again
+      await serviceClient.from('usage_forecast_alerts').delete().eq('id', claimed[0].id);
+      logStep("Forecast alert email failed", { userId, meter: meter.meter_name, error: sendError?.message || result?.error });
+      continue;
+    }
+
+    sent += 1;
+    logStep("Forecast alert sent", { userId, meter: meter.meter_name, projected: meter.projected, limit: meter.limit });
+  }
+
+  return sent;
+};
+
+// Projects end-of-period usage per meter. A signed-in user gets their own forecast back; the daily
+// 'forecast-usage' pg_cron job calls it with the service role key to forecast every user with a live
+// subscription. Both send projected overage alerts.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Authorization header missing');
+    }
+
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+      { auth: { persistSession: false } }
+    );
+
+    const now = new Date();
+    const token = authHeader.replace('Bearer ', '');
+
+    if (token !== serviceRoleKey) {
+      const { data, error: authError } = await serviceClient.auth.getUser(token);
+
+      if (authError || !data.user) {
+        logStep("Auth error", { error: authError });
+        throw new Error('User not authenticated');
+      }
+
+      const userId = data.user.id;
+      logStep("User authenticated", { userId });
+
+      const forecast = await forecastUser(serviceClient, userId, now);
+      const alertsSent = await sendProjectedOverageAlerts(serviceClient, userId, forecast);
+      logStep("Forecast calculated", { meters: forecast.meters.length, alertsSent });
+
+      return new Response(
+        JSON.stringify({ success: true, forecast, alerts_sent: alertsSent }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      );
+    }
+
+    logStep("Running as scheduled worker");
+
+    const { data: subscriptions, error: subscriptionsError } = await serviceClient
+      .from('subscriptions')
+      .select('user_id')
+      .in('status', LIVE_SUBSCRIPTION_STATUSES);
+
+    if (subscriptionsError) {
+      throw new Error(`Failed to load subscriptions: ${subscriptionsError.message}`);
+    }
+
+    const userIds = [...new Set((subscriptions || []).map(subscription => subscription.user_id))];
+    let alertsSent = 0;
+    let failed = 0;
+
+    for (const userId of userIds) {
+      try {
+        const forecast = await forecastUser(serviceClient, userId, now);
+        alertsSent += await sendProjectedOverageAlerts(serviceClient, userId, forecast);
+      } catch (error) {
+        // One user's bad data should not stop alerts for everyone else
+        failed += 1;
+        logStep("Forecast failed for user", { userId, message: errorMessage(error) });
+      }
+    }
+
+    logStep("Forecast run complete", { users: userIds.length, alertsSent, failed });
+
+    return new Response(
+      JSON.stringify({ success: true, users: userIds.length, alerts_sent: alertsSent, failed }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    logStep("ERROR in forecast-usage", { message: errorMessage(error) });
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage(error)
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
@@ -1,6 +1,8 @@
 
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getStripeKey } from "../_shared/stripeKey.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,13 +15,29 @@ serve(async (req) => {
   }
 
   try {
-    const { customerId, apiKey } = await req.json();
+    // Authenticate user
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Authorization header missing');
+    }
+
+    const { data: { user } } = await supabaseClient.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { customerId, organizationId, mode = 'test' } = await req.json();
 
-    if (!customerId || !apiKey) {
+    if (!customerId) {
       throw new Error('Missing required parameters');
     }
 
-    const stripe = new Stripe(apiKey, {
+    const stripe = new Stripe(await getStripeKey(user.id, organizationId, mode, 'read'), {
       apiVersion: '2023-10-16',
     });
 
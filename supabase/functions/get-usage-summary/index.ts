@@ -12,6 +12,40 @@ const logStep = (step: string, details?: any) => {
   console.log(`[GET-USAGE-SUMMARY] ${step}${detailsStr}`);
 };
 
+type Granularity = 'hour' | 'day' | 'month';
+
+const GRANULARITIES: Granularity[] = ['hour', 'day', 'month'];
+// Longest range each granularity may request, to keep a single response bounded
+const MAX_RANGE_DAYS: Record<Granularity | 'total', number> = { hour: 31, day: 366, month: 3660, total: 3660 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+// PostgREST caps each response at max_rows (1000), so rollup rows are read page by page
+const PAGE_SIZE = 1000;
+
+// Named periods kept for existing callers; start/end select an arbitrary range instead
+const periodRange = (period: string) => {
+  const now = new Date();
+
+  switch (period) {
+    case 'last_month':
+      return {
+        periodStart: new Date(now.getFullYear(), now.getMonth() - 1, 1),
+        periodEnd: new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59)
+      };
+    case 'current_week': {
+      const startOfWeek = new Date(now);
+      startOfWeek.setDate(now.getDate() - now.getDay());
+      startOfWeek.setHours(0, 0, 0, 0);
+      return { periodStart: startOfWeek, periodEnd: new Date(now) };
+    }
+    case 'current_month':
+    default:
+      return {
+        periodStart: new Date(now.getFullYear(), now.getMonth(), 1),
+        periodEnd: new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59)
+      };
+  }
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -20,17 +54,18 @@ serve(async (req) => {
   try {
     logStep("Function started");
 
-    // Authenticate user
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
-    );
-
     const authHeader = req.headers.get('Authorization');
     if (!authHeader) {
       throw new Error('Authorization header missing');
     }
 
+    // Authenticate user; the forwarded header lets get_usage_rollup read the rollups under RLS
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
     const token = authHeader.replace('Bearer ', '');
     const { data, error: authError } = await supabaseClient.auth.getUser(token);
     
@@ -42,73 +77,90 @@ serve(async (req) => {
     const user = data.user;
     logStep("User authenticated", { userId: user.id });
 
+    // Parameters may come from the JSON body (functions.invoke) or the query string
     const url = new URL(req.url);
-    const period = url.searchParams.get('period') || 'current_month';
-
-    // Calculate period dates
-    let periodStart: Date;
-    let periodEnd: Date;
-    const now = new Date();
-
-    switch (period) {
-      case 'current_month':
-        periodStart = new Date(now.getFullYear(), now.getMonth(), 1);
-        periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
-        break;
-      case 'last_month':
-        periodStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-        periodEnd = new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59);
-        break;
-      case 'current_week':
-        const startOfWeek = new Date(now);
-        startOfWeek.setDate(now.getDate() - now.getDay());
-        startOfWeek.setHours(0, 0, 0, 0);
-        periodStart = startOfWeek;
-        periodEnd = new Date(now);
-        break;
-      default:
-        periodStart = new Date(now.getFullYear(), now.getMonth(), 1);
-        periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const param = (name: string) => body[name] ?? url.searchParams.get(name) ?? undefined;
+
+    const period = param('period') || 'current_month';
+    const granularity = param('granularity') as Granularity | undefined;
+    if (granularity && !GRANULARITIES.includes(granularity)) {
+      throw new Error(`granularity must be one of: ${GRANULARITIES.join(', ')}`);
     }
 
-    logStep("Period calculated", { period, periodStart, periodEnd });
-
-    // Get usage summary with meter details
-    const { data: usageSummary, error: summaryError } = await supabaseClient
-      .from('usage_events')
-      .select(`
-        meter_id,
-        usage_meters!inner(name, display_name, unit_label),
-        value
-      `)
-      .eq('user_id', user.id)
-      .gte('created_at', periodStart.toISOString())
-      .lte('created_at', periodEnd.toISOString());
-
-    if (summaryError) {
-      throw new Error(`Failed to fetch usage summary: ${summaryError.message}`);
+    let { periodStart, periodEnd } = periodRange(period);
+    if (param('start') || param('end')) {
+      periodStart = new Date(param('start'));
+      periodEnd = param('end') ? new Date(param('end')) : new Date();
+      if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime())) {
+        throw new Error('start and end must be ISO 8601 timestamps');
+      }
+      if (periodEnd <= periodStart) {
+        throw new Error('end must be after start');
+      }
     }
 
-    // Aggregate usage by meter
-    const aggregatedUsage = usageSummary.reduce((acc: any, event: any) => {
-      const meterName = event.usage_meters.name;
-      if (!acc[meterName]) {
-        acc[meterName] = {
-          meter_name: meterName,
-          display_name: event.usage_meters.display_name,
-          unit_label: event.usage_meters.unit_label,
-          total_usage: 0,
-          event_count: 0
-        };
+    const maxDays = MAX_RANGE_DAYS[granularity || 'total'];
+    if (periodEnd.getTime() - periodStart.getTime() > maxDays * DAY_MS) {
+      throw new Error(`Ranges are limited to ${maxDays} days${granularity ? ` at ${granularity} granularity` : ''}`);
+    }
+
+    logStep("Period calculated", { period, periodStart, periodEnd, granularity });
+
+    const fetchRollup = async (rollupGranularity: Granularity | 'total') => {
+      const rows: { meter_id: string; bucket_start: string; total_usage: number; event_count: number }[] = [];
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data: page, error: rollupError } = await supabaseClient
+          .rpc('get_usage_rollup', {
+            p_user_id: user.id,
+            p_start: periodStart.toISOString(),
+            p_end: periodEnd.toISOString(),
+            p_granularity: rollupGranularity
+          })
+          .range(offset, offset + PAGE_SIZE - 1);
+
+        if (rollupError) {
+          throw new Error(`Failed to fetch usage summary: ${rollupError.message}`);
+        }
+        rows.push(...(page || []));
+        if (!page || page.length < PAGE_SIZE) return rows;
       }
-      acc[meterName].total_usage += parseFloat(event.value);
-      acc[meterName].event_count += 1;
-      return acc;
-    }, {});
+    };
+
+    const [totals, buckets, { data: meters, error: metersError }] = await Promise.all([
+      fetchRollup('total'),
+      granularity ? fetchRollup(granularity) : Promise.resolve([]),
+      supabaseClient.from('usage_meters').select('id, name, display_name, unit_label')
+    ]);
+
+    if (metersError) {
+      throw new Error(`Failed to load meters: ${metersError.message}`);
+    }
+    const metersById = new Map((meters || []).map(meter => [meter.id, meter]));
+
+    const summary = totals
+      .filter(row => metersById.has(row.meter_id))
+      .map(row => {
+        const meter = metersById.get(row.meter_id);
+        return {
+          meter_name: meter.name,
+          display_name: meter.display_name,
+          unit_label: meter.unit_label,
+          total_usage: parseFloat(String(row.total_usage)),
+          event_count: Number(row.event_count)
+        };
+      });
 
-    const summary = Object.values(aggregatedUsage);
+    const series = buckets
+      .filter(row => metersById.has(row.meter_id))
+      .map(row => ({
+        bucket_start: new Date(row.bucket_start).toISOString(),
+        meter_name: metersById.get(row.meter_id).name,
+        total_usage: parseFloat(String(row.total_usage)),
+        event_count: Number(row.event_count)
+      }));
 
-    logStep("Usage summary calculated", { summaryCount: summary.length });
+    logStep("Usage summary calculated", { summaryCount: summary.length, bucketCount: series.length });
 
     return new Response(
       JSON.stringify({ 
@@ -116,7 +168,9 @@ serve(async (req) => {
         period,
         period_start: periodStart.toISOString(),
         period_end: periodEnd.toISOString(),
-        usage_summary: summary
+        granularity: granularity ?? null,
+        usage_summary: summary,
+        series
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
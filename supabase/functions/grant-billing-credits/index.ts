@@ -2,6 +2,9 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createAuditLogger } from "../_shared/audit.ts";
+import { ForbiddenError, hasRole } from "../_shared/auth.ts";
+import { getStripeKey } from "../_shared/stripeKey.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,14 +21,11 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const audit = createAuditLogger(req, 'grant-billing-credits');
+
   try {
     logStep("Function started");
     
-    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
-    if (!stripeSecretKey) {
-      throw new Error('Stripe secret key not configured');
-    }
-
     // Authenticate user
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -43,8 +43,20 @@ serve(async (req) => {
     if (authError || !data.user) {
       throw new Error('User not authenticated');
     }
+    audit.setActor(data.user);
 
-    const { customerId, amount, currency = 'usd', category = 'paid', expiresInDays = 365 } = await req.json();
+    const { customerId, amount, currency = 'usd', category = 'paid', expiresInDays = 365, organizationId, mode = 'test' } = await req.json();
+
+    if (!(await hasRole(data.user.id, 'billing_editor', organizationId))) {
+      logStep("Permission denied", { userId: data.user.id, required: 'billing_editor' });
+      return new Response(
+        JSON.stringify({ success: false, error: 'This action requires the billing editor role' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      );
+    }
 
     if (!customerId || !amount) {
       throw new Error('Missing required parameters: customerId and amount');
@@ -52,9 +64,10 @@ serve(async (req) => {
 
     logStep("Request validated", { customerId, amount, currency, category });
 
-    const stripe = new Stripe(stripeSecretKey, {
+    const stripe = new Stripe(await getStripeKey(data.user.id, organizationId, mode), {
       apiVersion: '2023-10-16',
     });
+    audit.setContext({ organizationId, mode });
 
     // Calculate expiration date (1 year from now by default)
     const expiresAt = Math.floor(Date.now() / 1000) + (expiresInDays * 24 * 60 * 60);
@@ -78,6 +91,8 @@ serve(async (req) => {
       expires_at: expiresAt
     });
 
+    await audit.record({ action: 'credit_grant.create', objectType: 'credit_grant', objectId: creditGrant.id, after: creditGrant });
+
     logStep("Credit grant created successfully", { 
       creditGrantId: creditGrant.id, 
       amount: amount,
@@ -107,7 +122,7 @@ serve(async (req) => {
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
+        status: error instanceof ForbiddenError ? 403 : 500,
       }
     );
   }
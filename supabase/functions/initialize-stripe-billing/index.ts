@@ -2,6 +2,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createAuditLogger } from "../_shared/audit.ts";
+import { hasRole } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,6 +20,8 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const audit = createAuditLogger(req, 'initialize-stripe-billing');
+
   try {
     logStep("Function started");
     
@@ -45,9 +49,21 @@ serve(async (req) => {
       logStep("Auth error", { error: authError });
       throw new Error('User not authenticated');
     }
+    audit.setActor(data.user);
 
     logStep("User authenticated", { email: data.user.email });
 
+    if (!(await hasRole(data.user.id, 'admin'))) {
+      logStep("Permission denied", { userId: data.user.id, required: 'admin' });
+      return new Response(
+        JSON.stringify({ success: false, error: 'This action requires the admin role' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      );
+    }
+
     const stripe = new Stripe(stripeSecretKey, {
       apiVersion: '2023-10-16',
     });
@@ -72,6 +88,7 @@ serve(async (req) => {
         },
       });
       meters.push(transactionMeter);
+      await audit.record({ action: 'meter.create', objectType: 'meter', objectId: transactionMeter.id, after: transactionMeter });
       logStep("Transaction meter created", { meterId: transactionMeter.id });
 
       // AI Processing meter
@@ -90,6 +107,7 @@ serve(async (req) => {
         },
       });
       meters.push(aiProcessingMeter);
+      await audit.record({ action: 'meter.create', objectType: 'meter', objectId: aiProcessingMeter.id, after: aiProcessingMeter });
       logStep("AI Processing meter created", { meterId: aiProcessingMeter.id });
     } catch (error: any) {
       logStep("Meter creation failed, continuing without meters", { error: error.message });
@@ -201,6 +219,7 @@ serve(async (req) => {
         });
 
         logStep(`Product created: ${product.id}`, { name: product.name });
+        await audit.record({ action: 'product.create', objectType: 'product', objectId: product.id, after: product });
 
         // Create the main recurring price - ALL PLANS ARE RECURRING MONTHLY
         const priceData: any = {
@@ -219,6 +238,7 @@ serve(async (req) => {
 
         const price = await stripe.prices.create(priceData);
         logStep(`Main recurring price created: ${price.id}`, { amount: plan.price });
+        await audit.record({ action: 'price.create', objectType: 'price', objectId: price.id, after: price });
 
         // Create graduated pricing for usage limits if applicable
         const additionalPrices = [];
@@ -253,6 +273,7 @@ serve(async (req) => {
             }
           });
           additionalPrices.push(transactionOveragePrice);
+          await audit.record({ action: 'price.create', objectType: 'price', objectId: transactionOveragePrice.id, after: transactionOveragePrice });
           logStep(`Transaction overage price created: ${transactionOveragePrice.id}`);
 
           // Create overage pricing for AI processing
@@ -286,14 +307,16 @@ serve(async (req) => {
               }
             });
             additionalPrices.push(aiOveragePrice);
+            await audit.record({ action: 'price.create', objectType: 'price', objectId: aiOveragePrice.id, after: aiOveragePrice });
             logStep(`AI processing overage price created: ${aiOveragePrice.id}`);
           }
         }
 
         // Set the main price as default
-        await stripe.products.update(product.id, {
+        const updatedProduct = await stripe.products.update(product.id, {
           default_price: price.id
         });
+        await audit.record({ action: 'product.update', objectType: 'product', objectId: product.id, before: product, after: updatedProduct });
 
         results.push({
           product_id: product.id,
@@ -0,0 +1,254 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { fromBase64 } from "../_shared/stripeKey.ts";
+import { errorMessage } from "../_shared/errors.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[MANAGE-STRIPE-CREDENTIALS] ${step}${detailsStr}`);
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const getEncryptionKey = async (usage: KeyUsage) => {
+  const rawKey = Deno.env.get('STRIPE_CREDENTIALS_ENCRYPTION_KEY');
+  if (!rawKey) {
+    throw new Error('STRIPE_CREDENTIALS_ENCRYPTION_KEY is not configured');
+  }
+  return crypto.subtle.importKey('raw', fromBase64(rawKey), 'AES-GCM', false, [usage]);
+};
+
+const encryptSecret = async (secret: string) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getEncryptionKey('encrypt'),
+    new TextEncoder().encode(secret)
+  );
+  return { encrypted_key: toBase64(new Uint8Array(ciphertext)), key_iv: toBase64(iv) };
+};
+
+interface StoredCredential {
+  stripe_account_id: string | null;
+  account_name: string | null;
+  key_last4: string;
+  mode: string;
+  created_at: string;
+  rotated_at: string | null;
+}
+
+// Only what the UI needs to show the connection; never the key itself
+const toStatus = (credential: StoredCredential | null) => credential
+  ? {
+    connected: true,
+    account_id: credential.stripe_account_id,
+    account_name: credential.account_name,
+    key_last4: credential.key_last4,
+    mode: credential.mode,
+    connected_at: credential.created_at,
+    rotated_at: credential.rotated_at
+  }
+  : { connected: false };
+
+// Connects, rotates or revokes an organization's Stripe secret key for test or live mode. Any member can
+// read the status; only organization owners can change the keys.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Authorization header missing');
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data, error: authError } = await serviceClient.auth.getUser(token);
+
+    if (authError || !data.user) {
+      logStep("Auth error", { error: authError });
+      throw new Error('User not authenticated');
+    }
+
+    const user = data.user;
+    const { action = 'status', organizationId, mode = 'test', secretKey } = await req.json().catch(() => ({}));
+
+    if (!organizationId) {
+      throw new Error('organizationId is required');
+    }
+    if (mode !== 'test' && mode !== 'live') {
+      throw new Error(`Unknown mode: ${mode}`);
+    }
+
+    const { data: membership } = await serviceClient
+      .from('organization_members')
+      .select('role')
+      .eq('organization_id', organizationId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!membership) {
+      return jsonResponse({ success: false, error: 'You are not a member of this organization' }, 403);
+    }
+
+    logStep("Member authenticated", { userId: user.id, organizationId, role: membership.role, action, mode });
+
+    const { data: existing, error: existingError } = await serviceClient
+      .from('stripe_credentials')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('mode', mode)
+      .maybeSingle();
+
+    if (existingError) {
+      throw new Error(`Failed to load Stripe credentials: ${existingError.message}`);
+    }
+
+    if (action === 'status') {
+      return jsonResponse({ success: true, ...toStatus(existing) });
+    }
+
+    if (membership.role !== 'owner') {
+      logStep("Permission denied", { userId: user.id, required: 'owner' });
+      return jsonResponse({ success: false, error: 'Only organization owners can change the Stripe connection' }, 403);
+    }
+
+    if (action === 'revoke') {
+      if (existing) {
+        const { error: deleteError } = await serviceClient
+          .from('stripe_credentials')
+          .delete()
+          .eq('id', existing.id);
+
+        if (deleteError) {
+          throw new Error(`Failed to revoke Stripe credentials: ${deleteError.message}`);
+        }
+
+        // Keep pointing at the account of the other mode's key while one is still connected
+        const { data: remaining } = await serviceClient
+          .from('stripe_credentials')
+          .select('stripe_account_id')
+          .eq('organization_id', organizationId)
+          .maybeSingle();
+
+        await serviceClient
+          .from('organizations')
+          .update({ stripe_account_id: remaining?.stripe_account_id ?? null })
+          .eq('id', organizationId);
+      }
+
+      logStep("Credentials revoked", { organizationId, mode });
+      return jsonResponse({ success: true, connected: false });
+    }
+
+    if (action !== 'connect' && action !== 'rotate') {
+      throw new Error(`Unknown action: ${action}`);
+    }
+
+    if (typeof secretKey !== 'string' || !new RegExp(`^(sk|rk)_${mode}_`).test(secretKey)) {
+      throw new Error(`A ${mode} mode Stripe secret (sk_${mode}_) or restricted (rk_${mode}_) key is required`);
+    }
+
+    if (action === 'rotate' && !existing) {
+      throw new Error(`Stripe ${mode} mode is not connected yet; connect it first`);
+    }
+    if (action === 'connect' && existing) {
+      throw new Error(`Stripe ${mode} mode is already connected; rotate the key or disconnect first`);
+    }
+
+    // Validating against Stripe also tells us which account the key belongs to
+    const stripe = new Stripe(secretKey, {
+      apiVersion: '2023-10-16',
+    });
+
+    let account: Stripe.Account;
+    try {
+      account = await stripe.accounts.retrieve();
+    } catch (stripeError) {
+      logStep("Key validation failed", { message: errorMessage(stripeError) });
+      throw new Error(`Stripe rejected the key: ${errorMessage(stripeError)}`);
+    }
+
+    // Rotation replaces the key for the same account; switching accounts is a disconnect + connect
+    if (existing && existing.stripe_account_id !== account.id) {
+      throw new Error(`The new key belongs to ${account.id}, not the connected account ${existing.stripe_account_id}`);
+    }
+
+    // Test and live keys must come from the same account, which organizations.stripe_account_id records
+    const otherMode = mode === 'test' ? 'live' : 'test';
+    const { data: other, error: otherError } = await serviceClient
+      .from('stripe_credentials')
+      .select('stripe_account_id')
+      .eq('organization_id', organizationId)
+      .eq('mode', otherMode)
+      .maybeSingle();
+
+    if (otherError) {
+      throw new Error(`Failed to load Stripe credentials: ${otherError.message}`);
+    }
+
+    if (other?.stripe_account_id && other.stripe_account_id !== account.id) {
+      throw new Error(
+        `The new key belongs to ${account.id}, but ${otherMode} mode is connected to ${other.stripe_account_id}; use a key from that account`
+      );
+    }
+
+    const credential = {
+      organization_id: organizationId,
+      ...(await encryptSecret(secretKey)),
+      key_last4: secretKey.slice(-4),
+      mode,
+      stripe_account_id: account.id,
+      account_name: account.business_profile?.name || account.settings?.dashboard?.display_name || null,
+      connected_by: user.id,
+      rotated_at: existing ? new Date().toISOString() : null
+    };
+
+    const { data: saved, error: saveError } = await serviceClient
+      .from('stripe_credentials')
+      .upsert(credential, { onConflict: 'organization_id,mode' })
+      .select()
+      .single();
+
+    if (saveError) {
+      throw new Error(`Failed to save Stripe credentials: ${saveError.message}`);
+    }
+
+    await serviceClient
+      .from('organizations')
+      .update({ stripe_account_id: account.id })
+      .eq('id', organizationId);
+
+    logStep(existing ? "Key rotated" : "Stripe connected", { organizationId, mode, accountId: account.id });
+
+    return jsonResponse({ success: true, ...toStatus(saved) });
+  } catch (error) {
+    logStep("ERROR in manage-stripe-credentials", { message: errorMessage(error) });
+
+    return jsonResponse({
+      success: false,
+      error: errorMessage(error)
+    }, 500);
+  }
+});
@@ -0,0 +1,134 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { hasRole } from "../_shared/auth.ts";
+import { errorMessage } from "../_shared/errors.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[MANAGE-USER-ROLES] ${step}${detailsStr}`);
+};
+
+const ROLES = ['owner', 'admin', 'billing_editor', 'viewer'];
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+// Lists every user's role and changes roles by email. Owner only; roles are never written from the client.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Authorization header missing');
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data, error: authError } = await serviceClient.auth.getUser(token);
+
+    if (authError || !data.user) {
+      logStep("Auth error", { error: authError });
+      throw new Error('User not authenticated');
+    }
+
+    const user = data.user;
+    logStep("User authenticated", { userId: user.id });
+
+    if (!(await hasRole(user.id, 'owner'))) {
+      logStep("Permission denied", { userId: user.id, required: 'owner' });
+      return jsonResponse({ success: false, error: 'This action requires the owner role' }, 403);
+    }
+
+    const { action = 'list', email, role } = await req.json().catch(() => ({}));
+
+    if (action === 'list') {
+      const { data: roles, error: rolesError } = await serviceClient
+        .from('user_roles')
+        .select('user_id, role, updated_at')
+        .order('created_at', { ascending: true });
+
+      if (rolesError) {
+        throw new Error(`Failed to load roles: ${rolesError.message}`);
+      }
+
+      const { data: profiles } = await serviceClient
+        .from('profiles')
+        .select('id, email')
+        .in('id', (roles || []).map(row => row.user_id));
+      const emails = new Map((profiles || []).map(profile => [profile.id, profile.email]));
+
+      return jsonResponse({
+        success: true,
+        users: (roles || []).map(row => ({ ...row, email: emails.get(row.user_id) ?? null }))
+      });
+    }
+
+    if (action !== 'set') {
+      throw new Error(`Unknown action: ${action}`);
+    }
+
+    if (typeof email !== 'string' || !email || !ROLES.includes(role)) {
+      throw new Error(`email and a role (${ROLES.join(', ')}) are required`);
+    }
+
+    const { data: profile } = await serviceClient
+      .from('profiles')
+      .select('id')
+      // Case-insensitive, but % and _ in the address must match literally rather than as wildcards
+      .ilike('email', email.replace(/[\\%_]/g, '\\$&'))
+      .maybeSingle();
+
+    if (!profile) {
+      throw new Error(`No user found with email ${email}`);
+    }
+
+    // An account must always keep at least one owner
+    if (role !== 'owner') {
+      const { data: owners } = await serviceClient
+        .from('user_roles')
+        .select('user_id')
+        .eq('role', 'owner');
+
+      if ((owners || []).length === 1 && owners![0].user_id === profile.id) {
+        throw new Error('Cannot remove the last owner; promote another user to owner first');
+      }
+    }
+
+    const { error: upsertError } = await serviceClient
+      .from('user_roles')
+      .upsert({ user_id: profile.id, role, granted_by: user.id }, { onConflict: 'user_id' });
+
+    if (upsertError) {
+      throw new Error(`Failed to update role: ${upsertError.message}`);
+    }
+
+    logStep("Role updated", { targetUserId: profile.id, role, grantedBy: user.id });
+
+    return jsonResponse({ success: true, user_id: profile.id, role });
+  } catch (error) {
+    logStep("ERROR in manage-user-roles", { message: errorMessage(error) });
+
+    return jsonResponse({
+      success: false,
+      error: errorMessage(error)
+    }, 500);
+  }
+});
@@ -0,0 +1,388 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  AuthError,
+  authenticate,
+  isOwnCustomer,
+  isStripeCustomerId,
+  loadTierUsage,
+  meterScope,
+  parseLimit,
+  periodFor,
+  reserveUsage,
+  type MeterAccount
+} from "../_shared/usage.ts";
+import { errorMessage } from "../_shared/errors.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, x-api-key, content-type',
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[RECORD-USAGE-BATCH] ${step}${detailsStr}`);
+};
+
+const MAX_BATCH_SIZE = 1000;
+const INSERT_CHUNK_SIZE = 500;
+// Keeps .in() filters well under URL length limits
+const LOOKUP_CHUNK_SIZE = 200;
+// Stripe only accepts meter events from the last 35 days and up to 5 minutes in the future
+const MAX_EVENT_AGE_MS = 35 * 24 * 60 * 60 * 1000;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+interface BatchEvent {
+  meter_name: string;
+  value?: number | string;
+  timestamp?: string | number;
+  idempotency_key: string;
+  metadata?: Record<string, unknown>;
+  customer_id?: string | null;
+}
+
+interface EventResult {
+  index: number;
+  idempotency_key: string | null;
+  status: 'accepted' | 'duplicate' | 'rejected';
+  event_id?: string;
+  overage?: boolean;
+  error?: string;
+}
+
+interface UsageMeter extends MeterAccount {
+  id: string;
+  name: string;
+  event_name: string;
+}
+
+interface PendingEvent {
+  index: number;
+  key: string;
+  meter: UsageMeter;
+  value: number;
+  occurredAt: Date;
+  periodStart: string;
+  periodEnd: string;
+  metadata: Record<string, unknown>;
+  customerId: string | null;
+  overage: boolean;
+}
+
+interface ReservationGroup {
+  meter: PendingEvent['meter'];
+  periodStart: string;
+  periodEnd: string;
+  limit: number | null;
+  candidates: PendingEvent[];
+  total: number;
+}
+
+// Numeric timestamps are Unix seconds, as in Stripe; strings are parsed as ISO 8601
+const parseTimestamp = (timestamp: string | number | undefined) => {
+  if (timestamp === undefined || timestamp === null) return new Date();
+  return typeof timestamp === 'number' || /^\d+$/.test(timestamp)
+    ? new Date(Number(timestamp) * 1000)
+    : new Date(timestamp);
+};
+
+const chunk = <T,>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+const groupKey = (meterId: string, periodStart: string) => `${meterId}|${periodStart}`;
+
+// Gives back usage reserved for events that were never stored; returns the amount released per group
+const releaseUsage = async (supabaseClient: SupabaseClient, userId: string, candidates: PendingEvent[]) => {
+  const released = new Map<string, number>();
+  const byGroup = new Map<string, PendingEvent[]>();
+  candidates.forEach(candidate => {
+    const key = groupKey(candidate.meter.id, candidate.periodStart);
+    byGroup.set(key, [...(byGroup.get(key) || []), candidate]);
+  });
+
+  for (const [key, group] of byGroup) {
+    const value = group.reduce((sum, candidate) => sum + candidate.value, 0);
+    await reserveUsage(supabaseClient, userId, group[0].meter.id, group[0], [-value])
+      .then(() => released.set(key, value))
+      .catch((error: Error) => logStep("Usage release failed", { key, error: error.message }));
+  }
+  return released;
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const { userId, apiKey, supabaseClient } = await authenticate(req, logStep);
+
+    const { events } = await req.json();
+    if (!Array.isArray(events) || events.length === 0) {
+      throw new Error('events must be a non-empty array');
+    }
+    if (events.length > MAX_BATCH_SIZE) {
+      throw new Error(`A batch accepts at most ${MAX_BATCH_SIZE} events, got ${events.length}`);
+    }
+    logStep("Batch received", { count: events.length });
+
+    const results: EventResult[] = events.map((event: BatchEvent, index: number) => ({
+      index,
+      idempotency_key: typeof event?.idempotency_key === 'string' ? event.idempotency_key : null,
+      status: 'accepted'
+    }));
+    const reject = (index: number, error: string) => {
+      results[index].status = 'rejected';
+      results[index].error = error;
+    };
+
+    const meterNames = [...new Set(events.map((event: BatchEvent) => event?.meter_name).filter(Boolean))];
+    const { data: meters, error: metersError } = await supabaseClient
+      .from('usage_meters')
+      .select('*')
+      .in('name', meterNames)
+      .or(await meterScope(supabaseClient, userId));
+
+    if (metersError) {
+      throw new Error(`Failed to load meters: ${metersError.message}`);
+    }
+    const metersByName = new Map((meters || []).map(meter => [meter.name, meter]));
+
+    // Validate each event on its own so one bad event does not sink the batch
+    const now = Date.now();
+    const seenKeys = new Set<string>();
+    let candidates: PendingEvent[] = [];
+
+    events.forEach((event: BatchEvent, index: number) => {
+      const key = results[index].idempotency_key;
+      if (!key || key.length > 255) {
+        return reject(index, 'idempotency_key is required and must be at most 255 characters');
+      }
+      if (seenKeys.has(key)) {
+        return reject(index, 'idempotency_key appears more than once in this batch');
+      }
+      seenKeys.add(key);
+
+      const meter = metersByName.get(event.meter_name);
+      if (!meter) {
+        return reject(index, `Meter not found: ${event.meter_name}`);
+      }
+      if (apiKey && !apiKey.meter_names.includes(meter.name)) {
+        return reject(index, `API key is not scoped to meter: ${meter.name}`);
+      }
+
+      const value = parseFloat(String(event.value ?? 1));
+      if (isNaN(value) || value < 0) {
+        return reject(index, 'value must be a non-negative number');
+      }
+
+      const customerId = event.customer_id ?? null;
+      // A signed-in user's events always bill their own account; only servers using an API key report for customers
+      if (customerId !== null && !apiKey) {
+        return reject(index, 'customer_id can only be set when reporting with an API key');
+      }
+      if (customerId !== null && !isStripeCustomerId(customerId)) {
+        return reject(index, 'customer_id must be a Stripe customer id (cus_...)');
+      }
+
+      const occurredAt = parseTimestamp(event.timestamp);
+      if (isNaN(occurredAt.getTime())) {
+        return reject(index, 'timestamp must be ISO 8601 or Unix seconds');
+      }
+      if (occurredAt.getTime() > now + MAX_CLOCK_SKEW_MS || occurredAt.getTime() < now - MAX_EVENT_AGE_MS) {
+        return reject(index, 'timestamp must be within the last 35 days');
+      }
+
+      candidates.push({
+        index,
+        key,
+        meter,
+        value,
+        occurredAt,
+        ...periodFor(occurredAt),
+        metadata: event.metadata || {},
+        customerId,
+        overage: false
+      });
+    });
+
+    // Each customer is checked once per Stripe account its meters report to
+    const ownership = new Map<string, Promise<boolean>>();
+    const owned = await Promise.all(candidates.map(candidate => {
+      if (candidate.customerId === null) return true;
+      const ownershipKey = `${candidate.meter.organization_id ?? 'platform'}|${candidate.meter.mode}|${candidate.customerId}`;
+      if (!ownership.has(ownershipKey)) {
+        ownership.set(ownershipKey, isOwnCustomer(userId, candidate.meter, candidate.customerId));
+      }
+      return ownership.get(ownershipKey)!;
+    }));
+    candidates = candidates.filter((candidate, i) => {
+      if (!owned[i]) reject(candidate.index, `customer_id is not a customer of this account: ${candidate.customerId}`);
+      return owned[i];
+    });
+
+    // Keys stored by an earlier request are reported as duplicates rather than errors, so retries are safe
+    const existingKeys = new Map<string, string>();
+    for (const keys of chunk(candidates.map(candidate => candidate.key), LOOKUP_CHUNK_SIZE)) {
+      const { data: existing, error: existingError } = await supabaseClient
+        .from('usage_events')
+        .select('id, idempotency_key')
+        .eq('user_id', userId)
+        .in('idempotency_key', keys);
+
+      if (existingError) {
+        throw new Error(`Failed to check idempotency keys: ${existingError.message}`);
+      }
+      (existing || []).forEach(row => existingKeys.set(row.idempotency_key, row.id));
+    }
+
+    const fresh = candidates.filter(candidate => {
+      const existingId = existingKeys.get(candidate.key);
+      if (existingId) {
+        results[candidate.index].status = 'duplicate';
+        results[candidate.index].event_id = existingId;
+        return false;
+      }
+      return true;
+    });
+
+    const { tierId, usageLimits, policy } = await loadTierUsage(supabaseClient, userId);
+
+    // Each meter and period is reserved in one locked step with its values in event order, so concurrent
+    // batches cannot both slip under a 'reject' limit; other policies reserve everything and flag overage
+    const groups = new Map<string, ReservationGroup>();
+    fresh.forEach(candidate => {
+      const key = groupKey(candidate.meter.id, candidate.periodStart);
+      const group = groups.get(key) || {
+        meter: candidate.meter,
+        periodStart: candidate.periodStart,
+        periodEnd: candidate.periodEnd,
+        limit: parseLimit(usageLimits[candidate.meter.name]),
+        candidates: [],
+        total: 0
+      };
+      group.candidates.push(candidate);
+      groups.set(key, group);
+    });
+
+    const accepted: PendingEvent[] = [];
+    for (const group of groups.values()) {
+      let reservation;
+      try {
+        reservation = await reserveUsage(
+          supabaseClient,
+          userId,
+          group.meter.id,
+          group,
+          group.candidates.map(candidate => candidate.value),
+          policy.enforcement === 'reject' ? group.limit : null
+        );
+      } catch (error) {
+        await releaseUsage(supabaseClient, userId, accepted);
+        throw error;
+      }
+
+      let used = reservation.previousTotal;
+      group.candidates.forEach((candidate, i) => {
+        if (!reservation.accepted[i]) {
+          reject(candidate.index, `Usage limit of ${group.limit} ${group.meter.name} reached for the ${tierId} plan`);
+          return;
+        }
+        used += candidate.value;
+        candidate.overage = policy.enforcement === 'overage' && group.limit !== null && used > group.limit;
+        accepted.push(candidate);
+      });
+      group.total = reservation.newTotal;
+    }
+
+    // Bulk insert as pending outbox entries that sync-usage-events forwards to Stripe; a key inserted
+    // concurrently by another request comes back missing and is a duplicate
+    const inserted = new Map<string, string>();
+    for (const batch of chunk(accepted, INSERT_CHUNK_SIZE)) {
+      const { data: rows, error: insertError } = await supabaseClient
+        .from('usage_events')
+        .upsert(batch.map(candidate => ({
+          user_id: userId,
+          meter_id: candidate.meter.id,
+          event_name: candidate.meter.event_name,
+          value: candidate.value,
+          metadata: candidate.metadata,
+          overage: candidate.overage,
+          idempotency_key: candidate.key,
+          api_key_id: apiKey?.id ?? null,
+          stripe_customer_id: candidate.customerId,
+          // Rollups and the Stripe meter event use the client's event time; created_at stays the insert time
+          occurred_at: candidate.occurredAt.toISOString()
+        })), { onConflict: 'user_id,idempotency_key', ignoreDuplicates: true })
+        .select('id, idempotency_key');
+
+      if (insertError) {
+        await releaseUsage(supabaseClient, userId, accepted.filter(candidate => !inserted.has(candidate.key)));
+        throw new Error(`Failed to record usage events: ${insertError.message}`);
+      }
+      (rows || []).forEach(row => inserted.set(row.idempotency_key, row.id));
+    }
+
+    const lost: PendingEvent[] = [];
+    const recorded = accepted.filter(candidate => {
+      const eventId = inserted.get(candidate.key);
+      results[candidate.index].event_id = eventId;
+      if (!eventId) {
+        results[candidate.index].status = 'duplicate';
+        lost.push(candidate);
+        return false;
+      }
+      results[candidate.index].overage = candidate.overage;
+      return true;
+    });
+    logStep("Usage events recorded", { recorded: recorded.length });
+
+    // Duplicates found at insert time were counted by the request that stored them
+    const released = await releaseUsage(supabaseClient, userId, lost);
+
+    const usage = [...groups.values()].map(group => {
+      const used = group.total - (released.get(groupKey(group.meter.id, group.periodStart)) || 0);
+      return {
+        meter: group.meter.name,
+        period_start: group.periodStart,
+        used,
+        limit: group.limit,
+        remaining: group.limit !== null ? Math.max(group.limit - used, 0) : null
+      };
+    });
+
+    const count = (status: EventResult['status']) => results.filter(result => result.status === status).length;
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        accepted: count('accepted'),
+        duplicates: count('duplicate'),
+        rejected: count('rejected'),
+        tier_id: tierId,
+        usage,
+        results
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    logStep("ERROR in record-usage-batch", { message: errorMessage(error) });
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage(error)
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error instanceof AuthError ? 401 : 500,
+      }
+    );
+  }
+});
@@ -1,11 +1,22 @@
 
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import Stripe from "https://esm.sh/stripe@14.21.0";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  AuthError,
+  authenticate,
+  isOwnCustomer,
+  isStripeCustomerId,
+  loadTierUsage,
+  meterScope,
+  parseLimit,
+  periodFor,
+  reserveUsage,
+  type Enforcement,
+  type UsagePolicy
+} from "../_shared/usage.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, x-api-key, content-type',
 };
 
 const logStep = (step: string, details?: any) => {
@@ -13,6 +24,72 @@ const logStep = (step: string, details?: any) => {
   console.log(`[RECORD-USAGE-EVENT] ${step}${detailsStr}`);
 };
 
+interface QuotaCheck {
+  tier_id: string | null;
+  meter: string;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  enforcement: Enforcement;
+  status: 'unlimited' | 'within_limit' | 'approaching_limit' | 'overage' | 'over_limit_warning' | 'rejected';
+  warning?: string;
+}
+
+const checkQuota = (
+  tierId: string | null,
+  meterName: string,
+  limit: number | null,
+  currentUsage: number,
+  value: number,
+  policy: UsagePolicy
+): QuotaCheck => {
+  const used = currentUsage + value;
+  const base = { tier_id: tierId, meter: meterName, limit, enforcement: policy.enforcement };
+
+  if (limit === null) {
+    return { ...base, used, remaining: null, status: 'unlimited' };
+  }
+
+  if (used <= limit) {
+    const approaching = used >= limit * policy.warn_at_ratio;
+    return {
+      ...base,
+      used,
+      remaining: limit - used,
+      status: approaching ? 'approaching_limit' : 'within_limit',
+      warning: approaching ? `${used} of ${limit} ${meterName} used this period` : undefined
+    };
+  }
+
+  switch (policy.enforcement) {
+    case 'reject':
+      // Rejected events are not recorded, so usage stays where it was
+      return {
+        ...base,
+        used: currentUsage,
+        remaining: Math.max(limit - currentUsage, 0),
+        status: 'rejected',
+        warning: `Usage limit of ${limit} ${meterName} reached for the ${tierId} plan`
+      };
+    case 'overage':
+      return {
+        ...base,
+        used,
+        remaining: 0,
+        status: 'overage',
+        warning: `${used - limit} ${meterName} over the included ${limit}; billed as overage`
+      };
+    default:
+      return {
+        ...base,
+        used,
+        remaining: 0,
+        status: 'over_limit_warning',
+        warning: `${used} of ${limit} ${meterName} used; consider upgrading your plan`
+      };
+  }
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -21,32 +98,43 @@ serve(async (req) => {
   try {
     logStep("Function started");
 
-    // Authenticate user
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
-    );
+    const { userId, apiKey, supabaseClient } = await authenticate(req, logStep);
 
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      throw new Error('Authorization header missing');
-    }
+    const { meter_name, value = 1, metadata = {}, customer_id = null } = await req.json();
 
-    const token = authHeader.replace('Bearer ', '');
-    const { data, error: authError } = await supabaseClient.auth.getUser(token);
-    
-    if (authError || !data.user) {
-      logStep("Auth error", { error: authError });
-      throw new Error('User not authenticated');
+    if (!meter_name) {
+      throw new Error('meter_name is required');
     }
 
-    const user = data.user;
-    logStep("User authenticated", { userId: user.id });
+    // A signed-in user's events always bill their own account; only servers using an API key report for customers
+    if (customer_id !== null && !apiKey) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'customer_id can only be set when reporting with an API key'
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400,
+        }
+      );
+    }
 
-    const { meter_name, value = 1, metadata = {} } = await req.json();
+    if (customer_id !== null && !isStripeCustomerId(customer_id)) {
+      throw new Error('customer_id must be a Stripe customer id (cus_...)');
+    }
 
-    if (!meter_name) {
-      throw new Error('meter_name is required');
+    if (apiKey && !apiKey.meter_names.includes(meter_name)) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `API key is not scoped to meter: ${meter_name}`
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      );
     }
 
     // Get meter configuration
@@ -54,6 +142,7 @@ serve(async (req) => {
       .from('usage_meters')
       .select('*')
       .eq('name', meter_name)
+      .or(await meterScope(supabaseClient, userId))
       .single();
 
     if (meterError || !meter) {
@@ -62,73 +151,86 @@ serve(async (req) => {
 
     logStep("Meter found", { meterId: meter.id, eventName: meter.event_name });
 
+    if (customer_id !== null && !(await isOwnCustomer(userId, meter, customer_id))) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `customer_id is not a customer of this account: ${customer_id}`
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      );
+    }
+
+    const numericValue = parseFloat(value);
+    if (isNaN(numericValue) || numericValue < 0) {
+      throw new Error('value must be a non-negative number');
+    }
+
+    const { tierId, usageLimits, policy } = await loadTierUsage(supabaseClient, userId);
+    const limit = parseLimit(usageLimits[meter_name]);
+
+    // The limit check and the increment happen under one row lock, so concurrent events cannot both
+    // slip under a 'reject' limit; other policies reserve unconditionally and only flag the overage
+    const period = periodFor(new Date());
+    const reservation = await reserveUsage(
+      supabaseClient, userId, meter.id, period, [numericValue], policy.enforcement === 'reject' ? limit : null
+    );
+
+    const quota = checkQuota(tierId, meter_name, limit, reservation.previousTotal, numericValue, policy);
+    logStep("Quota checked", { tierId, limit, used: quota.used, status: quota.status });
+
+    if (!reservation.accepted[0]) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: quota.warning,
+          quota
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 429,
+        }
+      );
+    }
+
     // Record usage event in Supabase
     const { data: usageEvent, error: usageError } = await supabaseClient
       .from('usage_events')
       .insert({
-        user_id: user.id,
+        user_id: userId,
         meter_id: meter.id,
         event_name: meter.event_name,
-        value: parseFloat(value),
-        metadata
+        value: numericValue,
+        metadata,
+        overage: quota.status === 'overage',
+        api_key_id: apiKey?.id ?? null,
+        stripe_customer_id: customer_id
       })
       .select()
       .single();
 
     if (usageError) {
+      // Hand back the reserved usage so the failed event does not count against the limit
+      await reserveUsage(supabaseClient, userId, meter.id, period, [-numericValue]).catch(releaseError =>
+        logStep("Usage release failed", { error: releaseError.message })
+      );
       throw new Error(`Failed to record usage event: ${usageError.message}`);
     }
 
     logStep("Usage event recorded", { eventId: usageEvent.id });
 
-    // Send to Stripe if meter has Stripe integration
-    let stripeEventId = null;
-    if (meter.stripe_meter_id) {
-      try {
-        const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
-        if (stripeSecretKey) {
-          const stripe = new Stripe(stripeSecretKey, {
-            apiVersion: '2023-10-16',
-          });
-
-          // Get customer ID
-          const customers = await stripe.customers.list({
-            email: user.email,
-            limit: 1,
-          });
-
-          if (customers.data.length > 0) {
-            const customerId = customers.data[0].id;
-
-            const meterEvent = await stripe.billing.meterEvents.create({
-              event_name: meter.event_name,
-              payload: {
-                customer_id: customerId,
-                value: parseFloat(value),
-                ...metadata
-              }
-            });
-
-            stripeEventId = meterEvent.identifier;
-            logStep("Stripe meter event created", { eventId: stripeEventId });
-
-            // Update usage event with Stripe ID
-            await supabaseClient
-              .from('usage_events')
-              .update({ stripe_event_id: stripeEventId })
-              .eq('id', usageEvent.id);
-          }
-        }
-      } catch (stripeError: any) {
-        logStep("Stripe error (non-fatal)", { error: stripeError.message });
-      }
-    }
-
+    // Forwarding to Stripe happens in sync-usage-events, which retries until the meter event lands
     return new Response(
       JSON.stringify({ 
         success: true,
         event_id: usageEvent.id,
-        stripe_event_id: stripeEventId,
+        sync_status: usageEvent.sync_status,
+        overage: quota.status === 'overage',
+        quota,
+        warning: quota.warning,
         message: 'Usage event recorded successfully'
       }),
       {
@@ -147,7 +249,7 @@ serve(async (req) => {
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
+        status: error instanceof AuthError ? 401 : 500,
       }
     );
   }
@@ -1,6 +1,8 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { getStripeKey } from '../_shared/stripeKey.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,18 +16,24 @@ serve(async (req) => {
   }
 
   try {
-    const { price_id, apiKey } = await req.json()
+    // Authenticate user
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
 
-    if (!apiKey) {
-      return new Response(
-        JSON.stringify({ error: 'Stripe API key is required' }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      )
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('Authorization header missing')
     }
 
+    const { data: { user } } = await supabaseClient.auth.getUser(authHeader.replace('Bearer ', ''))
+    if (!user) {
+      throw new Error('User not authenticated')
+    }
+
+    const { price_id, organizationId, mode = 'test' } = await req.json()
+
     if (!price_id) {
       return new Response(
         JSON.stringify({ error: 'Price ID is required' }),
@@ -36,14 +44,14 @@ serve(async (req) => {
       )
     }
 
-    const stripe = new Stripe(apiKey, {
+    const stripe = new Stripe(await getStripeKey(user.id, organizationId, mode, 'read'), {
       apiVersion: '2023-10-16',
     })
 
     console.log(`Retrieving price: ${price_id}`)
 
     const price = await stripe.prices.retrieve(price_id, {
-      expand: ['product']
+      expand: ['product', 'currency_options']
     })
 
     console.log(`Successfully retrieved price: ${price.id}`)
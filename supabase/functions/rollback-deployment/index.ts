@@ -0,0 +1,267 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createAuditLogger } from "../_shared/audit.ts";
+import { ForbiddenError, hasRole } from "../_shared/auth.ts";
+import { getStripeKey } from "../_shared/stripeKey.ts";
+import { errorMessage } from "../_shared/errors.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[ROLLBACK-DEPLOYMENT] ${step}${detailsStr}`);
+};
+
+const LIVE_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due', 'unpaid'];
+
+interface RollbackEntry {
+  item_id: string;
+  product_name: string;
+  type: 'product' | 'price' | 'meter';
+  id: string;
+  reason?: string;
+}
+
+const countLiveSubscriptions = async (stripe: Stripe, priceId: string) => {
+  const subscriptions = await stripe.subscriptions.list({
+    price: priceId,
+    status: 'all',
+    limit: 100
+  }).autoPagingToArray({ limit: 10000 });
+
+  return subscriptions.filter(sub => LIVE_SUBSCRIPTION_STATUSES.includes(sub.status)).length;
+};
+
+type StripeIdColumn = 'stripe_product_id' | 'stripe_price_id' | 'stripe_meter_id';
+
+// Other deployments can depend on an object this one created, e.g. a later deployment that matched the
+// product by name and added its own prices to it. Their items keep it recorded until they are rolled back.
+const keptByOtherDeployments = async (
+  supabaseClient: ReturnType<typeof createClient>,
+  deploymentId: string,
+  column: StripeIdColumn,
+  stripeId: string,
+  label: string
+) => {
+  const { data, error } = await supabaseClient
+    .from('billing_model_deployment_items')
+    .select('deployment_id')
+    .eq(column, stripeId)
+    .neq('deployment_id', deploymentId)
+    .is('rolled_back_at', null);
+
+  if (error) {
+    throw new Error(`Failed to check other deployments: ${error.message}`);
+  }
+
+  const dependents = new Set((data as { deployment_id: string }[]).map(row => row.deployment_id)).size;
+  return dependents > 0 ? `${label} is still used by ${dependents} other deployment(s)` : null;
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const audit = createAuditLogger(req, 'rollback-deployment');
+
+  try {
+    logStep("Function started");
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Authorization header missing');
+    }
+
+    // Authenticate user; the forwarded header keeps deployment reads and writes under RLS
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data, error: authError } = await supabaseClient.auth.getUser(token);
+
+    if (authError || !data.user) {
+      logStep("Auth error", { error: authError });
+      throw new Error('User not authenticated');
+    }
+    audit.setActor(data.user);
+
+    logStep("User authenticated", { userId: data.user.id });
+
+    const { deploymentId } = await req.json();
+    if (!deploymentId) {
+      throw new Error('deploymentId is required');
+    }
+
+    const { data: deployment, error: deploymentError } = await supabaseClient
+      .from('billing_model_deployments')
+      .select('*, billing_model_deployment_items(*)')
+      .eq('id', deploymentId)
+      .single();
+
+    if (deploymentError || !deployment) {
+      throw new Error(`Deployment not found: ${deploymentId}`);
+    }
+    if (deployment.status === 'pending' || deployment.status === 'rolled_back') {
+      throw new Error(`Deployment is ${deployment.status}; nothing to roll back`);
+    }
+
+    if (!(await hasRole(data.user.id, 'billing_editor', deployment.organization_id))) {
+      logStep("Permission denied", { userId: data.user.id, required: 'billing_editor' });
+      return new Response(
+        JSON.stringify({ success: false, error: 'This action requires the billing editor role' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      );
+    }
+
+    // Rolling back a live deployment needs the admin role, which getStripeKey enforces
+    const stripeKey = await getStripeKey(data.user.id, deployment.organization_id, deployment.mode);
+    audit.setContext({ organizationId: deployment.organization_id, mode: deployment.mode });
+
+    const stripe = new Stripe(stripeKey, {
+      apiVersion: '2023-10-16',
+    });
+
+    const undone: RollbackEntry[] = [];
+    const notUndone: RollbackEntry[] = [];
+
+    // Only objects this deployment created are touched; reused ones existed before and stay as they are
+    for (const item of deployment.billing_model_deployment_items) {
+      if (item.rolled_back_at) {
+        continue;
+      }
+
+      const base = { item_id: item.item_id, product_name: item.product_name };
+      let blockedReason: string | null = null;
+      let keptReason: string | null = null;
+      let itemFailed = false;
+
+      if (item.price_action === 'created' && item.stripe_price_id) {
+        try {
+          blockedReason = await keptByOtherDeployments(supabaseClient, deployment.id, 'stripe_price_id', item.stripe_price_id, 'Price');
+          if (!blockedReason) {
+            const liveSubscriptions = await countLiveSubscriptions(stripe, item.stripe_price_id);
+            blockedReason = liveSubscriptions > 0 ? `Price is attached to ${liveSubscriptions} live subscription(s)` : null;
+          }
+
+          if (blockedReason) {
+            keptReason = blockedReason;
+            notUndone.push({ ...base, type: 'price', id: item.stripe_price_id, reason: blockedReason });
+          } else {
+            const previousPrice = await stripe.prices.retrieve(item.stripe_price_id);
+            const price = await stripe.prices.update(item.stripe_price_id, { active: false });
+            await audit.record({ action: 'price.deactivate', objectType: 'price', objectId: price.id, before: previousPrice, after: price });
+            undone.push({ ...base, type: 'price', id: item.stripe_price_id });
+            logStep("Price deactivated", { priceId: item.stripe_price_id });
+          }
+        } catch (priceError) {
+          itemFailed = true;
+          notUndone.push({ ...base, type: 'price', id: item.stripe_price_id, reason: errorMessage(priceError) });
+        }
+      }
+
+      // A meter or product still backing a kept price, or recorded by another deployment, has to stay active
+      if (item.meter_action === 'created' && item.stripe_meter_id) {
+        try {
+          const reason = blockedReason ||
+            await keptByOtherDeployments(supabaseClient, deployment.id, 'stripe_meter_id', item.stripe_meter_id, 'Meter');
+          if (reason) {
+            keptReason = keptReason || reason;
+            notUndone.push({ ...base, type: 'meter', id: item.stripe_meter_id, reason });
+          } else {
+            const previousMeter = await stripe.billing.meters.retrieve(item.stripe_meter_id);
+            const meter = await stripe.billing.meters.deactivate(item.stripe_meter_id);
+            await audit.record({ action: 'meter.deactivate', objectType: 'meter', objectId: meter.id, before: previousMeter, after: meter });
+            undone.push({ ...base, type: 'meter', id: item.stripe_meter_id });
+            logStep("Meter deactivated", { meterId: item.stripe_meter_id });
+          }
+        } catch (meterError) {
+          itemFailed = true;
+          notUndone.push({ ...base, type: 'meter', id: item.stripe_meter_id, reason: errorMessage(meterError) });
+        }
+      }
+
+      if (item.product_action === 'created' && item.stripe_product_id) {
+        try {
+          const reason = blockedReason ||
+            await keptByOtherDeployments(supabaseClient, deployment.id, 'stripe_product_id', item.stripe_product_id, 'Product');
+          if (reason) {
+            keptReason = keptReason || reason;
+            notUndone.push({ ...base, type: 'product', id: item.stripe_product_id, reason });
+          } else {
+            const previousProduct = await stripe.products.retrieve(item.stripe_product_id);
+            const product = await stripe.products.update(item.stripe_product_id, { active: false });
+            await audit.record({ action: 'product.archive', objectType: 'product', objectId: product.id, before: previousProduct, after: product });
+            undone.push({ ...base, type: 'product', id: item.stripe_product_id });
+            logStep("Product archived", { productId: item.stripe_product_id });
+          }
+        } catch (productError) {
+          itemFailed = true;
+          notUndone.push({ ...base, type: 'product', id: item.stripe_product_id, reason: errorMessage(productError) });
+        }
+      }
+
+      const itemError = keptReason || (itemFailed ? 'Some resources could not be rolled back' : null);
+      await supabaseClient
+        .from('billing_model_deployment_items')
+        .update({
+          rolled_back_at: itemError ? null : new Date().toISOString(),
+          rollback_error: itemError
+        })
+        .eq('id', item.id);
+    }
+
+    const status = notUndone.length === 0 ? 'rolled_back' : 'partially_rolled_back';
+    const report = { undone, not_undone: notUndone };
+
+    await supabaseClient
+      .from('billing_model_deployments')
+      .update({
+        status,
+        rollback_report: report,
+        rolled_back_at: new Date().toISOString()
+      })
+      .eq('id', deployment.id);
+
+    logStep("Rollback completed", { deploymentId, status, undone: undone.length, notUndone: notUndone.length });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        status,
+        ...report,
+        summary: {
+          undone: undone.length,
+          not_undone: notUndone.length
+        }
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    logStep("ERROR in rollback-deployment", { message: errorMessage(error) });
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage(error)
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error instanceof ForbiddenError ? 403 : 500,
+      }
+    );
+  }
+});
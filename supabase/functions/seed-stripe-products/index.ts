@@ -2,6 +2,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createAuditLogger } from "../_shared/audit.ts";
+import { hasRole } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,6 +20,8 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const audit = createAuditLogger(req, 'seed-stripe-products');
+
   try {
     logStep("Function started");
     
@@ -45,9 +49,21 @@ serve(async (req) => {
       logStep("Auth error", { error: authError });
       throw new Error('User not authenticated');
     }
+    audit.setActor(data.user);
 
     logStep("User authenticated", { email: data.user.email });
 
+    if (!(await hasRole(data.user.id, 'admin'))) {
+      logStep("Permission denied", { userId: data.user.id, required: 'admin' });
+      return new Response(
+        JSON.stringify({ success: false, error: 'This action requires the admin role' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      );
+    }
+
     const stripe = new Stripe(stripeSecretKey, {
       apiVersion: '2023-10-16',
     });
@@ -115,6 +131,7 @@ serve(async (req) => {
         });
 
         logStep(`Product created: ${product.id}`);
+        await audit.record({ action: 'product.create', objectType: 'product', objectId: product.id, after: product });
 
         // Create the price
         const priceData: any = {
@@ -131,11 +148,13 @@ serve(async (req) => {
         const price = await stripe.prices.create(priceData);
 
         logStep(`Price created: ${price.id}`);
+        await audit.record({ action: 'price.create', objectType: 'price', objectId: price.id, after: price });
 
         // Set as default price for the product
-        await stripe.products.update(product.id, {
+        const updatedProduct = await stripe.products.update(product.id, {
           default_price: price.id
         });
+        await audit.record({ action: 'product.update', objectType: 'product', objectId: product.id, before: product, after: updatedProduct });
 
         results.push({
           product_id: product.id,
@@ -11,7 +11,7 @@ interface EmailNotification {
   to: string;
   subject: string;
   message: string;
-  type: 'billing_update' | 'system_maintenance' | 'general_alert';
+  type: 'billing_update' | 'system_maintenance' | 'general_alert' | 'usage_alert';
   metadata?: Record<string, any>;
 }
 
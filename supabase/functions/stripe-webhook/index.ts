@@ -0,0 +1,270 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { errorMessage } from "../_shared/errors.ts";
+import { overageRateFromMetadata, tierFromAmount, usageLimitsFromMetadata } from "../_shared/subscriptionTier.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, stripe-signature',
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[STRIPE-WEBHOOK] ${step}${detailsStr}`);
+};
+
+// How long a delivery may take to process an event before a redelivery treats it as dead and claims it again
+const PROCESSING_LEASE_MS = 5 * 60 * 1000;
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+// The Stripe customer is created by create-checkout with user_id metadata; older customers are matched by email
+const resolveUserId = async (
+  stripe: Stripe,
+  supabaseClient: SupabaseClient,
+  customerId: string,
+  hint?: string | null
+) => {
+  if (hint) return hint;
+
+  const customer = await stripe.customers.retrieve(customerId);
+  if (customer.deleted) return null;
+  if (customer.metadata?.user_id) return customer.metadata.user_id;
+  if (!customer.email) return null;
+
+  const { data: profile } = await supabaseClient
+    .from('profiles')
+    .select('id')
+    .eq('email', customer.email)
+    .maybeSingle();
+
+  return profile?.id ?? null;
+};
+
+// Re-reads the subscription from Stripe rather than trusting the payload, so out-of-order deliveries
+// still leave the latest state behind
+const syncSubscription = async (
+  stripe: Stripe,
+  supabaseClient: SupabaseClient,
+  subscriptionId: string,
+  eventId: string,
+  hints: { userId?: string | null; tierId?: string | null } = {}
+) => {
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  const customerId = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
+  const price = subscription.items.data[0]?.price;
+
+  const userId = await resolveUserId(stripe, supabaseClient, customerId, hints.userId || subscription.metadata?.user_id);
+  if (!userId) {
+    logStep("No user found for customer, skipping subscription sync", { subscriptionId, customerId });
+    return false;
+  }
+
+  const priceAmount = price?.unit_amount ?? null;
+  const { error } = await supabaseClient
+    .from('subscriptions')
+    .upsert({
+      user_id: userId,
+      stripe_subscription_id: subscription.id,
+      customer_id: customerId,
+      price_id: price?.id ?? null,
+      tier_id: hints.tierId || price?.metadata?.tier_id || (priceAmount !== null ? tierFromAmount(priceAmount) : null),
+      price_amount: priceAmount,
+      usage_limits: usageLimitsFromMetadata(price?.metadata),
+      overage_rate: overageRateFromMetadata(price?.metadata),
+      status: subscription.status,
+      current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
+      cancel_at_period_end: subscription.cancel_at_period_end,
+      last_event_id: eventId,
+      synced_at: new Date().toISOString()
+    }, { onConflict: 'stripe_subscription_id' });
+
+  if (error) {
+    throw new Error(`Failed to update subscription ${subscription.id}: ${error.message}`);
+  }
+
+  // The user has a real subscription now, so check-subscription's "no subscription" placeholder is obsolete
+  await supabaseClient
+    .from('subscriptions')
+    .delete()
+    .eq('user_id', userId)
+    .is('stripe_subscription_id', null);
+
+  logStep("Subscription synced", { subscriptionId: subscription.id, userId, status: subscription.status });
+  return true;
+};
+
+// Returns 'ignored' for events that were stored but need no local state change
+const handleEvent = async (
+  stripe: Stripe,
+  supabaseClient: SupabaseClient,
+  event: Stripe.Event
+): Promise<'processed' | 'ignored'> => {
+  if (event.type.startsWith('customer.subscription.')) {
+    const subscription = event.data.object as Stripe.Subscription;
+    return (await syncSubscription(stripe, supabaseClient, subscription.id, event.id)) ? 'processed' : 'ignored';
+  }
+
+  if (event.type.startsWith('invoice.')) {
+    const invoice = event.data.object as Stripe.Invoice;
+    if (!invoice.subscription) return 'ignored';
+
+    const subscriptionId = typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription.id;
+    return (await syncSubscription(stripe, supabaseClient, subscriptionId, event.id)) ? 'processed' : 'ignored';
+  }
+
+  if (event.type === 'checkout.session.completed') {
+    const session = event.data.object as Stripe.Checkout.Session;
+    if (!session.subscription) return 'ignored';
+
+    const subscriptionId = typeof session.subscription === 'string' ? session.subscription : session.subscription.id;
+    const synced = await syncSubscription(stripe, supabaseClient, subscriptionId, event.id, {
+      userId: session.metadata?.user_id,
+      tierId: session.metadata?.tier_id
+    });
+    return synced ? 'processed' : 'ignored';
+  }
+
+  if (event.type.startsWith('billing.meter.')) {
+    // Meter error reports carry no subscription state; they are kept in stripe_events for inspection
+    logStep("Billing meter event recorded", { type: event.type, meter: (event.data.object as { id?: string }).id });
+    return 'processed';
+  }
+
+  return 'ignored';
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+  const webhookSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
+  if (!stripeSecretKey || !webhookSecret) {
+    logStep("ERROR Stripe secret key or webhook secret not configured");
+    return jsonResponse({ error: 'Stripe webhook not configured' }, 500);
+  }
+
+  const stripe = new Stripe(stripeSecretKey, {
+    apiVersion: '2023-10-16',
+  });
+
+  // Verify the signature against the raw body before anything is parsed or stored
+  let event: Stripe.Event;
+  try {
+    const signature = req.headers.get('stripe-signature');
+    if (!signature) {
+      throw new Error('stripe-signature header missing');
+    }
+
+    const body = await req.text();
+    event = await stripe.webhooks.constructEventAsync(
+      body,
+      signature,
+      webhookSecret,
+      undefined,
+      Stripe.createSubtleCryptoProvider()
+    );
+  } catch (error) {
+    logStep("Signature verification failed", { message: errorMessage(error) });
+    return jsonResponse({ error: `Webhook signature verification failed: ${errorMessage(error)}` }, 400);
+  }
+
+  logStep("Event verified", { id: event.id, type: event.type });
+
+  // Webhooks carry no user session, so writes go through the service role
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const { error: insertError } = await supabaseClient
+      .from('stripe_events')
+      .insert({
+        id: event.id,
+        type: event.type,
+        livemode: event.livemode,
+        api_version: event.api_version,
+        payload: event,
+        stripe_created_at: new Date(event.created * 1000).toISOString()
+      });
+
+    if (insertError) {
+      // 23505 is a unique violation: Stripe redelivered an event we already have
+      if (insertError.code !== '23505') {
+        throw new Error(`Failed to store event: ${insertError.message}`);
+      }
+
+      const { data: existing, error: existingError } = await supabaseClient
+        .from('stripe_events')
+        .select('status, attempts')
+        .eq('id', event.id)
+        .single();
+
+      if (existingError || !existing) {
+        throw new Error(`Failed to load stored event: ${existingError?.message}`);
+      }
+
+      // Events that failed earlier are worth another pass, and so are events still 'received' after the lease:
+      // the delivery that stored them died before finishing. The attempts check makes this a compare-and-set,
+      // so of two concurrent redeliveries only one claims the event.
+      const staleBefore = new Date(Date.now() - PROCESSING_LEASE_MS).toISOString();
+      const { data: reclaimed, error: reclaimError } = await supabaseClient
+        .from('stripe_events')
+        .update({
+          status: 'received',
+          error: null,
+          attempts: (existing.attempts || 1) + 1,
+          claimed_at: new Date().toISOString()
+        })
+        .eq('id', event.id)
+        .eq('attempts', existing.attempts)
+        .or(`status.eq.failed,and(status.eq.received,claimed_at.lt.${staleBefore})`)
+        .select('id');
+
+      if (reclaimError) {
+        throw new Error(`Failed to claim event: ${reclaimError.message}`);
+      }
+
+      if (!reclaimed || reclaimed.length === 0) {
+        logStep("Duplicate event skipped", { id: event.id, status: existing.status });
+        return jsonResponse({ received: true, duplicate: true });
+      }
+
+      logStep("Retrying event", { id: event.id, previousStatus: existing.status });
+    }
+  } catch (error) {
+    logStep("ERROR storing event", { message: errorMessage(error) });
+    return jsonResponse({ error: errorMessage(error) }, 500);
+  }
+
+  try {
+    const status = await handleEvent(stripe, supabaseClient, event);
+
+    await supabaseClient
+      .from('stripe_events')
+      .update({ status, processed_at: new Date().toISOString() })
+      .eq('id', event.id);
+
+    logStep("Event handled", { id: event.id, status });
+    return jsonResponse({ received: true, status });
+  } catch (error) {
+    logStep("ERROR in stripe-webhook", { id: event.id, message: errorMessage(error), stack: error instanceof Error ? error.stack : undefined });
+
+    await supabaseClient
+      .from('stripe_events')
+      .update({ status: 'failed', error: errorMessage(error) })
+      .eq('id', event.id);
+
+    // A non-2xx response makes Stripe redeliver the event later
+    return jsonResponse({ error: errorMessage(error) }, 500);
+  }
+});
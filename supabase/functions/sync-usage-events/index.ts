@@ -0,0 +1,360 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createAuditLogger } from "../_shared/audit.ts";
+import { errorMessage } from "../_shared/errors.ts";
+import { type MeterAccount, stripeKeyForMeter } from "../_shared/usage.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[SYNC-USAGE-EVENTS] ${step}${detailsStr}`);
+};
+
+const DEFAULT_BATCH_SIZE = 500;
+// Keeps .in() filters well under URL length limits
+const LOOKUP_CHUNK_SIZE = 200;
+const STRIPE_CONCURRENCY = 10;
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+// A claimed event whose worker died becomes claimable again after the lease runs out
+const CLAIM_LEASE_MS = 10 * 60 * 1000;
+const CLAIMABLE_STATUSES = ['pending', 'failed', 'processing'];
+
+interface ClaimedEvent {
+  id: string;
+  user_id: string;
+  value: number;
+  occurred_at: string;
+  stripe_customer_id: string | null;
+  sync_attempts: number;
+  usage_meters: MeterAccount & { event_name: string; stripe_meter_id: string | null };
+}
+
+interface SyncOutcome {
+  id: string;
+  status: 'failed' | 'dead_letter';
+  attempts: number;
+  error: string;
+}
+
+const retryDelay = (attempts: number) => Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+// Invalid requests (unknown meter, timestamp outside Stripe's window) fail the same way on every retry
+const isRetryable = (error: unknown) =>
+  !(error instanceof Stripe.errors.StripeInvalidRequestError) || error.statusCode === 429;
+
+const chunk = <T,>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+// On the platform account the subscription mirror already knows the customer; users without one, and users
+// reporting against an organization's own account, are matched by email there
+const resolveCustomerId = async (stripe: Stripe, serviceClient: SupabaseClient, userId: string, platform: boolean) => {
+  if (platform) {
+    const { data: subscription } = await serviceClient
+      .from('subscriptions')
+      .select('customer_id')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (subscription?.customer_id) return subscription.customer_id as string;
+  }
+
+  const { data: profile } = await serviceClient
+    .from('profiles')
+    .select('email')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (!profile?.email) return null;
+
+  const customers = await stripe.customers.list({
+    email: profile.email,
+    limit: 1,
+  });
+
+  return customers.data[0]?.id ?? null;
+};
+
+// Drains the usage_events outbox into Stripe meter events. The 'sync-usage-events' pg_cron job calls it every
+// minute with the service role key to work through every user's events; a signed-in user can also sync
+// (and optionally replay) their own.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const audit = createAuditLogger(req, 'sync-usage-events');
+
+  try {
+    logStep("Function started");
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Authorization header missing');
+    }
+
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+      { auth: { persistSession: false } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    let userId: string | null = null;
+
+    if (token !== serviceRoleKey) {
+      const { data, error: authError } = await serviceClient.auth.getUser(token);
+
+      if (authError || !data.user) {
+        logStep("Auth error", { error: authError });
+        throw new Error('User not authenticated');
+      }
+
+      userId = data.user.id;
+      audit.setActor(data.user);
+      logStep("User authenticated", { userId });
+    } else {
+      logStep("Running as scheduled worker");
+    }
+
+    const { action = 'sync', limit = DEFAULT_BATCH_SIZE } = await req.json().catch(() => ({}));
+    if (!['sync', 'replay'].includes(action)) {
+      throw new Error(`Unknown action: ${action}`);
+    }
+    if (action === 'replay' && !userId) {
+      throw new Error('Replay must be requested by a signed-in user');
+    }
+
+    // Replay puts failed and dead-lettered events back at the front of the queue with a fresh retry budget
+    let replayed = 0;
+    if (action === 'replay') {
+      const { data: reset, error: replayError } = await serviceClient
+        .from('usage_events')
+        .update({
+          sync_status: 'pending',
+          sync_attempts: 0,
+          next_sync_at: new Date().toISOString(),
+          last_sync_error: null
+        })
+        .eq('user_id', userId)
+        .in('sync_status', ['failed', 'dead_letter'])
+        .select('id');
+
+      if (replayError) {
+        throw new Error(`Failed to replay events: ${replayError.message}`);
+      }
+      replayed = reset?.length || 0;
+      logStep("Events queued for replay", { replayed });
+
+      await audit.record({
+        action: 'usage_event.replay',
+        objectType: 'usage_event',
+        after: { replayed, event_ids: (reset || []).map(event => event.id) }
+      });
+    }
+
+    const now = new Date();
+    let query = serviceClient
+      .from('usage_events')
+      .select('id, user_id, value, occurred_at, stripe_customer_id, sync_attempts, usage_meters!inner(event_name, stripe_meter_id, organization_id, mode)')
+      .in('sync_status', CLAIMABLE_STATUSES)
+      .lte('next_sync_at', now.toISOString())
+      .order('created_at', { ascending: true })
+      .limit(Math.min(limit, DEFAULT_BATCH_SIZE));
+
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data: due, error: dueError } = await query;
+    if (dueError) {
+      throw new Error(`Failed to load pending events: ${dueError.message}`);
+    }
+
+    // Claim the batch; rows another worker claimed in the meantime no longer match and drop out
+    const claimedIds = new Set<string>();
+    for (const ids of chunk((due || []).map(event => event.id), LOOKUP_CHUNK_SIZE)) {
+      const { data: claimedRows, error: claimError } = await serviceClient
+        .from('usage_events')
+        .update({ sync_status: 'processing', next_sync_at: new Date(now.getTime() + CLAIM_LEASE_MS).toISOString() })
+        .in('id', ids)
+        .in('sync_status', CLAIMABLE_STATUSES)
+        .lte('next_sync_at', now.toISOString())
+        .select('id');
+
+      if (claimError) {
+        throw new Error(`Failed to claim events: ${claimError.message}`);
+      }
+      (claimedRows || []).forEach(row => claimedIds.add(row.id));
+    }
+
+    const claimed = (due || []).filter(event => claimedIds.has(event.id));
+    logStep("Events claimed", { due: due?.length || 0, claimed: claimed.length });
+
+    const skipped: string[] = [];
+    const synced: string[] = [];
+    const failures: SyncOutcome[] = [];
+    const stripeClients = new Map<string, Promise<Stripe>>();
+    const customerIds = new Map<string, string | null>();
+
+    // Each meter reports to its own organization's Stripe account (see stripeKeyForMeter); the key is resolved
+    // for the user who reported the event, so a member who has since left no longer reaches the account
+    const stripeFor = (event: ClaimedEvent) => {
+      const { organization_id: organizationId, mode } = event.usage_meters;
+      const clientKey = organizationId ? `${organizationId}|${mode}|${event.user_id}` : 'platform';
+      if (!stripeClients.has(clientKey)) {
+        stripeClients.set(clientKey, stripeKeyForMeter(event.user_id, event.usage_meters).then(stripeKey =>
+          new Stripe(stripeKey, { apiVersion: '2023-10-16' })
+        ));
+      }
+      return stripeClients.get(clientKey)!;
+    };
+
+    const fail = (event: ClaimedEvent, error: unknown) => {
+      const attempts = event.sync_attempts + 1;
+      const deadLetter = attempts >= MAX_ATTEMPTS || !isRetryable(error);
+      failures.push({
+        id: event.id,
+        status: deadLetter ? 'dead_letter' : 'failed',
+        attempts,
+        error: errorMessage(error)
+      });
+    };
+
+    for (const group of chunk(claimed, STRIPE_CONCURRENCY)) {
+      await Promise.all(group.map(async (event: ClaimedEvent) => {
+        // Meters that were never deployed to Stripe have nothing to forward to
+        if (!event.usage_meters.stripe_meter_id) {
+          skipped.push(event.id);
+          return;
+        }
+
+        try {
+          const stripe = await stripeFor(event);
+          const platform = !event.usage_meters.organization_id;
+
+          // Events reported for one of the user's own customers bill that customer, not the user
+          const customerKey = platform
+            ? `platform|${event.user_id}`
+            : `${event.usage_meters.organization_id}|${event.usage_meters.mode}|${event.user_id}`;
+          if (!event.stripe_customer_id && !customerIds.has(customerKey)) {
+            customerIds.set(customerKey, await resolveCustomerId(stripe, serviceClient, event.user_id, platform));
+          }
+          const customerId = event.stripe_customer_id ?? customerIds.get(customerKey);
+          if (!customerId) {
+            throw new Error('No Stripe customer found for this user');
+          }
+
+          // The local id as identifier makes a retry after a lost response a no-op on Stripe's side
+          await stripe.billing.meterEvents.create({
+            event_name: event.usage_meters.event_name,
+            identifier: event.id,
+            timestamp: Math.floor(new Date(event.occurred_at).getTime() / 1000),
+            payload: {
+              customer_id: customerId,
+              value: String(event.value)
+            }
+          });
+          synced.push(event.id);
+        } catch (error) {
+          fail(event, error);
+        }
+      }));
+    }
+
+    if (synced.length > 0) {
+      const { error: syncedError } = await serviceClient.rpc('mark_usage_events_synced', { p_ids: synced });
+      if (syncedError) {
+        throw new Error(`Failed to mark events synced: ${syncedError.message}`);
+      }
+    }
+
+    for (const ids of chunk(skipped, LOOKUP_CHUNK_SIZE)) {
+      await serviceClient
+        .from('usage_events')
+        .update({ sync_status: 'skipped' })
+        .in('id', ids);
+    }
+
+    // Failures sharing an outcome are written together
+    const failureGroups = new Map<string, SyncOutcome[]>();
+    failures.forEach(failure => {
+      const key = `${failure.status}|${failure.attempts}|${failure.error}`;
+      failureGroups.set(key, [...(failureGroups.get(key) || []), failure]);
+    });
+
+    for (const group of failureGroups.values()) {
+      const { status, attempts, error } = group[0];
+      await serviceClient
+        .from('usage_events')
+        .update({
+          sync_status: status,
+          sync_attempts: attempts,
+          last_sync_error: error,
+          next_sync_at: new Date(Date.now() + retryDelay(attempts)).toISOString()
+        })
+        .in('id', group.map(failure => failure.id));
+    }
+
+    const deadLettered = failures.filter(failure => failure.status === 'dead_letter').length;
+
+    // Meter events cannot be read back from Stripe, so each batch records which local events it forwarded
+    // (their ids are the meter event identifiers) and which were held back
+    if (claimed.length > 0) {
+      await audit.record({
+        action: 'meter_event.create',
+        objectType: 'meter_event',
+        after: {
+          synced,
+          skipped,
+          failed: failures.filter(failure => failure.status === 'failed').map(failure => failure.id),
+          dead_lettered: failures.filter(failure => failure.status === 'dead_letter').map(failure => failure.id)
+        }
+      });
+    }
+    logStep("Sync complete", {
+      synced: synced.length,
+      skipped: skipped.length,
+      failed: failures.length - deadLettered,
+      deadLettered
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        replayed,
+        claimed: claimed.length,
+        synced: synced.length,
+        skipped: skipped.length,
+        failed: failures.length - deadLettered,
+        dead_lettered: deadLettered
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    logStep("ERROR in sync-usage-events", { message: errorMessage(error) });
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage(error)
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
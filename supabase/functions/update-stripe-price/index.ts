@@ -1,6 +1,10 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { createAuditLogger } from '../_shared/audit.ts'
+import { ForbiddenError, hasRole } from '../_shared/auth.ts'
+import { getStripeKey } from '../_shared/stripeKey.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,14 +17,33 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders })
   }
 
+  const audit = createAuditLogger(req, 'update-stripe-price')
+
   try {
-    const { price_id, updates, apiKey } = await req.json()
+    // Authenticate user
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('Authorization header missing')
+    }
+
+    const { data: { user } } = await supabaseClient.auth.getUser(authHeader.replace('Bearer ', ''))
+    if (!user) {
+      throw new Error('User not authenticated')
+    }
+    audit.setActor(user)
 
-    if (!apiKey) {
+    const { price_id, updates, organizationId, mode = 'test' } = await req.json()
+
+    if (!(await hasRole(user.id, 'billing_editor', organizationId))) {
       return new Response(
-        JSON.stringify({ error: 'Stripe API key is required' }),
+        JSON.stringify({ success: false, error: 'This action requires the billing editor role' }),
         { 
-          status: 400, 
+          status: 403, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       )
@@ -36,14 +59,15 @@ serve(async (req) => {
       )
     }
 
-    const stripe = new Stripe(apiKey, {
+    const stripe = new Stripe(await getStripeKey(user.id, organizationId, mode), {
       apiVersion: '2023-10-16',
     })
+    audit.setContext({ organizationId, mode })
 
     console.log(`Updating price: ${price_id}`, updates)
 
     // Note: Most price properties cannot be updated after creation in Stripe
-    // Only metadata, nickname, active status, and tax_behavior can be updated
+    // Only metadata, nickname, active status, tax_behavior and currency_options can be updated
     const allowedUpdates: any = {}
     
     if (updates.metadata !== undefined) {
@@ -62,8 +86,22 @@ serve(async (req) => {
       allowedUpdates.tax_behavior = updates.tax_behavior
     }
 
+    if (updates.currency_options !== undefined) {
+      // Amounts arrive in cents keyed by currency code; existing options can be changed but not removed
+      allowedUpdates.currency_options = Object.fromEntries(
+        Object.entries(updates.currency_options).map(([currency, amount]: [string, number]) => [
+          currency.toLowerCase(),
+          { unit_amount: Math.round(amount) }
+        ])
+      )
+      allowedUpdates.expand = ['currency_options']
+    }
+
+    const previousPrice = await stripe.prices.retrieve(price_id, { expand: ['currency_options'] })
     const price = await stripe.prices.update(price_id, allowedUpdates)
 
+    await audit.record({ action: 'price.update', objectType: 'price', objectId: price.id, before: previousPrice, after: price })
+
     console.log(`Successfully updated price: ${price.id}`)
 
     return new Response(
@@ -83,7 +121,7 @@ serve(async (req) => {
         details: error.code || 'unknown_error'
       }),
       { 
-        status: 500, 
+        status: error instanceof ForbiddenError ? 403 : 500, 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       }
     )
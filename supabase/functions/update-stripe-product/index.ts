@@ -2,6 +2,9 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createAuditLogger } from "../_shared/audit.ts";
+import { ForbiddenError, hasRole } from "../_shared/auth.ts";
+import { getStripeKey } from "../_shared/stripeKey.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +16,8 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const audit = createAuditLogger(req, 'update-stripe-product');
+
   try {
     // Authenticate user
     const supabaseClient = createClient(
@@ -28,22 +33,33 @@ serve(async (req) => {
     if (!user) {
       throw new Error('User not authenticated');
     }
+    audit.setActor(user);
+
+    const { product_id, name, description, active, metadata, organizationId, mode = 'test' } = await req.json();
 
-    const { product_id, name, description, active, metadata } = await req.json();
+    if (!(await hasRole(user.id, 'billing_editor', organizationId))) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'This action requires the billing editor role' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      );
+    }
 
     if (!product_id) {
       throw new Error('Product ID is required');
     }
 
-    const stripeKey = Deno.env.get('STRIPE_SECRET_KEY');
-    if (!stripeKey) {
-      throw new Error('Stripe secret key not configured');
-    }
+    const stripeKey = await getStripeKey(user.id, organizationId, mode);
+    audit.setContext({ organizationId, mode });
 
     const stripe = new Stripe(stripeKey, {
       apiVersion: '2023-10-16',
     });
 
+    const previousProduct = await stripe.products.retrieve(product_id);
+
     const updatedProduct = await stripe.products.update(product_id, {
       name,
       description,
@@ -55,6 +71,14 @@ serve(async (req) => {
       }
     });
 
+    await audit.record({
+      action: 'product.update',
+      objectType: 'product',
+      objectId: product_id,
+      before: previousProduct,
+      after: updatedProduct
+    });
+
     return new Response(
       JSON.stringify({ 
         success: true, 
@@ -75,7 +99,7 @@ serve(async (req) => {
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
+        status: error instanceof ForbiddenError ? 403 : 500,
       }
     );
   }
@@ -0,0 +1,87 @@
+-- Create billing_models table to persist saved billing models per user
+CREATE TABLE public.billing_models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  type TEXT NOT NULL,
+  legacy_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(user_id, legacy_id)
+);
+
+-- Create billing_model_items table for the items belonging to each model
+CREATE TABLE public.billing_model_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  billing_model_id UUID NOT NULL REFERENCES public.billing_models(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_key TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  product TEXT NOT NULL,
+  unit_amount INTEGER NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  type TEXT NOT NULL CHECK (type IN ('metered', 'recurring', 'one_time')),
+  interval TEXT,
+  event_name TEXT,
+  description TEXT,
+  billing_scheme TEXT,
+  usage_type TEXT,
+  aggregate_usage TEXT,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_billing_models_user_id ON public.billing_models(user_id);
+CREATE INDEX idx_billing_model_items_model_id ON public.billing_model_items(billing_model_id, position);
+
+-- Keep updated_at current on every update
+CREATE OR REPLACE FUNCTION public.update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_billing_models_updated_at
+  BEFORE UPDATE ON public.billing_models
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS on both tables
+ALTER TABLE public.billing_models ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.billing_model_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for billing_models (users can only manage their own models)
+CREATE POLICY "Users can view their own billing models" ON public.billing_models
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own billing models" ON public.billing_models
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own billing models" ON public.billing_models
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own billing models" ON public.billing_models
+  FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
+
+-- RLS policies for billing_model_items (users can only manage their own items)
+CREATE POLICY "Users can view their own billing model items" ON public.billing_model_items
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own billing model items" ON public.billing_model_items
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own billing model items" ON public.billing_model_items
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own billing model items" ON public.billing_model_items
+  FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
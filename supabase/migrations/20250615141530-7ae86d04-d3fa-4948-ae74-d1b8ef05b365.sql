@@ -0,0 +1,66 @@
+-- Track the current version number on each billing model
+ALTER TABLE public.billing_models
+  ADD COLUMN current_version INTEGER NOT NULL DEFAULT 1;
+
+-- Create billing_model_versions table holding an immutable snapshot per save
+CREATE TABLE public.billing_model_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  billing_model_id UUID NOT NULL REFERENCES public.billing_models(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  type TEXT NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]',
+  change_summary TEXT,
+  restored_from_version INTEGER,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(billing_model_id, version_number)
+);
+
+CREATE INDEX idx_billing_model_versions_model_id ON public.billing_model_versions(billing_model_id, version_number DESC);
+
+ALTER TABLE public.billing_model_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are immutable: only SELECT and INSERT policies are defined
+CREATE POLICY "Users can view their own billing model versions" ON public.billing_model_versions
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own billing model versions" ON public.billing_model_versions
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid() AND created_by = auth.uid());
+
+-- Backfill version 1 for models saved before versioning existed
+INSERT INTO public.billing_model_versions (billing_model_id, user_id, version_number, name, description, type, items, change_summary, created_by, created_at)
+SELECT
+  m.id,
+  m.user_id,
+  1,
+  m.name,
+  m.description,
+  m.type,
+  COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'id', i.item_key,
+      'product', i.product,
+      'unit_amount', i.unit_amount,
+      'currency', i.currency,
+      'type', i.type,
+      'interval', i.interval,
+      'eventName', i.event_name,
+      'description', i.description,
+      'billing_scheme', i.billing_scheme,
+      'usage_type', i.usage_type,
+      'aggregate_usage', i.aggregate_usage,
+      'metadata', i.metadata
+    ) ORDER BY i.position)
+    FROM public.billing_model_items i
+    WHERE i.billing_model_id = m.id
+  ), '[]'::jsonb),
+  'Initial version',
+  m.user_id,
+  m.created_at
+FROM public.billing_models m;
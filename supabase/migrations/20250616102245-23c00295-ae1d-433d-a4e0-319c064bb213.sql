@@ -0,0 +1,75 @@
+-- Create billing_model_deployments table to track each deploy-billing-model run as a job
+CREATE TABLE public.billing_model_deployments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  billing_model_id UUID REFERENCES public.billing_models(id) ON DELETE SET NULL,
+  model_version INTEGER,
+  billing_model JSONB NOT NULL,
+  plan JSONB,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'partial', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+-- Create billing_model_deployment_items table with per-item progress and the Stripe ids touched
+CREATE TABLE public.billing_model_deployment_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  deployment_id UUID NOT NULL REFERENCES public.billing_model_deployments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_id TEXT NOT NULL,
+  product_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  stripe_product_id TEXT,
+  product_action TEXT CHECK (product_action IN ('created', 'reused')),
+  stripe_price_id TEXT,
+  price_action TEXT CHECK (price_action IN ('created', 'reused')),
+  stripe_meter_id TEXT,
+  meter_action TEXT CHECK (meter_action IN ('created', 'reused')),
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(deployment_id, item_id)
+);
+
+CREATE INDEX idx_billing_model_deployments_user_id ON public.billing_model_deployments(user_id, created_at DESC);
+CREATE INDEX idx_billing_model_deployments_model_id ON public.billing_model_deployments(billing_model_id);
+
+CREATE TRIGGER update_billing_model_deployments_updated_at
+  BEFORE UPDATE ON public.billing_model_deployments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_billing_model_deployment_items_updated_at
+  BEFORE UPDATE ON public.billing_model_deployment_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.billing_model_deployments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.billing_model_deployment_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for billing_model_deployments (users can only see and drive their own jobs)
+CREATE POLICY "Users can view their own deployments" ON public.billing_model_deployments
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own deployments" ON public.billing_model_deployments
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own deployments" ON public.billing_model_deployments
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid());
+
+-- RLS policies for billing_model_deployment_items
+CREATE POLICY "Users can view their own deployment items" ON public.billing_model_deployment_items
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own deployment items" ON public.billing_model_deployment_items
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own deployment items" ON public.billing_model_deployment_items
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid());
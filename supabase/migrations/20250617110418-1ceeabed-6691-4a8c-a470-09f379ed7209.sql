@@ -0,0 +1,17 @@
+-- Allow deployments to be rolled back, fully or partially
+ALTER TABLE public.billing_model_deployments
+  DROP CONSTRAINT billing_model_deployments_status_check;
+
+ALTER TABLE public.billing_model_deployments
+  ADD CONSTRAINT billing_model_deployments_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'partial', 'failed', 'rolled_back', 'partially_rolled_back'));
+
+-- Scope used for Stripe idempotency keys; a redeploy after a rollback must not replay the archived objects
+ALTER TABLE public.billing_model_deployments
+  ADD COLUMN idempotency_scope TEXT,
+  ADD COLUMN rollback_report JSONB,
+  ADD COLUMN rolled_back_at TIMESTAMPTZ;
+
+ALTER TABLE public.billing_model_deployment_items
+  ADD COLUMN rolled_back_at TIMESTAMPTZ,
+  ADD COLUMN rollback_error TEXT;
@@ -0,0 +1,4 @@
+-- Store tier definitions for tiered (graduated or volume) billing items
+ALTER TABLE public.billing_model_items
+  ADD COLUMN tiers JSONB,
+  ADD COLUMN tiers_mode TEXT CHECK (tiers_mode IN ('graduated', 'volume'));
@@ -0,0 +1,3 @@
+-- Extra currencies a billing item's price is offered in, as lowercase currency code -> amount in cents
+ALTER TABLE public.billing_model_items
+  ADD COLUMN currency_options JSONB;
@@ -0,0 +1,49 @@
+-- Create stripe_events table to log every verified webhook delivery; the Stripe event id dedupes retries
+CREATE TABLE public.stripe_events (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  livemode BOOLEAN NOT NULL DEFAULT false,
+  api_version TEXT,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  stripe_created_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  processed_at TIMESTAMPTZ
+);
+
+-- Create subscriptions table holding the latest known state of each Stripe subscription
+CREATE TABLE public.subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  stripe_subscription_id TEXT NOT NULL UNIQUE,
+  customer_id TEXT NOT NULL,
+  price_id TEXT,
+  tier_id TEXT,
+  price_amount INTEGER,
+  status TEXT NOT NULL,
+  current_period_end TIMESTAMPTZ,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+  last_event_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stripe_events_type ON public.stripe_events(type, created_at DESC);
+CREATE INDEX idx_subscriptions_user_id ON public.subscriptions(user_id, updated_at DESC);
+CREATE INDEX idx_subscriptions_customer_id ON public.subscriptions(customer_id);
+
+CREATE TRIGGER update_subscriptions_updated_at
+  BEFORE UPDATE ON public.subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- stripe_events has no policies: only the stripe-webhook function (service role) reads and writes it
+
+-- RLS policies for subscriptions (users can see their own; writes come from the stripe-webhook function)
+CREATE POLICY "Users can view their own subscriptions" ON public.subscriptions
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
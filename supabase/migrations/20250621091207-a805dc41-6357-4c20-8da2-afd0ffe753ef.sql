@@ -0,0 +1,7 @@
+-- When a subscriptions row was last confirmed against Stripe, by the webhook or a check-subscription reconcile
+ALTER TABLE public.subscriptions
+  ADD COLUMN synced_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+-- Stream subscription changes to useSubscription; full row images let the user_id filter match deletes too
+ALTER TABLE public.subscriptions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.subscriptions;
@@ -0,0 +1,51 @@
+-- Create tier_usage_policies table deciding what record-usage-event does once a tier's usage limit is reached:
+-- reject the event, accept it as billable overage, or accept it with a warning only
+CREATE TABLE public.tier_usage_policies (
+  tier_id TEXT PRIMARY KEY,
+  enforcement TEXT NOT NULL DEFAULT 'overage' CHECK (enforcement IN ('reject', 'overage', 'soft_warning')),
+  warn_at_ratio NUMERIC(4,3) NOT NULL DEFAULT 0.8 CHECK (warn_at_ratio > 0 AND warn_at_ratio <= 1),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_tier_usage_policies_updated_at
+  BEFORE UPDATE ON public.tier_usage_policies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.tier_usage_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view tier usage policies" ON public.tier_usage_policies
+  FOR SELECT TO authenticated
+  USING (true);
+
+-- Tiers as defined in initialize-stripe-billing; the trial has no overage price, so it is capped
+INSERT INTO public.tier_usage_policies (tier_id, enforcement) VALUES
+  ('trial', 'reject'),
+  ('starter', 'overage'),
+  ('professional', 'overage'),
+  ('business', 'soft_warning'),
+  ('enterprise', 'soft_warning');
+
+-- usage_limit_* metadata of the subscribed price, e.g. {"transactions": "1000", "ai_processing": "unlimited"}
+ALTER TABLE public.subscriptions
+  ADD COLUMN usage_limits JSONB;
+
+-- Set on events accepted past the tier's included usage
+ALTER TABLE public.usage_events
+  ADD COLUMN overage BOOLEAN NOT NULL DEFAULT false;
+
+-- Adds to a user's usage for a period in one statement so concurrent events do not lose increments
+CREATE OR REPLACE FUNCTION public.increment_usage_summary(
+  p_user_id UUID,
+  p_meter_id UUID,
+  p_period_start TIMESTAMPTZ,
+  p_period_end TIMESTAMPTZ,
+  p_value NUMERIC
+)
+RETURNS NUMERIC AS $$
+  INSERT INTO public.user_usage_summary (user_id, meter_id, period_start, period_end, total_usage)
+  VALUES (p_user_id, p_meter_id, p_period_start, p_period_end, p_value)
+  ON CONFLICT (user_id, meter_id, period_start, period_end)
+  DO UPDATE SET total_usage = public.user_usage_summary.total_usage + EXCLUDED.total_usage, updated_at = now()
+  RETURNING total_usage;
+$$ LANGUAGE sql;
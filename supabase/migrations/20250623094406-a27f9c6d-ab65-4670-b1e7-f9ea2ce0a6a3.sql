@@ -0,0 +1,8 @@
+-- Client-supplied key that makes batch ingestion retries safe; unique per user so re-sent events are skipped
+ALTER TABLE public.usage_events
+  ADD COLUMN idempotency_key TEXT;
+
+ALTER TABLE public.usage_events
+  ADD CONSTRAINT usage_events_user_idempotency_key_key UNIQUE (user_id, idempotency_key);
+
+CREATE INDEX idx_usage_events_user_created_at ON public.usage_events(user_id, created_at DESC);
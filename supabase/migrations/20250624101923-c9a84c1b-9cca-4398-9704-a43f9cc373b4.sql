@@ -0,0 +1,30 @@
+-- Outbox state for forwarding usage_events to Stripe meter events; the sync-usage-events worker drains it
+ALTER TABLE public.usage_events
+  ADD COLUMN sync_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (sync_status IN ('pending', 'processing', 'synced', 'failed', 'dead_letter', 'skipped')),
+  ADD COLUMN sync_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN next_sync_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN last_sync_error TEXT,
+  ADD COLUMN synced_at TIMESTAMPTZ;
+
+-- Events recorded before the outbox either reached Stripe inline or never will
+UPDATE public.usage_events
+  SET sync_status = CASE WHEN stripe_event_id IS NOT NULL THEN 'synced' ELSE 'skipped' END;
+
+CREATE INDEX idx_usage_events_sync_queue ON public.usage_events(next_sync_at)
+  WHERE sync_status IN ('pending', 'processing', 'failed');
+
+-- The worker uses the local event id as the Stripe meter event identifier, so it is also the stripe_event_id
+CREATE OR REPLACE FUNCTION public.mark_usage_events_synced(p_ids UUID[])
+RETURNS INTEGER AS $$
+  WITH updated AS (
+    UPDATE public.usage_events
+    SET sync_status = 'synced',
+        stripe_event_id = id::text,
+        synced_at = now(),
+        last_sync_error = NULL
+    WHERE id = ANY(p_ids)
+    RETURNING 1
+  )
+  SELECT count(*)::integer FROM updated;
+$$ LANGUAGE sql;
@@ -0,0 +1,38 @@
+-- Project API keys let servers report usage without a browser session. Only the SHA-256 hash of the
+-- key is stored; the plaintext is shown once at creation and key_prefix identifies it afterwards.
+CREATE TABLE public.api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  meter_names TEXT[] NOT NULL CHECK (cardinality(meter_names) > 0),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_api_keys_user_id ON public.api_keys(user_id, created_at DESC);
+
+CREATE TRIGGER update_api_keys_updated_at
+  BEFORE UPDATE ON public.api_keys
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own API keys" ON public.api_keys
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own API keys" ON public.api_keys
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own API keys" ON public.api_keys
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid());
+
+-- Which key reported an event; NULL for events recorded from a signed-in session
+ALTER TABLE public.usage_events
+  ADD COLUMN api_key_id UUID REFERENCES public.api_keys(id) ON DELETE SET NULL;
@@ -0,0 +1,133 @@
+-- Hourly and daily usage rollups per user and meter, kept current by a trigger on usage_events so
+-- get-usage-summary reads a few rows per bucket instead of scanning raw events. Buckets are UTC.
+CREATE TABLE public.usage_rollups_hourly (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  meter_id UUID NOT NULL REFERENCES public.usage_meters(id) ON DELETE CASCADE,
+  bucket_start TIMESTAMPTZ NOT NULL,
+  total_usage NUMERIC NOT NULL DEFAULT 0,
+  event_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, meter_id, bucket_start)
+);
+
+CREATE TABLE public.usage_rollups_daily (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  meter_id UUID NOT NULL REFERENCES public.usage_meters(id) ON DELETE CASCADE,
+  bucket_start TIMESTAMPTZ NOT NULL,
+  total_usage NUMERIC NOT NULL DEFAULT 0,
+  event_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, meter_id, bucket_start)
+);
+
+CREATE INDEX idx_usage_rollups_hourly_user_bucket ON public.usage_rollups_hourly(user_id, bucket_start);
+CREATE INDEX idx_usage_rollups_daily_user_bucket ON public.usage_rollups_daily(user_id, bucket_start);
+
+ALTER TABLE public.usage_rollups_hourly ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.usage_rollups_daily ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users; only the trigger below writes rollups
+CREATE POLICY "Users can view their own hourly usage rollups" ON public.usage_rollups_hourly
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view their own daily usage rollups" ON public.usage_rollups_daily
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+-- Statement-level so a batch insert adds one increment per bucket; rows skipped by ON CONFLICT DO NOTHING
+-- are not in the transition table and are not counted
+CREATE OR REPLACE FUNCTION public.rollup_usage_events()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.usage_rollups_hourly (user_id, meter_id, bucket_start, total_usage, event_count)
+  SELECT user_id, meter_id, date_trunc('hour', created_at, 'UTC'), sum(value), count(*)
+  FROM new_events
+  GROUP BY 1, 2, 3
+  ORDER BY 1, 2, 3
+  ON CONFLICT (user_id, meter_id, bucket_start)
+  DO UPDATE SET
+    total_usage = public.usage_rollups_hourly.total_usage + EXCLUDED.total_usage,
+    event_count = public.usage_rollups_hourly.event_count + EXCLUDED.event_count,
+    updated_at = now();
+
+  INSERT INTO public.usage_rollups_daily (user_id, meter_id, bucket_start, total_usage, event_count)
+  SELECT user_id, meter_id, date_trunc('day', created_at, 'UTC'), sum(value), count(*)
+  FROM new_events
+  GROUP BY 1, 2, 3
+  ORDER BY 1, 2, 3
+  ON CONFLICT (user_id, meter_id, bucket_start)
+  DO UPDATE SET
+    total_usage = public.usage_rollups_daily.total_usage + EXCLUDED.total_usage,
+    event_count = public.usage_rollups_daily.event_count + EXCLUDED.event_count,
+    updated_at = now();
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER rollup_usage_events_after_insert
+  AFTER INSERT ON public.usage_events
+  REFERENCING NEW TABLE AS new_events
+  FOR EACH STATEMENT EXECUTE FUNCTION public.rollup_usage_events();
+
+-- Backfill from events recorded before the rollups existed
+INSERT INTO public.usage_rollups_hourly (user_id, meter_id, bucket_start, total_usage, event_count)
+SELECT user_id, meter_id, date_trunc('hour', created_at, 'UTC'), sum(value), count(*)
+FROM public.usage_events
+GROUP BY 1, 2, 3;
+
+INSERT INTO public.usage_rollups_daily (user_id, meter_id, bucket_start, total_usage, event_count)
+SELECT user_id, meter_id, date_trunc('day', created_at, 'UTC'), sum(value), count(*)
+FROM public.usage_events
+GROUP BY 1, 2, 3;
+
+-- Usage per meter and bucket for [p_start, p_end). Hour and day read their own rollup, month groups
+-- daily rows, and 'total' sums hourly rows into one bucket per meter. Bucket boundaries are UTC, so a
+-- range starting mid-bucket includes that whole bucket. Runs as the caller, so RLS applies.
+CREATE OR REPLACE FUNCTION public.get_usage_rollup(
+  p_user_id UUID,
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_granularity TEXT
+)
+RETURNS TABLE (meter_id UUID, bucket_start TIMESTAMPTZ, total_usage NUMERIC, event_count BIGINT) AS $$
+BEGIN
+  IF p_granularity = 'hour' THEN
+    RETURN QUERY
+      SELECT r.meter_id, r.bucket_start, r.total_usage, r.event_count::bigint
+      FROM public.usage_rollups_hourly r
+      WHERE r.user_id = p_user_id
+        AND r.bucket_start >= date_trunc('hour', p_start, 'UTC')
+        AND r.bucket_start < p_end
+      ORDER BY r.bucket_start, r.meter_id;
+  ELSIF p_granularity = 'day' THEN
+    RETURN QUERY
+      SELECT r.meter_id, r.bucket_start, r.total_usage, r.event_count::bigint
+      FROM public.usage_rollups_daily r
+      WHERE r.user_id = p_user_id
+        AND r.bucket_start >= date_trunc('day', p_start, 'UTC')
+        AND r.bucket_start < p_end
+      ORDER BY r.bucket_start, r.meter_id;
+  ELSIF p_granularity = 'month' THEN
+    RETURN QUERY
+      SELECT r.meter_id, date_trunc('month', r.bucket_start, 'UTC'), sum(r.total_usage), sum(r.event_count)::bigint
+      FROM public.usage_rollups_daily r
+      WHERE r.user_id = p_user_id
+        AND r.bucket_start >= date_trunc('month', p_start, 'UTC')
+        AND r.bucket_start < p_end
+      GROUP BY 1, 2
+      ORDER BY 2, 1;
+  ELSIF p_granularity = 'total' THEN
+    RETURN QUERY
+      SELECT r.meter_id, date_trunc('hour', p_start, 'UTC'), sum(r.total_usage), sum(r.event_count)::bigint
+      FROM public.usage_rollups_hourly r
+      WHERE r.user_id = p_user_id
+        AND r.bucket_start >= date_trunc('hour', p_start, 'UTC')
+        AND r.bucket_start < p_end
+      GROUP BY 1;
+  ELSE
+    RAISE EXCEPTION 'Unknown granularity: %', p_granularity;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,23 @@
+-- Overage price per unit (dollars) from the subscribed price's metadata, for projecting the bill
+ALTER TABLE public.subscriptions
+  ADD COLUMN overage_rate NUMERIC;
+
+-- One projected-overage alert per user, meter and billing period; forecast-usage claims the row before
+-- emailing and removes it again if the email fails, so the next run retries
+CREATE TABLE public.usage_forecast_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  meter_name TEXT NOT NULL,
+  period_start TIMESTAMPTZ NOT NULL,
+  usage_limit NUMERIC NOT NULL,
+  projected_usage NUMERIC NOT NULL,
+  projected_exceed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(user_id, meter_name, period_start)
+);
+
+ALTER TABLE public.usage_forecast_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own usage forecast alerts" ON public.usage_forecast_alerts
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
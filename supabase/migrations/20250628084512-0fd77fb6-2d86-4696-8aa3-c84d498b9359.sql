@@ -0,0 +1,72 @@
+-- Role-based access to the shared Stripe account, replacing the client-side admin password.
+-- Roles are ordered: owner > admin > billing_editor > viewer; each role can do everything the ones below it can.
+CREATE TABLE public.user_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'admin', 'billing_editor', 'viewer')),
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_user_roles_updated_at
+  BEFORE UPDATE ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- True when the user's role is at least p_role. Takes any user id, so only the service role (edge functions
+-- checking their caller) may run it; policies use caller_has_role below.
+CREATE OR REPLACE FUNCTION public.has_role(p_user_id UUID, p_role TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = p_user_id
+      AND array_position(ARRAY['viewer', 'billing_editor', 'admin', 'owner'], role)
+        >= array_position(ARRAY['viewer', 'billing_editor', 'admin', 'owner'], p_role)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.has_role(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.has_role(UUID, TEXT) TO service_role;
+
+-- The same check for the signed-in user. SECURITY DEFINER so policies on user_roles can use it without
+-- recursing into themselves.
+CREATE OR REPLACE FUNCTION public.caller_has_role(p_role TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT public.has_role(auth.uid(), p_role);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.caller_has_role(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.caller_has_role(TEXT) TO authenticated, service_role;
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Role changes go through the manage-user-roles function, which also protects the last owner
+CREATE POLICY "Users can view their own role" ON public.user_roles
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Owners can view all roles" ON public.user_roles
+  FOR SELECT TO authenticated
+  USING (public.caller_has_role('owner'));
+
+-- The first account becomes the owner; everyone after starts as a viewer until an owner promotes them
+CREATE OR REPLACE FUNCTION public.assign_default_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (
+    NEW.id,
+    CASE WHEN EXISTS (SELECT 1 FROM public.user_roles WHERE role = 'owner') THEN 'viewer' ELSE 'owner' END
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created_assign_role
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.assign_default_role();
+
+-- Existing accounts: the earliest becomes the owner, the rest viewers
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, CASE WHEN row_number() OVER (ORDER BY created_at) = 1 THEN 'owner' ELSE 'viewer' END
+FROM auth.users;
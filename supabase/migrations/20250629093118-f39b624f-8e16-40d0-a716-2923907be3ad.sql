@@ -0,0 +1,314 @@
+-- Organizations own billing models, deployments and the connected Stripe account; users reach them through membership.
+CREATE TABLE public.organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  stripe_account_id TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.organization_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(organization_id, user_id)
+);
+
+CREATE TABLE public.organization_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + INTERVAL '14 days',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(organization_id, email)
+);
+
+CREATE INDEX idx_organization_members_user_id ON public.organization_members(user_id);
+CREATE INDEX idx_organization_invitations_email ON public.organization_invitations(lower(email));
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Membership checks for policies. SECURITY DEFINER so policies on organization_members can use them
+-- without recursing into themselves.
+CREATE OR REPLACE FUNCTION public.is_org_member(p_organization_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_org_owner(p_organization_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id AND user_id = auth.uid() AND role = 'owner'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.is_org_member(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.is_org_owner(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_org_member(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.is_org_owner(UUID) TO authenticated, service_role;
+
+-- Whoever creates an organization becomes its first owner
+CREATE OR REPLACE FUNCTION public.add_organization_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO public.organization_members (organization_id, user_id, role)
+    VALUES (NEW.id, NEW.created_by, 'owner');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_organization_created_add_owner
+  AFTER INSERT ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.add_organization_owner();
+
+-- An organization must always keep at least one owner. Deleting the organization itself cascades
+-- after the organization row is gone, so that path is let through.
+CREATE OR REPLACE FUNCTION public.protect_last_organization_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM public.organizations WHERE id = OLD.organization_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.organization_members
+      WHERE organization_id = OLD.organization_id AND role = 'owner' AND id <> OLD.id
+    ) THEN
+    RAISE EXCEPTION 'Cannot remove the last owner of an organization';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_last_organization_owner
+  BEFORE UPDATE OR DELETE ON public.organization_members
+  FOR EACH ROW EXECUTE FUNCTION public.protect_last_organization_owner();
+
+-- Joins the caller to the organization of a pending invitation addressed to their email
+CREATE OR REPLACE FUNCTION public.accept_organization_invitation(p_invitation_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_invitation public.organization_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM public.organization_invitations
+  WHERE id = p_invitation_id
+    AND accepted_at IS NULL
+    AND expires_at > now()
+    AND lower(email) = lower((SELECT email FROM auth.users WHERE id = auth.uid()));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found or expired';
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (v_invitation.organization_id, auth.uid(), v_invitation.role)
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  UPDATE public.organization_invitations SET accepted_at = now() WHERE id = p_invitation_id;
+
+  RETURN v_invitation.organization_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.accept_organization_invitation(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_organization_invitation(UUID) TO authenticated;
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organizations" ON public.organizations
+  FOR SELECT TO authenticated
+  USING (public.is_org_member(id));
+
+-- Lets an invitee see which organization they are being asked to join
+CREATE POLICY "Invitees can view inviting organizations" ON public.organizations
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.organization_invitations
+    WHERE organization_id = organizations.id
+      AND accepted_at IS NULL
+      AND lower(email) = lower(auth.jwt() ->> 'email')
+  ));
+
+CREATE POLICY "Users can create organizations" ON public.organizations
+  FOR INSERT TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Owners can update their organizations" ON public.organizations
+  FOR UPDATE TO authenticated
+  USING (public.is_org_owner(id));
+
+CREATE POLICY "Owners can delete their organizations" ON public.organizations
+  FOR DELETE TO authenticated
+  USING (public.is_org_owner(id));
+
+-- New members only arrive through the owner trigger or an accepted invitation
+CREATE POLICY "Members can view fellow members" ON public.organization_members
+  FOR SELECT TO authenticated
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Owners can change member roles" ON public.organization_members
+  FOR UPDATE TO authenticated
+  USING (public.is_org_owner(organization_id));
+
+CREATE POLICY "Owners can remove members and members can leave" ON public.organization_members
+  FOR DELETE TO authenticated
+  USING (public.is_org_owner(organization_id) OR user_id = auth.uid());
+
+-- Member lists show emails, which live on profiles
+CREATE POLICY "Members can view profiles of fellow members" ON public.profiles
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE user_id = profiles.id AND public.is_org_member(organization_id)
+  ));
+
+CREATE POLICY "Owners and invitees can view invitations" ON public.organization_invitations
+  FOR SELECT TO authenticated
+  USING (public.is_org_owner(organization_id) OR lower(email) = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Owners can invite members" ON public.organization_invitations
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_org_owner(organization_id) AND invited_by = auth.uid());
+
+CREATE POLICY "Owners can revoke and invitees can decline invitations" ON public.organization_invitations
+  FOR DELETE TO authenticated
+  USING (public.is_org_owner(organization_id) OR lower(email) = lower(auth.jwt() ->> 'email'));
+
+-- Every account gets a personal organization so it always has somewhere to keep its models
+CREATE OR REPLACE FUNCTION public.create_personal_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (COALESCE(NULLIF(NEW.raw_user_meta_data ->> 'company_name', ''), 'Personal workspace'), NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created_create_organization
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.create_personal_organization();
+
+INSERT INTO public.organizations (name, created_by)
+SELECT COALESCE(NULLIF(raw_user_meta_data ->> 'company_name', ''), 'Personal workspace'), id
+FROM auth.users;
+
+-- Move billing models, their history and deployments from the user onto that user's personal organization.
+-- user_id stays as the author of each row.
+ALTER TABLE public.billing_models ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.billing_model_items ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.billing_model_versions ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.billing_model_deployments ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.billing_model_deployment_items ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+UPDATE public.billing_models t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+UPDATE public.billing_model_items t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+UPDATE public.billing_model_versions t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+UPDATE public.billing_model_deployments t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+UPDATE public.billing_model_deployment_items t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+
+ALTER TABLE public.billing_models ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.billing_model_items ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.billing_model_versions ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.billing_model_deployments ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.billing_model_deployment_items ALTER COLUMN organization_id SET NOT NULL;
+
+CREATE INDEX idx_billing_models_organization_id ON public.billing_models(organization_id, created_at DESC);
+CREATE INDEX idx_billing_model_deployments_organization_id ON public.billing_model_deployments(organization_id, created_at DESC);
+
+DROP POLICY "Users can view their own billing models" ON public.billing_models;
+DROP POLICY "Users can insert their own billing models" ON public.billing_models;
+DROP POLICY "Users can update their own billing models" ON public.billing_models;
+DROP POLICY "Users can delete their own billing models" ON public.billing_models;
+DROP POLICY "Users can view their own billing model items" ON public.billing_model_items;
+DROP POLICY "Users can insert their own billing model items" ON public.billing_model_items;
+DROP POLICY "Users can update their own billing model items" ON public.billing_model_items;
+DROP POLICY "Users can delete their own billing model items" ON public.billing_model_items;
+DROP POLICY "Users can view their own billing model versions" ON public.billing_model_versions;
+DROP POLICY "Users can insert their own billing model versions" ON public.billing_model_versions;
+DROP POLICY "Users can view their own deployments" ON public.billing_model_deployments;
+DROP POLICY "Users can insert their own deployments" ON public.billing_model_deployments;
+DROP POLICY "Users can update their own deployments" ON public.billing_model_deployments;
+DROP POLICY "Users can view their own deployment items" ON public.billing_model_deployment_items;
+DROP POLICY "Users can insert their own deployment items" ON public.billing_model_deployment_items;
+DROP POLICY "Users can update their own deployment items" ON public.billing_model_deployment_items;
+
+CREATE POLICY "Members can view their organization's billing models" ON public.billing_models
+  FOR SELECT TO authenticated
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can insert billing models" ON public.billing_models
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_org_member(organization_id) AND user_id = auth.uid());
+
+CREATE POLICY "Members can update their organization's billing models" ON public.billing_models
+  FOR UPDATE TO authenticated
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can delete their organization's billing models" ON public.billing_models
+  FOR DELETE TO authenticated
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can view their organization's billing model items" ON public.billing_model_items
+  FOR SELECT TO authenticated
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can insert billing model items" ON public.billing_model_items
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_org_member(organization_id) AND user_id = auth.uid());
+
+CREATE POLICY "Members can update their organization's billing model items" ON public.billing_model_items
+  FOR UPDATE TO authenticated
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can delete their organization's billing model items" ON public.billing_model_items
+  FOR DELETE TO authenticated
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can view their organization's billing model versions" ON public.billing_model_versions
+  FOR SELECT TO authenticated
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can insert billing model versions" ON public.billing_model_versions
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_org_member(organization_id) AND user_id = auth.uid());
+
+CREATE POLICY "Members can view their organization's deployments" ON public.billing_model_deployments
+  FOR SELECT TO authenticated
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can insert deployments" ON public.billing_model_deployments
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_org_member(organization_id) AND user_id = auth.uid());
+
+CREATE POLICY "Members can update their organization's deployments" ON public.billing_model_deployments
+  FOR UPDATE TO authenticated
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can view their organization's deployment items" ON public.billing_model_deployment_items
+  FOR SELECT TO authenticated
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can insert deployment items" ON public.billing_model_deployment_items
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_org_member(organization_id) AND user_id = auth.uid());
+
+CREATE POLICY "Members can update their organization's deployment items" ON public.billing_model_deployment_items
+  FOR UPDATE TO authenticated
+  USING (public.is_org_member(organization_id));
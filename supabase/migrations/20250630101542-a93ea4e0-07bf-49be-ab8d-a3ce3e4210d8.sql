@@ -0,0 +1,24 @@
+-- Each organization's Stripe secret key, encrypted with AES-GCM by the edge functions
+-- (STRIPE_CREDENTIALS_ENCRYPTION_KEY). The key never goes back to the browser.
+CREATE TABLE public.stripe_credentials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL UNIQUE REFERENCES public.organizations(id) ON DELETE CASCADE,
+  encrypted_key TEXT NOT NULL,
+  key_iv TEXT NOT NULL,
+  key_last4 TEXT NOT NULL,
+  livemode BOOLEAN NOT NULL DEFAULT false,
+  stripe_account_id TEXT NOT NULL,
+  account_name TEXT,
+  connected_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  rotated_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_stripe_credentials_updated_at
+  BEFORE UPDATE ON public.stripe_credentials
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- No policies on purpose: only the service role can read or write credentials.
+-- Connection status is served by the manage-stripe-credentials function.
+ALTER TABLE public.stripe_credentials ENABLE ROW LEVEL SECURITY;
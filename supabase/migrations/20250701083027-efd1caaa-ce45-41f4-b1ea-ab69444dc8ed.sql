@@ -0,0 +1,17 @@
+-- Test and live keys are connected separately: one credential per organization and mode
+ALTER TABLE public.stripe_credentials
+  ADD COLUMN mode TEXT NOT NULL DEFAULT 'test' CHECK (mode IN ('test', 'live'));
+
+UPDATE public.stripe_credentials SET mode = CASE WHEN livemode THEN 'live' ELSE 'test' END;
+
+ALTER TABLE public.stripe_credentials DROP COLUMN livemode;
+ALTER TABLE public.stripe_credentials DROP CONSTRAINT stripe_credentials_organization_id_key;
+ALTER TABLE public.stripe_credentials
+  ADD CONSTRAINT stripe_credentials_organization_id_mode_key UNIQUE (organization_id, mode);
+
+-- Billing models deploy to test first; live deployments are promotions that replay a completed test deployment
+ALTER TABLE public.billing_model_deployments
+  ADD COLUMN mode TEXT NOT NULL DEFAULT 'test' CHECK (mode IN ('test', 'live')),
+  ADD COLUMN promoted_from_deployment_id UUID REFERENCES public.billing_model_deployments(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_billing_model_deployments_promoted_from ON public.billing_model_deployments(promoted_from_deployment_id);
@@ -0,0 +1,33 @@
+-- Append-only record of every Stripe mutation made by the edge functions (see supabase/functions/_shared/audit.ts)
+CREATE TABLE public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id TEXT NOT NULL,
+  function_name TEXT NOT NULL,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email TEXT,
+  -- NULL for platform-level changes made with the deployment's own Stripe key
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  mode TEXT CHECK (mode IN ('test', 'live')),
+  action TEXT NOT NULL,
+  object_type TEXT NOT NULL,
+  stripe_object_id TEXT,
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_organization_id ON public.audit_log(organization_id, created_at DESC);
+CREATE INDEX idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX idx_audit_log_stripe_object_id ON public.audit_log(stripe_object_id);
+CREATE INDEX idx_audit_log_request_id ON public.audit_log(request_id);
+
+-- Entries are only written by the edge functions with the service role; nobody can change or delete them
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization's audit log" ON public.audit_log
+  FOR SELECT TO authenticated
+  USING (organization_id IS NOT NULL AND public.is_org_member(organization_id));
+
+CREATE POLICY "Admins can view the platform audit log" ON public.audit_log
+  FOR SELECT TO authenticated
+  USING (organization_id IS NULL AND public.caller_has_role('admin'));
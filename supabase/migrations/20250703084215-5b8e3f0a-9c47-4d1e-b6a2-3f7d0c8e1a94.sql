@@ -0,0 +1,59 @@
+-- Saves a new version of a billing model in one transaction: the version snapshot, the replacement items
+-- and the bumped current_version all land together or not at all. Runs as the caller, so the billing model
+-- policies still decide who may save.
+CREATE OR REPLACE FUNCTION public.save_billing_model_version(
+  p_model_id UUID,
+  p_name TEXT,
+  p_description TEXT,
+  p_type TEXT,
+  p_items JSONB,
+  p_snapshot JSONB,
+  p_change_summary TEXT,
+  p_restored_from_version INTEGER DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_model public.billing_models%ROWTYPE;
+  v_version INTEGER;
+BEGIN
+  -- Concurrent saves of the same model queue up here instead of racing for the next version number
+  SELECT * INTO v_model FROM public.billing_models WHERE id = p_model_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Billing model not found';
+  END IF;
+
+  v_version := v_model.current_version + 1;
+
+  INSERT INTO public.billing_model_versions (
+    billing_model_id, user_id, organization_id, version_number, name, description, type, items,
+    change_summary, restored_from_version, created_by, created_by_email
+  )
+  VALUES (
+    p_model_id, auth.uid(), v_model.organization_id, v_version, p_name, NULLIF(p_description, ''), p_type, p_snapshot,
+    p_change_summary, p_restored_from_version, auth.uid(), auth.jwt() ->> 'email'
+  );
+
+  DELETE FROM public.billing_model_items WHERE billing_model_id = p_model_id;
+
+  INSERT INTO public.billing_model_items (
+    billing_model_id, user_id, organization_id, item_key, position, product, unit_amount, currency,
+    currency_options, type, interval, event_name, description, billing_scheme, tiers, tiers_mode,
+    usage_type, aggregate_usage, metadata
+  )
+  SELECT
+    p_model_id, auth.uid(), v_model.organization_id, item.item_key, item.position, item.product, item.unit_amount, item.currency,
+    item.currency_options, item.type, item.interval, item.event_name, item.description, item.billing_scheme, item.tiers, item.tiers_mode,
+    item.usage_type, item.aggregate_usage, COALESCE(item.metadata, '{}')
+  FROM jsonb_populate_recordset(NULL::public.billing_model_items, p_items) AS item;
+
+  UPDATE public.billing_models
+  SET name = p_name, description = NULLIF(p_description, ''), type = p_type, current_version = v_version
+  WHERE id = p_model_id;
+
+  RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_billing_model_version(UUID, TEXT, TEXT, TEXT, JSONB, JSONB, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_billing_model_version(UUID, TEXT, TEXT, TEXT, JSONB, JSONB, TEXT, INTEGER) TO authenticated;
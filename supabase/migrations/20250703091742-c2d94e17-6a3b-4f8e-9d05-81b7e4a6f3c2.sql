@@ -0,0 +1,8 @@
+-- When the delivery currently processing an event claimed it. A 'received' event whose claim is older than the
+-- processing lease belongs to a delivery that died mid-way, and a Stripe redelivery may claim it again.
+ALTER TABLE public.stripe_events
+  ADD COLUMN claimed_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+UPDATE public.stripe_events SET claimed_at = created_at;
+
+CREATE INDEX idx_stripe_events_stale_claims ON public.stripe_events(claimed_at) WHERE status = 'received';
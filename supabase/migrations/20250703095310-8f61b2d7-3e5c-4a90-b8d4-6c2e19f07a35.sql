@@ -0,0 +1,9 @@
+-- Users without any Stripe subscription get one placeholder row with no stripe_subscription_id. Its synced_at
+-- records when check-subscription last confirmed that, so non-subscribers go through the same staleness check
+-- as everyone else instead of triggering a Stripe lookup on every page load.
+ALTER TABLE public.subscriptions
+  ALTER COLUMN stripe_subscription_id DROP NOT NULL,
+  ALTER COLUMN customer_id DROP NOT NULL;
+
+CREATE UNIQUE INDEX idx_subscriptions_no_subscription ON public.subscriptions(user_id)
+  WHERE stripe_subscription_id IS NULL;
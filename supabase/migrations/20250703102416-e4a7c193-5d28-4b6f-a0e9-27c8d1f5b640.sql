@@ -0,0 +1,63 @@
+-- Usage is only recorded through record-usage-event and record-usage-batch, so users keep read access
+-- but can no longer insert events or raise and lower their own period totals directly
+DROP POLICY IF EXISTS "Users can insert their own usage events" ON public.usage_events;
+DROP POLICY IF EXISTS "Users can insert their own usage summary" ON public.user_usage_summary;
+DROP POLICY IF EXISTS "Users can update their own usage summary" ON public.user_usage_summary;
+
+-- Replaced by reserve_usage, which checks the limit under the same row lock as the increment
+DROP FUNCTION IF EXISTS public.increment_usage_summary(UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, NUMERIC);
+
+-- Adds each value in order to a user's period total while holding the summary row lock, so concurrent
+-- requests cannot both pass a 'reject' limit. With p_limit set, values that would push the total past it
+-- are skipped; a NULL limit accepts everything. Negative values release usage that was reserved but not recorded.
+CREATE OR REPLACE FUNCTION public.reserve_usage(
+  p_user_id UUID,
+  p_meter_id UUID,
+  p_period_start TIMESTAMPTZ,
+  p_period_end TIMESTAMPTZ,
+  p_values NUMERIC[],
+  p_limit NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (accepted BOOLEAN[], previous_total NUMERIC, new_total NUMERIC) AS $$
+DECLARE
+  v_total NUMERIC;
+  v_start NUMERIC;
+  v_value NUMERIC;
+  v_accepted BOOLEAN[] := '{}';
+BEGIN
+  INSERT INTO public.user_usage_summary (user_id, meter_id, period_start, period_end, total_usage)
+  VALUES (p_user_id, p_meter_id, p_period_start, p_period_end, 0)
+  ON CONFLICT (user_id, meter_id, period_start, period_end) DO NOTHING;
+
+  SELECT s.total_usage INTO v_total
+  FROM public.user_usage_summary s
+  WHERE s.user_id = p_user_id
+    AND s.meter_id = p_meter_id
+    AND s.period_start = p_period_start
+    AND s.period_end = p_period_end
+  FOR UPDATE;
+
+  v_start := v_total;
+
+  FOREACH v_value IN ARRAY p_values LOOP
+    IF p_limit IS NOT NULL AND v_value > 0 AND v_total + v_value > p_limit THEN
+      v_accepted := v_accepted || false;
+    ELSE
+      v_accepted := v_accepted || true;
+      v_total := GREATEST(v_total + v_value, 0);
+    END IF;
+  END LOOP;
+
+  UPDATE public.user_usage_summary s
+  SET total_usage = v_total, updated_at = now()
+  WHERE s.user_id = p_user_id
+    AND s.meter_id = p_meter_id
+    AND s.period_start = p_period_start
+    AND s.period_end = p_period_end;
+
+  RETURN QUERY SELECT v_accepted, v_start, v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_usage(UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, NUMERIC[], NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_usage(UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, NUMERIC[], NUMERIC) TO service_role;
@@ -0,0 +1,38 @@
+-- When the event happened, as reported by the caller; created_at stays the time it was stored.
+-- Batches recorded so far wrote the event time into created_at, so that is the best backfill.
+ALTER TABLE public.usage_events
+  ADD COLUMN occurred_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+UPDATE public.usage_events SET occurred_at = created_at;
+
+CREATE INDEX idx_usage_events_user_occurred_at ON public.usage_events(user_id, occurred_at DESC);
+
+-- Rollups bucket by event time so late-arriving batches land in the hour and day they happened
+CREATE OR REPLACE FUNCTION public.rollup_usage_events()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.usage_rollups_hourly (user_id, meter_id, bucket_start, total_usage, event_count)
+  SELECT user_id, meter_id, date_trunc('hour', occurred_at, 'UTC'), sum(value), count(*)
+  FROM new_events
+  GROUP BY 1, 2, 3
+  ORDER BY 1, 2, 3
+  ON CONFLICT (user_id, meter_id, bucket_start)
+  DO UPDATE SET
+    total_usage = public.usage_rollups_hourly.total_usage + EXCLUDED.total_usage,
+    event_count = public.usage_rollups_hourly.event_count + EXCLUDED.event_count,
+    updated_at = now();
+
+  INSERT INTO public.usage_rollups_daily (user_id, meter_id, bucket_start, total_usage, event_count)
+  SELECT user_id, meter_id, date_trunc('day', occurred_at, 'UTC'), sum(value), count(*)
+  FROM new_events
+  GROUP BY 1, 2, 3
+  ORDER BY 1, 2, 3
+  ON CONFLICT (user_id, meter_id, bucket_start)
+  DO UPDATE SET
+    total_usage = public.usage_rollups_daily.total_usage + EXCLUDED.total_usage,
+    event_count = public.usage_rollups_daily.event_count + EXCLUDED.event_count,
+    updated_at = now();
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,28 @@
+-- Scheduled calls to edge functions run through pg_cron and pg_net. The project URL and service role key
+-- are read from the Vault secrets 'project_url' and 'service_role_key', created once per project with
+-- vault.create_secret, so neither is committed here.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Posts p_body to an edge function as the service role; the functions treat that key as a scheduled worker
+CREATE OR REPLACE FUNCTION public.invoke_scheduled_function(p_name TEXT, p_body JSONB DEFAULT '{}'::jsonb)
+RETURNS BIGINT AS $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/' || p_name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := p_body,
+    timeout_milliseconds := 60000
+  );
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_scheduled_function(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Drains the usage_events outbox every minute; each run claims up to a batch and retries back off per event
+SELECT cron.schedule(
+  'sync-usage-events',
+  '* * * * *',
+  $$SELECT public.invoke_scheduled_function('sync-usage-events', '{"action": "sync"}'::jsonb)$$
+);
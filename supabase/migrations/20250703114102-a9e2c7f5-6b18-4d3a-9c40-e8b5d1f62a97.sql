@@ -0,0 +1,7 @@
+-- Forecasts every user with a live subscription once a day; usage_forecast_alerts keeps it to one alert
+-- per user, meter and period however often it runs
+SELECT cron.schedule(
+  'forecast-usage',
+  '15 6 * * *',
+  $$SELECT public.invoke_scheduled_function('forecast-usage')$$
+);
@@ -0,0 +1,4 @@
+-- Set when a server reports usage for one of its own Stripe customers; sync-usage-events sends the meter
+-- event for that customer instead of the customer of the user who owns the API key
+ALTER TABLE public.usage_events
+  ADD COLUMN stripe_customer_id TEXT;
@@ -0,0 +1,142 @@
+-- Roles are held per organization: a member's role in organization_members decides what they may change
+-- there, using the same viewer < billing_editor < admin < owner ordering as user_roles. Existing members
+-- kept full write access, so they become billing editors.
+ALTER TABLE public.organization_members DROP CONSTRAINT IF EXISTS organization_members_role_check;
+ALTER TABLE public.organization_invitations DROP CONSTRAINT IF EXISTS organization_invitations_role_check;
+
+UPDATE public.organization_members SET role = 'billing_editor' WHERE role = 'member';
+UPDATE public.organization_invitations SET role = 'billing_editor' WHERE role = 'member';
+
+ALTER TABLE public.organization_members
+  ALTER COLUMN role SET DEFAULT 'viewer',
+  ADD CONSTRAINT organization_members_role_check CHECK (role IN ('owner', 'admin', 'billing_editor', 'viewer'));
+ALTER TABLE public.organization_invitations
+  ALTER COLUMN role SET DEFAULT 'viewer',
+  ADD CONSTRAINT organization_invitations_role_check CHECK (role IN ('owner', 'admin', 'billing_editor', 'viewer'));
+
+-- True when the user's role in the organization is at least p_role. Takes the user id so edge functions
+-- running with the service role can check the caller; that also makes it service-role only, and policies
+-- use caller_has_org_role below.
+CREATE OR REPLACE FUNCTION public.has_org_role(p_user_id UUID, p_organization_id UUID, p_role TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE user_id = p_user_id
+      AND organization_id = p_organization_id
+      AND array_position(ARRAY['viewer', 'billing_editor', 'admin', 'owner'], role)
+        >= array_position(ARRAY['viewer', 'billing_editor', 'admin', 'owner'], p_role)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.has_org_role(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.has_org_role(UUID, UUID, TEXT) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.caller_has_org_role(p_organization_id UUID, p_role TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT public.has_org_role(auth.uid(), p_organization_id, p_role);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.caller_has_org_role(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.caller_has_org_role(UUID, TEXT) TO authenticated, service_role;
+
+-- Viewers keep read access; changing billing models and deployments takes billing_editor
+DROP POLICY IF EXISTS "Members can insert billing models" ON public.billing_models;
+DROP POLICY IF EXISTS "Members can update their organization's billing models" ON public.billing_models;
+DROP POLICY IF EXISTS "Members can delete their organization's billing models" ON public.billing_models;
+DROP POLICY IF EXISTS "Members can insert billing model items" ON public.billing_model_items;
+DROP POLICY IF EXISTS "Members can update their organization's billing model items" ON public.billing_model_items;
+DROP POLICY IF EXISTS "Members can delete their organization's billing model items" ON public.billing_model_items;
+DROP POLICY IF EXISTS "Members can insert billing model versions" ON public.billing_model_versions;
+DROP POLICY IF EXISTS "Members can insert deployments" ON public.billing_model_deployments;
+DROP POLICY IF EXISTS "Members can update their organization's deployments" ON public.billing_model_deployments;
+DROP POLICY IF EXISTS "Members can insert deployment items" ON public.billing_model_deployment_items;
+DROP POLICY IF EXISTS "Members can update their organization's deployment items" ON public.billing_model_deployment_items;
+
+CREATE POLICY "Billing editors can insert billing models" ON public.billing_models
+  FOR INSERT TO authenticated
+  WITH CHECK (public.caller_has_org_role(organization_id, 'billing_editor') AND user_id = auth.uid());
+
+CREATE POLICY "Billing editors can update their organization's billing models" ON public.billing_models
+  FOR UPDATE TO authenticated
+  USING (public.caller_has_org_role(organization_id, 'billing_editor'));
+
+CREATE POLICY "Billing editors can delete their organization's billing models" ON public.billing_models
+  FOR DELETE TO authenticated
+  USING (public.caller_has_org_role(organization_id, 'billing_editor'));
+
+CREATE POLICY "Billing editors can insert billing model items" ON public.billing_model_items
+  FOR INSERT TO authenticated
+  WITH CHECK (public.caller_has_org_role(organization_id, 'billing_editor') AND user_id = auth.uid());
+
+CREATE POLICY "Billing editors can update their organization's billing model items" ON public.billing_model_items
+  FOR UPDATE TO authenticated
+  USING (public.caller_has_org_role(organization_id, 'billing_editor'));
+
+CREATE POLICY "Billing editors can delete their organization's billing model items" ON public.billing_model_items
+  FOR DELETE TO authenticated
+  USING (public.caller_has_org_role(organization_id, 'billing_editor'));
+
+-- Version history records who made each change, so created_by cannot name someone else
+CREATE POLICY "Billing editors can insert billing model versions" ON public.billing_model_versions
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    public.caller_has_org_role(organization_id, 'billing_editor')
+    AND user_id = auth.uid()
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Billing editors can insert deployments" ON public.billing_model_deployments
+  FOR INSERT TO authenticated
+  WITH CHECK (public.caller_has_org_role(organization_id, 'billing_editor') AND user_id = auth.uid());
+
+CREATE POLICY "Billing editors can update their organization's deployments" ON public.billing_model_deployments
+  FOR UPDATE TO authenticated
+  USING (public.caller_has_org_role(organization_id, 'billing_editor'));
+
+CREATE POLICY "Billing editors can insert deployment items" ON public.billing_model_deployment_items
+  FOR INSERT TO authenticated
+  WITH CHECK (public.caller_has_org_role(organization_id, 'billing_editor') AND user_id = auth.uid());
+
+CREATE POLICY "Billing editors can update their organization's deployment items" ON public.billing_model_deployment_items
+  FOR UPDATE TO authenticated
+  USING (public.caller_has_org_role(organization_id, 'billing_editor'));
+
+-- Meters belong to an organization; NULL marks the platform meters every account can report against.
+-- An organization meter's events go to the Stripe account the organization connected for its mode;
+-- platform meters always report to this deployment's own account, whatever the mode says.
+ALTER TABLE public.usage_meters
+  ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  ADD COLUMN mode TEXT NOT NULL DEFAULT 'test' CHECK (mode IN ('test', 'live'));
+
+CREATE INDEX idx_usage_meters_organization_id ON public.usage_meters(organization_id);
+
+-- Meter names and event names only need to be unique within an organization, so two organizations can both
+-- have an api_calls meter; platform meters (NULL organization) get partial indexes, since UNIQUE treats
+-- NULLs as distinct
+ALTER TABLE public.usage_meters
+  DROP CONSTRAINT IF EXISTS usage_meters_name_key,
+  DROP CONSTRAINT IF EXISTS usage_meters_event_name_key,
+  ADD CONSTRAINT usage_meters_organization_id_name_key UNIQUE (organization_id, name),
+  ADD CONSTRAINT usage_meters_organization_id_event_name_key UNIQUE (organization_id, event_name);
+
+CREATE UNIQUE INDEX usage_meters_platform_name_key ON public.usage_meters(name) WHERE organization_id IS NULL;
+CREATE UNIQUE INDEX usage_meters_platform_event_name_key ON public.usage_meters(event_name) WHERE organization_id IS NULL;
+
+DROP POLICY IF EXISTS "Everyone can view usage meters" ON public.usage_meters;
+
+CREATE POLICY "Members can view platform and organization usage meters" ON public.usage_meters
+  FOR SELECT TO authenticated
+  USING (organization_id IS NULL OR public.is_org_member(organization_id));
+
+CREATE POLICY "Billing editors can create organization usage meters" ON public.usage_meters
+  FOR INSERT TO authenticated
+  WITH CHECK (organization_id IS NOT NULL AND public.caller_has_org_role(organization_id, 'billing_editor'));
+
+CREATE POLICY "Billing editors can update organization usage meters" ON public.usage_meters
+  FOR UPDATE TO authenticated
+  USING (organization_id IS NOT NULL AND public.caller_has_org_role(organization_id, 'billing_editor'))
+  WITH CHECK (organization_id IS NOT NULL AND public.caller_has_org_role(organization_id, 'billing_editor'));
+
+CREATE POLICY "Billing editors can delete organization usage meters" ON public.usage_meters
+  FOR DELETE TO authenticated
+  USING (organization_id IS NOT NULL AND public.caller_has_org_role(organization_id, 'billing_editor'));
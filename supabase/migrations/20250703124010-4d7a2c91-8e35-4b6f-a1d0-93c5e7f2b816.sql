@@ -0,0 +1,50 @@
+-- Creates a billing model with its items and version 1 in one transaction, so a failed save never leaves a
+-- model without items or without the version its history starts from. The caller picks the model id so the
+-- item rows can be built up front, as for save_billing_model_version. Runs as the caller, so the billing
+-- model policies still decide who may create.
+CREATE OR REPLACE FUNCTION public.create_billing_model(
+  p_model_id UUID,
+  p_organization_id UUID,
+  p_name TEXT,
+  p_description TEXT,
+  p_type TEXT,
+  p_items JSONB,
+  p_snapshot JSONB,
+  p_change_summary TEXT,
+  p_legacy_id TEXT DEFAULT NULL,
+  p_created_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS UUID AS $$
+BEGIN
+  INSERT INTO public.billing_models (id, user_id, organization_id, name, description, type, legacy_id, created_at)
+  VALUES (
+    p_model_id, auth.uid(), p_organization_id, p_name, NULLIF(p_description, ''), p_type, p_legacy_id,
+    COALESCE(p_created_at, now())
+  );
+
+  INSERT INTO public.billing_model_items (
+    billing_model_id, user_id, organization_id, item_key, position, product, unit_amount, currency,
+    currency_options, type, interval, event_name, description, billing_scheme, tiers, tiers_mode,
+    usage_type, aggregate_usage, metadata
+  )
+  SELECT
+    p_model_id, auth.uid(), p_organization_id, item.item_key, item.position, item.product, item.unit_amount, item.currency,
+    item.currency_options, item.type, item.interval, item.event_name, item.description, item.billing_scheme, item.tiers, item.tiers_mode,
+    item.usage_type, item.aggregate_usage, COALESCE(item.metadata, '{}')
+  FROM jsonb_populate_recordset(NULL::public.billing_model_items, p_items) AS item;
+
+  INSERT INTO public.billing_model_versions (
+    billing_model_id, user_id, organization_id, version_number, name, description, type, items,
+    change_summary, created_by, created_by_email, created_at
+  )
+  VALUES (
+    p_model_id, auth.uid(), p_organization_id, 1, p_name, NULLIF(p_description, ''), p_type, p_snapshot,
+    p_change_summary, auth.uid(), auth.jwt() ->> 'email', COALESCE(p_created_at, now())
+  );
+
+  RETURN p_model_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_billing_model(UUID, UUID, TEXT, TEXT, TEXT, JSONB, JSONB, TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_billing_model(UUID, UUID, TEXT, TEXT, TEXT, JSONB, JSONB, TEXT, TEXT, TIMESTAMPTZ) TO authenticated;